@@ -10,6 +10,10 @@ import { fileURLToPath } from 'url';
 import authRoutes from './routes/auth.js';
 import documentsRoutes from './routes/documents.js';
 import chatRoutes from './routes/chat.js';
+import conversationsRoutes from './routes/conversations.js';
+import adminRoutes from './routes/admin.js';
+import filesRoutes from './routes/files.js';
+import { getFileStorage } from './services/fileStorageService.js';
 
 // for esm mode
 const __filename = fileURLToPath(import.meta.url);
@@ -18,6 +22,9 @@ const __dirname = path.dirname(__filename);
 // load env
 dotenv.config();
 
+// 启动时创建文件存储，配置不完整（如本地存储缺少签名密钥）时直接报错
+getFileStorage();
+
 console.log('🚀 初始化Express应用...');
 const app: express.Application = express();
 
@@ -60,6 +67,15 @@ console.log('✅ 文档路由已注册: /api/documents');
 app.use('/api/chat', chatRoutes);
 console.log('✅ 聊天路由已注册: /api/chat');
 
+app.use('/api/conversations', conversationsRoutes);
+console.log('✅ 对话路由已注册: /api/conversations');
+
+app.use('/api/admin', adminRoutes);
+console.log('✅ 管理路由已注册: /api/admin');
+
+app.use('/api/files', filesRoutes);
+console.log('✅ 文件路由已注册: /api/files');
+
 /**
  * health
  */
@@ -1,14 +1,22 @@
 import OpenAI from 'openai';
 import process from 'process';
+import type { EmbeddingProvider } from './embedding-provider.js';
+
+/**
+ * DashScope 嵌入接口单次请求允许的最大文本条数
+ */
+export const MAX_EMBEDDING_BATCH_SIZE = 10;
 
 /**
  * 阿里云嵌入模型服务
  * 使用DashScope API调用text-embedding-v4模型生成1024维向量
  */
-class AlibabaEmbeddingService {
+export class AlibabaEmbeddingService implements EmbeddingProvider {
+  readonly name = 'dashscope' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxBatchSize = MAX_EMBEDDING_BATCH_SIZE;
   private openai: OpenAI;
-  private model: string;
-  private dimensions: number;
 
   constructor() {
     // 打印所有环境变量读取情况
@@ -107,6 +115,47 @@ class AlibabaEmbeddingService {
     }
   }
 
+  /**
+   * 单次请求为多段文本生成向量嵌入
+   * 不包装原始错误，便于调用方根据 HTTP 状态码判断是否重试
+   * @param texts 文本数组（不超过 MAX_EMBEDDING_BATCH_SIZE 条）
+   * @param instruct 自定义指令（可选）
+   * @returns 与输入顺序一致的向量数组
+   */
+  async embedBatch(texts: string[], instruct?: string): Promise<number[][]> {
+    if (texts.length > MAX_EMBEDDING_BATCH_SIZE) {
+      throw new Error(`单次请求最多 ${MAX_EMBEDDING_BATCH_SIZE} 条文本，实际 ${texts.length} 条`);
+    }
+
+    const completion = await this.openai.embeddings.create(
+      {
+        model: this.model,
+        input: texts.map(text => (instruct ? `${instruct}\n${text}` : text)),
+        dimensions: this.dimensions,
+        encoding_format: 'float'
+      },
+      // 重试由调用方控制
+      { maxRetries: 0 }
+    );
+
+    if (!completion.data || completion.data.length !== texts.length) {
+      throw new Error(`阿里云嵌入服务返回数量不匹配，期望 ${texts.length}，实际 ${completion.data?.length || 0}`);
+    }
+
+    const embeddings = [...completion.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    for (const embedding of embeddings) {
+      if (!Array.isArray(embedding) || embedding.length !== this.dimensions) {
+        throw new Error(`向量维度不匹配，期望 ${this.dimensions}，实际 ${Array.isArray(embedding) ? embedding.length : '无效'}`);
+      }
+    }
+
+    console.log(`✅ 批量向量生成成功: ${texts.length} 条，使用的token数: ${completion.usage?.total_tokens || '未知'}`);
+    return embeddings;
+  }
+
   /**
    * 批量生成文本向量嵌入
    * @param texts 文本数组
@@ -120,16 +169,10 @@ class AlibabaEmbeddingService {
       
       const embeddings: number[][] = [];
       
-      // 逐个处理文本（避免API限制）
-      for (let i = 0; i < texts.length; i++) {
-        console.log(`- 处理第 ${i + 1}/${texts.length} 个文本...`);
-        const embedding = await this.generateEmbedding(texts[i], instruct);
-        embeddings.push(embedding);
-        
-        // 添加短暂延迟避免API限流
-        if (i < texts.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+      // 按接口上限分批请求
+      for (let i = 0; i < texts.length; i += MAX_EMBEDDING_BATCH_SIZE) {
+        console.log(`- 处理第 ${i + 1}-${Math.min(i + MAX_EMBEDDING_BATCH_SIZE, texts.length)}/${texts.length} 个文本...`);
+        embeddings.push(...await this.embedBatch(texts.slice(i, i + MAX_EMBEDDING_BATCH_SIZE), instruct));
       }
       
       console.log('✅ 批量向量生成完成');
@@ -178,6 +221,16 @@ export async function generateBatchEmbeddings(texts: string[], instruct?: string
   return await getAlibabaEmbeddingService().generateBatchEmbeddings(texts, instruct);
 }
 
+/**
+ * 单次请求批量生成向量（不重试、不包装错误）
+ * @param texts 文本数组
+ * @param instruct 自定义指令（可选）
+ * @returns 返回向量数组
+ */
+export async function embedBatch(texts: string[], instruct?: string): Promise<number[][]> {
+  return await getAlibabaEmbeddingService().embedBatch(texts, instruct);
+}
+
 // 导出服务实例获取函数（用于高级用法）
 export { getAlibabaEmbeddingService as getAlibabaEmbeddingService };
 
@@ -6,6 +6,7 @@
 import Core from '@alicloud/pop-core';
 
 import axios from 'axios';
+import { extractKeywordsWithSegmenter } from './local-segmenter.js';
 
 interface AliyunNLPConfig {
   accessKeyId: string;
@@ -248,51 +249,12 @@ export async function extractKeywordsWithAliyunNLP(
 
 /**
  * 备用关键词提取函数（本地实现）
- * 当阿里云API不可用时使用
+ * 当阿里云API不可用时使用，基于本地中英文分词和停用词表
  * @param text 待提取关键词的文本
  * @returns 提取的关键词数组
  */
 export function extractKeywordsLocally(text: string): string[] {
-  if (!text || text.trim().length === 0) {
-    return [];
-  }
-
-  // 移除标点符号和特殊字符
-  const cleanText = text
-    .replace(/[，。！？；：""''（）【】《》、\.,!?;:"'()\[\]<>]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
-
-  // 中文停用词列表
-  const stopWords = new Set([
-    '的', '了', '在', '是', '我', '有', '和', '就', '不', '人', '都', '一', '一个', '上', '也', '很', '到', '说', '要', '去', '你', '会', '着', '没有', '看', '好', '自己', '这', '那', '什么', '可以', '这个', '那个', '他', '她', '它', '我们', '你们', '他们', '她们', '它们', '这些', '那些', '怎么', '为什么', '哪里', '什么时候', '如何', '多少', '哪个', '哪些'
-  ]);
-
-  // 分词处理
-  const words: string[] = [];
-  
-  // 按空格分割
-  const spaceWords = cleanText.split(/\s+/).filter(word => word.length > 0);
-  words.push(...spaceWords);
-  
-  // 中文词汇提取（2-4字的词组）
-  const chineseMatches = cleanText.match(/[\u4e00-\u9fa5]{2,4}/g) || [];
-  words.push(...chineseMatches);
-  
-  // 过滤和去重
-  const keywords = [...new Set(words)]
-    .filter(word => {
-      // 过滤停用词
-      if (stopWords.has(word)) return false;
-      // 过滤单字符
-      if (word.length < 2) return false;
-      // 过滤纯数字
-      if (/^\d+$/.test(word)) return false;
-      return true;
-    })
-    .slice(0, 10); // 限制数量
-
-  return keywords;
+  return extractKeywordsWithSegmenter(text, 10);
 }
 
 /**
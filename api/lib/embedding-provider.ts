@@ -0,0 +1,32 @@
+/**
+ * 向量嵌入提供方接口定义
+ * 各实现负责调用具体的嵌入服务（DashScope、OpenAI兼容接口或本地离线计算）
+ */
+
+/**
+ * 支持的嵌入提供方名称（通过 EMBEDDING_PROVIDER 环境变量选择）
+ */
+export type EmbeddingProviderName = 'dashscope' | 'openai' | 'local';
+
+/**
+ * 向量嵌入提供方
+ */
+export interface EmbeddingProvider {
+  /** 提供方名称 */
+  readonly name: EmbeddingProviderName;
+  /** 模型名称 */
+  readonly model: string;
+  /** 向量维度 */
+  readonly dimensions: number;
+  /** 单次请求允许的最大文本条数 */
+  readonly maxBatchSize: number;
+
+  /**
+   * 单次请求为多段文本生成向量
+   * 不包装原始错误，便于调用方根据 HTTP 状态码判断是否重试
+   * @param texts 文本数组（不超过 maxBatchSize 条）
+   * @param instruct 自定义指令（可选，提供方可忽略）
+   * @returns 与输入顺序一致的向量数组
+   */
+  embedBatch(texts: string[], instruct?: string): Promise<number[][]>;
+}
\ No newline at end of file
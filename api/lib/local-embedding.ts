@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import process from 'process';
+import type { EmbeddingProvider } from './embedding-provider.js';
+
+/**
+ * 本地离线嵌入服务
+ * 将文本切分为字符 n-gram（中文）和单词（英文数字），哈希到固定维度后做 L2 归一化。
+ * 结果完全确定、无需网络，语义能力有限，仅用于测试和离线开发环境。
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model = 'local-hashed-ngram';
+  readonly dimensions: number;
+  readonly maxBatchSize = 256;
+
+  constructor(dimensions: number = parseInt(process.env.EMBEDDING_DIMENSIONS || '1024', 10)) {
+    this.dimensions = dimensions;
+  }
+
+  /**
+   * 为多段文本生成向量
+   * 指令会被忽略，保证查询与文档落在同一向量空间
+   * @param texts 文本数组
+   * @returns 与输入顺序一致的向量数组
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  /**
+   * 计算单段文本的哈希 n-gram 向量
+   */
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const feature of extractFeatures(text)) {
+      const digest = createHash('md5').update(feature).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      // 用哈希的一位决定符号，减少不同特征落入同一维度时的相互抵消偏差
+      const sign = digest[4] & 1 ? 1 : -1;
+      vector[bucket] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+/**
+ * 提取文本特征：英文单词、数字，以及中文字符的 1~3 gram
+ */
+function extractFeatures(text: string): string[] {
+  const features: string[] = [];
+  const normalized = text.toLowerCase();
+
+  for (const word of normalized.match(/[a-z0-9]+/g) || []) {
+    features.push(`w:${word}`);
+  }
+
+  for (const run of normalized.match(/[\u4e00-\u9fa5]+/g) || []) {
+    for (let n = 1; n <= 3; n++) {
+      for (let i = 0; i + n <= run.length; i++) {
+        features.push(`c${n}:${run.slice(i, i + n)}`);
+      }
+    }
+  }
+
+  return features;
+}
\ No newline at end of file
@@ -0,0 +1,152 @@
+/**
+ * 本地中英文分词与关键词提取
+ * 中文优先使用 Intl.Segmenter（ICU 词典分词），运行时不支持时退化为汉字二元组；
+ * 英文按单词切分并转为小写。两种语言都过滤停用词，不依赖任何网络服务。
+ */
+
+/**
+ * 中文停用词
+ */
+export const CHINESE_STOPWORDS = new Set([
+  '的', '了', '在', '是', '我', '有', '和', '就', '不', '人', '都', '一', '一个', '上', '也', '很', '到', '说', '要', '去',
+  '你', '会', '着', '没有', '看', '好', '自己', '这', '那', '什么', '可以', '这个', '那个', '他', '她', '它', '我们', '你们',
+  '他们', '她们', '它们', '这些', '那些', '怎么', '怎样', '为什么', '哪里', '什么时候', '如何', '多少', '哪个', '哪些', '吗',
+  '呢', '吧', '啊', '呀', '哦', '嗯', '与', '及', '或', '或者', '以及', '而', '而且', '并', '并且', '但', '但是', '因为',
+  '所以', '如果', '虽然', '然后', '还是', '还', '又', '再', '对', '对于', '关于', '把', '被', '让', '给', '从', '向', '以',
+  '为', '为了', '由', '由于', '其', '其中', '之', '之间', '等', '等等', '中', '里', '内', '之后', '之前', '时候', '已经',
+  '正在', '能', '能够', '应该', '需要', '请', '请问', '一下', '一些', '有些', '所有', '每个', '各', '该', '此', '这样',
+  '那样', '这么', '那么', '比较', '非常', '特别', '最', '更', '太', '只', '只是', '就是', '也是', '不是', '没', '得', '地',
+  '过', '来', '下', '出', '起', '个', '些', '种', '告诉', '介绍', '一般', '通过', '进行', '使用', '用', '有关', '相关'
+]);
+
+/**
+ * 英文停用词
+ */
+export const ENGLISH_STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'then', 'else', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'about',
+  'from', 'into', 'over', 'under', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'do', 'does', 'did',
+  'have', 'has', 'had', 'can', 'could', 'will', 'would', 'should', 'may', 'might', 'must', 'shall', 'not', 'no', 'yes',
+  'this', 'that', 'these', 'those', 'it', 'its', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'he', 'him', 'his', 'she',
+  'her', 'they', 'them', 'their', 'what', 'which', 'who', 'whom', 'whose', 'when', 'where', 'why', 'how', 'all', 'any',
+  'some', 'each', 'every', 'more', 'most', 'other', 'such', 'than', 'too', 'very', 'so', 'just', 'only', 'also', 'there',
+  'here', 'please', 'tell', 'explain', 'use', 'using', 'used', 'get', 'make', 'like', 'between', 'via', 'vs'
+]);
+
+/**
+ * Intl.Segmenter 的最小类型声明（tsconfig 的 lib 为 ES2020，不含该类型）
+ */
+interface WordSegmenter {
+  segment(input: string): Iterable<{ segment: string; isWordLike?: boolean }>;
+}
+
+type WordSegmenterConstructor = new (locale: string, options: { granularity: 'word' }) => WordSegmenter;
+
+const CJK_PATTERN = /[㐀-䶿一-鿿豈-﫿]/;
+
+let segmenter: WordSegmenter | null | undefined;
+
+/**
+ * 获取 ICU 分词器，运行时不支持（如 small-icu 构建）时返回 null
+ */
+function getSegmenter(): WordSegmenter | null {
+  if (segmenter === undefined) {
+    const Segmenter = (Intl as unknown as { Segmenter?: WordSegmenterConstructor }).Segmenter;
+    try {
+      segmenter = Segmenter ? new Segmenter('zh', { granularity: 'word' }) : null;
+    } catch {
+      segmenter = null;
+    }
+  }
+  return segmenter;
+}
+
+/**
+ * 无分词器时的退化方案：英文、数字按单词切分，连续汉字拆为二元组
+ */
+function segmentWithoutDictionary(text: string): string[] {
+  const words: string[] = [];
+
+  for (const token of text.match(/[㐀-䶿一-鿿豈-﫿]+|[A-Za-z0-9][A-Za-z0-9.+#_-]*/g) || []) {
+    if (!CJK_PATTERN.test(token)) {
+      words.push(token);
+    } else if (token.length === 1) {
+      words.push(token);
+    } else {
+      for (let i = 0; i < token.length - 1; i++) {
+        words.push(token.slice(i, i + 2));
+      }
+    }
+  }
+
+  return words;
+}
+
+/**
+ * 将文本切分为词（保留原始顺序，不去重、不过滤停用词）
+ * @param text 待分词文本
+ * @returns 词数组
+ */
+export function segmentWords(text: string): string[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  const icuSegmenter = getSegmenter();
+  if (!icuSegmenter) {
+    return segmentWithoutDictionary(text);
+  }
+
+  const words: string[] = [];
+  for (const { segment, isWordLike } of icuSegmenter.segment(text)) {
+    if (isWordLike) {
+      words.push(segment);
+    }
+  }
+  return words;
+}
+
+/**
+ * 判断分词结果是否可作为关键词
+ */
+function isKeywordCandidate(word: string): boolean {
+  if (CJK_PATTERN.test(word)) {
+    // 单个汉字区分度太低
+    return word.length >= 2 && !CHINESE_STOPWORDS.has(word);
+  }
+  if (word.length < 2 || ENGLISH_STOPWORDS.has(word)) return false;
+  // 过滤纯数字
+  return !/^\d+$/.test(word);
+}
+
+/**
+ * 本地关键词提取：分词 → 过滤停用词 → 按词频和词长排序
+ * @param text 待提取关键词的文本
+ * @param topK 返回关键词数量，默认8个
+ * @returns 关键词数组（英文统一为小写）
+ */
+export function extractKeywordsWithSegmenter(text: string, topK: number = 8): string[] {
+  const stats = new Map<string, { count: number; firstIndex: number }>();
+
+  segmentWords(text).forEach((word, index) => {
+    const normalized = word.toLowerCase();
+    if (!isKeywordCandidate(normalized)) return;
+
+    const existing = stats.get(normalized);
+    if (existing) {
+      existing.count++;
+    } else {
+      stats.set(normalized, { count: 1, firstIndex: index });
+    }
+  });
+
+  // 较长的词通常信息量更大；分数相同时保持在原文中的先后顺序
+  return Array.from(stats.entries())
+    .map(([word, { count, firstIndex }]) => ({
+      word,
+      score: count * (1 + Math.min(word.length, 6) / 6),
+      firstIndex
+    }))
+    .sort((a, b) => b.score - a.score || a.firstIndex - b.firstIndex)
+    .slice(0, topK)
+    .map(item => item.word);
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+import OpenAI from 'openai';
+import process from 'process';
+import type { EmbeddingProvider } from './embedding-provider.js';
+
+/**
+ * OpenAI 兼容嵌入服务
+ * 适用于 OpenAI、Azure 网关、vLLM、Ollama 等实现了 /embeddings 接口的服务
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxBatchSize: number;
+  private openai: OpenAI;
+  private sendDimensions: boolean;
+
+  constructor() {
+    const apiKey = process.env.EMBEDDING_API_KEY;
+    const baseURL = process.env.EMBEDDING_BASE_URL;
+
+    if (!apiKey) {
+      console.error('❌ EMBEDDING_API_KEY 环境变量未设置');
+      throw new Error('EMBEDDING_API_KEY 环境变量未设置');
+    }
+
+    this.model = process.env.EMBEDDING_MODEL || 'text-embedding-3-small';
+    this.dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '1024', 10);
+    this.maxBatchSize = parseInt(process.env.EMBEDDING_MAX_BATCH_SIZE || '64', 10);
+    // 部分兼容服务不支持 dimensions 参数，可通过 EMBEDDING_SEND_DIMENSIONS=false 关闭
+    this.sendDimensions = process.env.EMBEDDING_SEND_DIMENSIONS !== 'false';
+
+    this.openai = new OpenAI({
+      apiKey,
+      baseURL: baseURL || undefined
+    });
+
+    console.log('✅ OpenAI兼容嵌入服务初始化成功');
+    console.log('- 模型:', this.model);
+    console.log('- 向量维度:', this.dimensions);
+    console.log('- 服务地址:', baseURL || 'https://api.openai.com/v1');
+  }
+
+  /**
+   * 单次请求为多段文本生成向量
+   * @param texts 文本数组
+   * @param instruct 自定义指令（可选）
+   * @returns 与输入顺序一致的向量数组
+   */
+  async embedBatch(texts: string[], instruct?: string): Promise<number[][]> {
+    if (texts.length > this.maxBatchSize) {
+      throw new Error(`单次请求最多 ${this.maxBatchSize} 条文本，实际 ${texts.length} 条`);
+    }
+
+    const completion = await this.openai.embeddings.create(
+      {
+        model: this.model,
+        input: texts.map(text => (instruct ? `${instruct}\n${text}` : text)),
+        ...(this.sendDimensions ? { dimensions: this.dimensions } : {}),
+        encoding_format: 'float'
+      },
+      // 重试由调用方控制
+      { maxRetries: 0 }
+    );
+
+    if (!completion.data || completion.data.length !== texts.length) {
+      throw new Error(`嵌入服务返回数量不匹配，期望 ${texts.length}，实际 ${completion.data?.length || 0}`);
+    }
+
+    const embeddings = [...completion.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    for (const embedding of embeddings) {
+      if (!Array.isArray(embedding) || embedding.length !== this.dimensions) {
+        throw new Error(`向量维度不匹配，期望 ${this.dimensions}，实际 ${Array.isArray(embedding) ? embedding.length : '无效'}`);
+      }
+    }
+
+    return embeddings;
+  }
+}
\ No newline at end of file
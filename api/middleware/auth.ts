@@ -0,0 +1,133 @@
+/**
+ * 认证中间件 - 从 Authorization: Bearer 头解析 Supabase 用户
+ */
+import type { Request, Response, NextFunction } from 'express';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase.js';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /**
+       * 由 requireAuth 注入的当前登录用户
+       */
+      user?: User;
+    }
+  }
+}
+
+/**
+ * 判断请求中声明的用户ID是否与当前登录用户不一致
+ * @param req 请求对象
+ * @param claimedUserId 请求体、查询参数或路径中携带的用户ID
+ * @returns 声明了其他用户的ID时返回 true
+ */
+function claimsOtherUser(req: Request, claimedUserId: unknown): boolean {
+  if (claimedUserId === undefined || claimedUserId === null || claimedUserId === '') {
+    return false;
+  }
+  return claimedUserId !== req.user?.id;
+}
+
+/**
+ * 要求请求携带有效的 Supabase 访问令牌
+ * 验证通过后将用户注入 req.user；若请求体或查询参数中的 userId 与令牌用户不一致则拒绝
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({
+        success: false,
+        error: '未提供认证令牌'
+      });
+    }
+
+    const token = authHeader.slice('Bearer '.length).trim();
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+
+    if (error || !user) {
+      return res.status(401).json({
+        success: false,
+        error: '无效的认证令牌'
+      });
+    }
+
+    req.user = user;
+
+    if (claimsOtherUser(req, req.body?.userId) || claimsOtherUser(req, req.query.userId)) {
+      console.warn('⚠️ 拒绝访问其他用户的数据:', req.method, req.originalUrl);
+      return res.status(403).json({
+        success: false,
+        error: '无权访问其他用户的数据'
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('认证失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '服务器内部错误'
+    });
+  }
+}
+
+/**
+ * 拒绝与当前用户不一致的 userId
+ * 用于 multer 等在 requireAuth 之后才解析请求体的路由
+ */
+export function rejectMismatchedUserId(req: Request, res: Response, next: NextFunction) {
+  if (claimsOtherUser(req, req.body?.userId) || claimsOtherUser(req, req.params.userId)) {
+    console.warn('⚠️ 拒绝访问其他用户的数据:', req.method, req.originalUrl);
+    return res.status(403).json({
+      success: false,
+      error: '无权访问其他用户的数据'
+    });
+  }
+  next();
+}
+
+/**
+ * 路径参数 :userId 的校验处理器，配合 router.param('userId', ...) 使用
+ */
+export function rejectMismatchedUserParam(req: Request, res: Response, next: NextFunction, userId: string) {
+  if (claimsOtherUser(req, userId)) {
+    console.warn('⚠️ 拒绝访问其他用户的数据:', req.method, req.originalUrl);
+    return res.status(403).json({
+      success: false,
+      error: '无权访问其他用户的数据'
+    });
+  }
+  next();
+}
+
+/**
+ * 判断用户是否为管理员
+ * 管理员通过 Supabase app_metadata.role = 'admin'（仅服务端可写）或 ADMIN_USER_IDS 环境变量（逗号分隔）指定
+ */
+export function isAdmin(user: User): boolean {
+  if (user.app_metadata?.role === 'admin') {
+    return true;
+  }
+  const adminIds = (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+  return adminIds.includes(user.id);
+}
+
+/**
+ * 要求当前用户为管理员，需在 requireAuth 之后使用
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user || !isAdmin(req.user)) {
+    console.warn('⚠️ 拒绝非管理员访问:', req.method, req.originalUrl);
+    return res.status(403).json({
+      success: false,
+      error: '需要管理员权限'
+    });
+  }
+  next();
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+/**
+ * 管理路由 - 仅管理员可用的维护操作
+ */
+import express from 'express';
+import { requireAuth, requireAdmin } from '../middleware/auth.js';
+import { startReembedding, getReembeddingJob } from '../services/reembeddingService.js';
+
+const router = express.Router();
+
+router.use(requireAuth, requireAdmin);
+
+/**
+ * 为用户发起重新向量化（目标为当前配置的嵌入模型）
+ */
+router.post('/users/:targetUserId/reembed', async (req, res) => {
+  try {
+    const { targetUserId } = req.params;
+    const { job, created } = await startReembedding(targetUserId, req.user!.id);
+
+    res.status(202).json({
+      message: created ? '重新向量化任务已创建' : '已有进行中的重新向量化任务',
+      job
+    });
+
+  } catch (error) {
+    console.error('发起重新向量化失败:', error);
+    res.status(500).json({ error: '发起重新向量化失败' });
+  }
+});
+
+/**
+ * 获取重新向量化任务进度
+ */
+router.get('/reembed/:jobId', async (req, res) => {
+  try {
+    const job = await getReembeddingJob(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({ error: '任务不存在' });
+    }
+
+    res.json({ job });
+
+  } catch (error) {
+    console.error('获取重新向量化任务失败:', error);
+    res.status(500).json({ error: '获取重新向量化任务失败' });
+  }
+});
+
+export default router;
\ No newline at end of file
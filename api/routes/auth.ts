@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { supabase } from '../lib/supabase';
+import { requireAuth } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -110,33 +111,10 @@ router.post('/logout', async (req, res) => {
 /**
  * 获取当前用户信息
  */
-router.get('/me', async (req, res) => {
-  try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({ 
-        error: '未提供认证令牌' 
-      });
-    }
-    
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error } = await supabase.auth.getUser(token);
-    
-    if (error || !user) {
-      return res.status(401).json({ 
-        error: '无效的认证令牌' 
-      });
-    }
-    
-    res.json({ 
-      user 
-    });
-  } catch (error) {
-    console.error('获取用户信息错误:', error);
-    res.status(500).json({ 
-      error: '服务器内部错误' 
-    });
-  }
+router.get('/me', requireAuth, (req, res) => {
+  res.json({ 
+    user: req.user 
+  });
 });
 
 export default router;
\ No newline at end of file
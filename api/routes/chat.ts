@@ -1,9 +1,22 @@
 import { Router, Request, Response } from 'express';
-import { searchRelevantChunks } from '../services/searchService.js';
-import { chatCompletion, getAvailableModels, ChatMessage } from '../services/openrouterService';
+import { searchRelevantChunksForQueries, isRetrievalMode, getDefaultRetrievalMode, RetrievalMode } from '../services/searchService.js';
+import { isRerankModel, isRerankStrategy, RerankOptions } from '../services/rerankService.js';
+import { isFusionStrategy, FusionOptions } from '../services/fusionService.js';
+import { rewriteQuery, getRetrievalQueries, QueryRewriteOptions, RewrittenQuery } from '../services/queryRewriteService.js';
+import { requireAuth } from '../middleware/auth.js';
+import { parseSearchFilters, SearchFilters } from '../services/searchFilterService.js';
+import { getCategorySettings } from '../services/categoryService.js';
+import { Citation } from '../services/citationService.js';
+import { buildChatContext } from '../services/contextBuilderService.js';
+import { getDefaultNeighborChunks, MAX_NEIGHBOR_CHUNKS } from '../services/chunkExpansionService.js';
+import { ensureConversation, saveConversationTurn, RetrievedChunkRef, AnswerRetrievalInfo } from '../services/conversationService.js';
+import { chatCompletion, chatCompletionStream, getAvailableModels, getModelContextLength, ChatMessage, ChatCompletionResponse } from '../services/openrouterService';
 
 const router = Router();
 
+// 聊天接口需要登录，用户身份以令牌为准
+router.use(requireAuth);
+
 
 
 /**
@@ -13,26 +26,100 @@ interface ChatRequest {
   messages: ChatMessage[];
   model?: string;
   conversationId?: string;
-  userId: string;
+  /**
+   * 已废弃：用户身份取自认证令牌，若传入则必须与令牌用户一致
+   */
+  userId?: string;
   categoryId?: string;
+  stream?: boolean;
+  /**
+   * 检索结果重排序（不传时使用服务端默认策略）
+   */
+  rerank?: RerankOptions;
+  /**
+   * 向量与关键词结果的融合策略（不传时使用服务端默认策略）
+   */
+  fusion?: FusionOptions;
+  /**
+   * 检索前的查询改写（不传时使用服务端默认配置）
+   */
+  queryRewrite?: QueryRewriteOptions;
+  /**
+   * 检索模式：required 仅依据知识库回答，optional 无结果时使用通用知识，none 不检索（不传时使用服务端默认模式）
+   */
+  retrievalMode?: RetrievalMode;
+  /**
+   * 检索的文档块数量（1-20，默认 5）
+   */
+  topK?: number;
+  /**
+   * 生成温度（0-2，默认 0.7）
+   */
+  temperature?: number;
+  /**
+   * 回答的最大 token 数（不超过模型上下文窗口的一半，默认 2000）
+   */
+  maxTokens?: number;
+  /**
+   * 每个命中块前后各扩展的相邻文档块数量（0-5，不传时使用服务端默认配置）
+   */
+  neighbors?: number;
+  /**
+   * 检索的元数据过滤：文档ID允许/排除列表、文件类型、多个分类、标签、创建时间范围、页码范围
+   */
+  filters?: SearchFilters;
 }
 
+/**
+ * 未指定模型且分类没有默认模型时使用的模型
+ */
+const DEFAULT_MODEL = 'openai/gpt-4o';
 
+/**
+ * 生成参数的默认值与取值范围
+ */
+const DEFAULT_TOP_K = 5;
+const MAX_TOP_K = 20;
+const DEFAULT_TEMPERATURE = 0.7;
+const MAX_TEMPERATURE = 2;
+const DEFAULT_MAX_TOKENS = 2000;
 
+/**
+ * 校验可选的数值参数
+ * @returns 未传入时返回默认值，传入非数字时返回 null，否则限制在 [min, max] 内
+ */
+function resolveNumberParam(value: unknown, fallback: number, min: number, max: number): number | null {
+  if (value === undefined || value === null) return Math.min(fallback, max);
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  return Math.max(min, Math.min(value, max));
+}
 
+/**
+ * required 模式下未检索到内容时的固定回答
+ */
+const NO_CONTEXT_ANSWER = '您的知识库中没有找到与该问题相关的内容，因此无法基于知识库回答。请尝试换一种问法，或先上传相关文档。';
 
+/**
+ * 设置SSE响应头并立即发送
+ */
+function startSSE(res: Response) {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // 禁用反向代理缓冲
+  res.flushHeaders();
+}
 
-
-
-
-
-
-
-
-
-
-
-
+/**
+ * 向客户端写入一条SSE事件
+ * @param res Express响应对象
+ * @param event 事件名称
+ * @param data 事件数据（序列化为JSON）
+ */
+function writeSSE(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
 /**
  * 使用Openrouter进行RAG聊天对话
@@ -42,12 +129,20 @@ router.post('/completions', async (req: Request, res: Response) => {
   console.log('请求时间:', new Date().toISOString());
   
   try {
-    const { messages, model = 'openai/gpt-4o', conversationId, userId, categoryId }: ChatRequest = req.body;
+    const { messages, model: requestedModel, conversationId, categoryId, stream = false, rerank, fusion, queryRewrite, retrievalMode, topK, temperature, maxTokens, neighbors, filters }: ChatRequest = req.body;
+    const userId = req.user!.id;
     
     console.log('请求参数:');
-    console.log('- model:', model);
+    console.log('- model:', requestedModel || '默认');
+    console.log('- stream:', stream);
     console.log('- userId:', userId);
     console.log('- categoryId:', categoryId);
+    console.log('- rerank:', rerank?.strategy || '默认');
+    console.log('- fusion:', fusion?.strategy || '默认');
+    console.log('- retrievalMode:', retrievalMode || '默认');
+    console.log('- topK / temperature / maxTokens:', topK ?? '默认', temperature ?? '默认', maxTokens ?? '默认');
+    console.log('- neighbors:', neighbors ?? '默认');
+    console.log('- filters:', filters ? JSON.stringify(filters) : '无');
 
     console.log('- messages数量:', messages?.length || 0);
     
@@ -58,15 +153,72 @@ router.post('/completions', async (req: Request, res: Response) => {
         error: '消息不能为空' 
       });
     }
-    
-    if (!userId) {
-      console.log('❌ 错误: 缺少用户ID');
-      return res.status(400).json({ 
+
+    if (rerank?.strategy !== undefined && !isRerankStrategy(rerank.strategy)) {
+      return res.status(400).json({
         success: false,
-        error: '缺少用户ID' 
+        error: '不支持的重排序策略'
       });
     }
-    
+
+    if (rerank?.model !== undefined && !isRerankModel(rerank.model)) {
+      return res.status(400).json({
+        success: false,
+        error: '不支持的重排序模型'
+      });
+    }
+
+    if (fusion?.strategy !== undefined && !isFusionStrategy(fusion.strategy)) {
+      return res.status(400).json({
+        success: false,
+        error: '不支持的融合策略'
+      });
+    }
+
+    if (retrievalMode !== undefined && !isRetrievalMode(retrievalMode)) {
+      return res.status(400).json({
+        success: false,
+        error: '不支持的检索模式'
+      });
+    }
+    const mode = retrievalMode || getDefaultRetrievalMode();
+
+    const searchFilters = parseSearchFilters(filters);
+    if (!searchFilters) {
+      return res.status(400).json({
+        success: false,
+        error: '无效的检索过滤条件'
+      });
+    }
+
+    // 分类设置（含上级分类）：未指定模型时使用分类的默认模型，分类的系统提示词附加到提示词前
+    const categorySettings = categoryId ? await getCategorySettings(userId, categoryId) : null;
+    if (categoryId && !categorySettings) {
+      return res.status(404).json({
+        success: false,
+        error: '分类不存在或无权限'
+      });
+    }
+    const model = requestedModel || categorySettings?.defaultModel || DEFAULT_MODEL;
+    const withCategoryPrompt = (prompt: string) =>
+      categorySettings?.systemPrompt ? `${categorySettings.systemPrompt}\n\n${prompt}` : prompt;
+
+    const resolvedTopK = resolveNumberParam(topK, DEFAULT_TOP_K, 1, MAX_TOP_K);
+    const resolvedTemperature = resolveNumberParam(temperature, DEFAULT_TEMPERATURE, 0, MAX_TEMPERATURE);
+    // 回答最多占用上下文窗口的一半，其余留给提示词
+    const resolvedMaxTokens = resolveNumberParam(maxTokens, DEFAULT_MAX_TOKENS, 1, Math.floor(getModelContextLength(model) / 2));
+    const resolvedNeighbors = resolveNumberParam(neighbors, getDefaultNeighborChunks(), 0, MAX_NEIGHBOR_CHUNKS);
+    if (resolvedTopK === null || resolvedTemperature === null || resolvedMaxTokens === null || resolvedNeighbors === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'topK、temperature、maxTokens 和 neighbors 必须是数字'
+      });
+    }
+    const generation = {
+      temperature: resolvedTemperature,
+      max_tokens: Math.floor(resolvedMaxTokens)
+    };
+
     // 获取最后一条用户消息作为查询
     const lastUserMessage = messages.filter(msg => msg.role === 'user').pop();
     if (!lastUserMessage) {
@@ -84,52 +236,110 @@ router.post('/completions', async (req: Request, res: Response) => {
     console.log('- content内容:', lastUserMessage.content);
     console.log('- content字符编码:', lastUserMessage.content.split('').map(char => char.charCodeAt(0)));
     
-    // 搜索相关文档块
-    const relevantChunks = await searchRelevantChunks(lastUserMessage.content, userId, 5, categoryId);
+    // 结合对话历史改写查询，再按改写后的查询搜索相关文档块（none 模式不检索）
+    let retrievalQueries: RewrittenQuery | null = null;
+    let relevantChunks: Awaited<ReturnType<typeof searchRelevantChunksForQueries>> = [];
+    if (mode !== 'none') {
+      retrievalQueries = await rewriteQuery(messages, queryRewrite);
+      relevantChunks = await searchRelevantChunksForQueries(getRetrievalQueries(retrievalQueries), userId, Math.floor(resolvedTopK), categoryId, { rerank, fusion, neighbors: Math.floor(resolvedNeighbors), filters: searchFilters }) || [];
+    }
+    const grounded = relevantChunks.length > 0;
+    console.log(`🧭 检索模式: ${mode}，${grounded ? `使用 ${relevantChunks.length} 个文档块` : '无知识库上下文'}`);
     
-    if (!relevantChunks || relevantChunks.length === 0) {
+    // 确保对话存在（未传入对话ID时以当前问题创建新对话）
+    const resolvedConversationId = await ensureConversation(userId, conversationId, lastUserMessage.content);
+    if (!resolvedConversationId) {
       return res.status(404).json({
-        error: 'No relevant documents found',
-        message: '未找到相关文档，请尝试其他问题或上传相关文档'
+        success: false,
+        error: '对话不存在或无权限'
       });
     }
     
-    // 构建上下文
-    let contextText = '';
-    const sources: string[] = [];
+    const answerInfo: AnswerRetrievalInfo = { retrievalMode: mode, grounded };
+    
+    // 仅依据知识库回答但没有检索到内容：直接给出明确答复，不调用模型
+    if (mode === 'required' && !grounded) {
+      await persistTurn(resolvedConversationId, lastUserMessage.content, NO_CONTEXT_ANSWER, [], answerInfo);
+      
+      if (stream) {
+        startSSE(res);
+        writeSSE(res, 'sources', { sources: [], citations: [], conversationId: resolvedConversationId, retrievalQueries, ...answerInfo });
+        writeSSE(res, 'delta', { content: NO_CONTEXT_ANSWER });
+        writeSSE(res, 'done', { model: null, conversationId: resolvedConversationId, sources: [], length: NO_CONTEXT_ANSWER.length });
+        res.end();
+        return;
+      }
+      
+      return res.json({
+        success: true,
+        data: {
+          message: NO_CONTEXT_ANSWER,
+          model: null,
+          conversationId: resolvedConversationId,
+          sources: [],
+          citations: [],
+          retrievalQueries,
+          ...answerInfo
+        }
+      });
+    }
     
+    // 按模型上下文窗口构建带编号的上下文，编号与返回的 citations 一一对应
     console.log('📚 构建RAG上下文...');
-    contextText = relevantChunks.map((chunk: any) => {
-      sources.push(chunk.documents.title);
-      return `文档《${chunk.documents.title}》中的内容：\n${chunk.content}`;
-    }).join('\n\n');
+    const citationRule = '引用某段内容时，在对应句子末尾用方括号标注该段编号，例如 [1] 或 [2][3]；只能使用上面出现过的编号，不要编造编号。';
+    const buildPrompt = (contextText: string) => {
+      if (grounded && mode === 'required') {
+        return `你是一个知识库问答助手，只能根据以下提供的文档内容回答用户的问题，不要使用文档以外的知识。如果文档中没有相关信息，请明确说明“知识库中没有相关内容”。\n\n相关文档内容（每段以编号 [n] 开头）：\n${contextText}\n\n${citationRule}`;
+      }
+      if (grounded) {
+        return `你是一个智能助手，请基于以下提供的文档内容来回答用户的问题。如果文档中没有相关信息，请明确说明。\n\n相关文档内容（每段以编号 [n] 开头）：\n${contextText}\n\n请根据上述文档内容回答用户的问题。${citationRule}`;
+      }
+      if (mode === 'optional') {
+        return '你是一个智能助手。用户的知识库中没有找到与该问题相关的内容，请先简要说明这一点，再基于你的通用知识友好地回答用户的问题。';
+      }
+      return '你是一个智能助手，请友好地回答用户的问题。';
+    };
+    const context = buildChatContext({
+      model,
+      chunks: relevantChunks,
+      messages,
+      maxTokens: generation.max_tokens,
+      buildSystemPrompt: (contextText) => withCategoryPrompt(buildPrompt(contextText))
+    });
+    const { citations } = context;
+    const sources = citations.map(citation => citation.title);
     
-    console.log('- 上下文长度:', contextText.length);
     console.log('- 来源文档:', sources);
     
-    // 构建系统提示词
-    const systemPrompt = contextText 
-      ? `你是一个智能助手，请基于以下提供的文档内容来回答用户的问题。如果文档中没有相关信息，请明确说明。\n\n相关文档内容：\n${contextText}\n\n请根据上述文档内容回答用户的问题，并在回答中引用具体的文档来源。`
-      : '你是一个智能助手，请友好地回答用户的问题。';
+    // 合并为同一段的文档块（含扩展的相邻块）共用一个引用编号
+    const usedChunks: RetrievedChunkRef[] = context.passages.flatMap((passage, i) =>
+      passage.chunks.flatMap(chunk => chunk.chunk_ids.map(id => ({ ...chunk, id, citation_index: i + 1 }))));
     
-
-    
-    // 构建完整的消息数组
-    const fullMessages: ChatMessage[] = [
-      { role: 'system', content: systemPrompt },
-      ...messages
-    ];
+    const uniqueSources = [...new Set(sources)]; // 去重的来源列表
     
-
+    // 流式模式：先推送来源，再逐个推送增量，最后推送汇总
+    if (stream) {
+      await streamCompletion(res, {
+        model,
+        messages: context.messages,
+        generation,
+        conversationId: resolvedConversationId,
+        sources: uniqueSources,
+        citations,
+        retrievalQueries,
+        answerInfo,
+        onFinish: (answer) => persistTurn(resolvedConversationId, lastUserMessage.content, answer, usedChunks, answerInfo)
+      });
+      return;
+    }
     
     // 调用OpenRouter服务
-    let data;
+    let data: ChatCompletionResponse;
     try {
       data = await chatCompletion({
         model: model,
-        messages: fullMessages,
-        temperature: 0.7,
-        max_tokens: 2000,
+        messages: context.messages,
+        ...generation
       });
     } catch (error) {
       console.error('❌ OpenRouter服务调用失败:', error);
@@ -140,15 +350,22 @@ router.post('/completions', async (req: Request, res: Response) => {
       });
     }
     
+    const answer = data.choices[0]?.message?.content || '';
+    await persistTurn(resolvedConversationId, lastUserMessage.content, answer, usedChunks, answerInfo);
+    
     // 返回响应
     res.json({
       success: true,
       data: {
-        message: data.choices[0]?.message?.content || '',
+        message: answer,
         model: data.model,
         usage: data.usage,
-        conversationId: conversationId,
-        sources: [...new Set(sources)] // 去重的来源列表
+        contextUsage: context.usage,
+        conversationId: resolvedConversationId,
+        sources: uniqueSources,
+        citations,
+        retrievalQueries,
+        ...answerInfo
       }
     });
     
@@ -162,6 +379,103 @@ router.post('/completions', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * 持久化一轮问答，失败时只记录日志，不影响回答返回
+ */
+async function persistTurn(conversationId: string, question: string, answer: string, chunks: RetrievedChunkRef[], answerInfo: AnswerRetrievalInfo) {
+  try {
+    await saveConversationTurn(conversationId, question, answer, chunks, answerInfo);
+  } catch (error) {
+    console.error('❌ 保存对话失败:', error);
+  }
+}
+
+/**
+ * 以SSE方式将OpenRouter的流式输出转发给客户端
+ * 事件顺序：sources（含 citations 与改写后的检索查询）→ delta（多次）→ done；出错时发送 error
+ * 客户端断开连接时中止上游请求，已生成的部分仍交给 onFinish 保存
+ */
+async function streamCompletion(
+  res: Response,
+  options: {
+    model: string;
+    messages: ChatMessage[];
+    generation: { temperature: number; max_tokens: number };
+    conversationId: string;
+    sources: string[];
+    citations: Citation[];
+    retrievalQueries: RewrittenQuery | null;
+    answerInfo: AnswerRetrievalInfo;
+    onFinish?: (content: string) => Promise<void>;
+  }
+) {
+  const { model, messages, generation, conversationId, sources, citations, retrievalQueries, answerInfo, onFinish } = options;
+  
+  startSSE(res);
+  
+  // 客户端点击停止或关闭页面时，中止上游请求
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log('⏹️ 客户端断开连接，中止上游请求');
+      abortController.abort();
+    }
+  });
+  
+  writeSSE(res, 'sources', { sources, citations, conversationId, retrievalQueries, ...answerInfo });
+  
+  let content = '';
+  let usage: ChatCompletionResponse['usage'];
+  let responseModel = model;
+  
+  try {
+    for await (const chunk of chatCompletionStream({
+      model,
+      messages,
+      ...generation
+    }, abortController.signal)) {
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        writeSSE(res, 'delta', { content: delta });
+      }
+      if (chunk.model) {
+        responseModel = chunk.model;
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+    
+    if (content && onFinish) {
+      await onFinish(content);
+    }
+    
+    writeSSE(res, 'done', {
+      model: responseModel,
+      usage,
+      conversationId,
+      sources,
+      length: content.length
+    });
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      console.log('⏹️ 流式响应已中止，已生成长度:', content.length);
+      if (content && onFinish) {
+        await onFinish(content);
+      }
+      return;
+    }
+    console.error('❌ OpenRouter流式调用失败:', error);
+    writeSSE(res, 'error', {
+      error: 'OpenRouter API调用失败',
+      details: error instanceof Error ? error.message : '未知错误'
+    });
+  } finally {
+    res.end();
+  }
+}
+
 /**
  * 获取可用模型列表
  */
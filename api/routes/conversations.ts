@@ -0,0 +1,282 @@
+/**
+ * 对话路由 - 处理对话的创建、查询、重命名、删除及消息加载
+ */
+import express from 'express';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { requireAuth, rejectMismatchedUserParam } from '../middleware/auth.js';
+import { parseChunkMetadata, Citation } from '../services/citationService.js';
+import { joinAdjacentContent } from '../services/contextBuilderService.js';
+
+const router = express.Router();
+
+// 所有对话接口都需要登录，用户身份以令牌为准
+router.use(requireAuth);
+router.param('userId', rejectMismatchedUserParam);
+
+/**
+ * 消息来源查询结果（多对一关联在运行时返回对象而非数组）
+ */
+interface MessageSourceRow {
+  chunk_id: string;
+  similarity_score: number;
+  citation_index: number | null;
+  document_chunks: {
+    document_id: string;
+    chunk_index: number;
+    content: string;
+    metadata: unknown;
+    documents: { title: string } | null;
+  } | null;
+}
+
+/**
+ * 将消息来源还原为引用列表
+ * 回答时合并为同一段的相邻文档块（含扩展的相邻块）共用一个引用编号，这里按 chunk_index 重新拼接
+ */
+function toCitations(sources: MessageSourceRow[]): Citation[] {
+  const citations = new Map<number, Citation>();
+
+  sources
+    .filter(source => source.document_chunks)
+    .map((source, i) => ({ source, chunk: source.document_chunks!, index: source.citation_index ?? i + 1 }))
+    .sort((a, b) => a.index - b.index || a.chunk.chunk_index - b.chunk.chunk_index)
+    .forEach(({ source, chunk, index }) => {
+      const existing = citations.get(index);
+      if (existing) {
+        existing.content = joinAdjacentContent(existing.content, chunk.content);
+        existing.score = Math.max(existing.score, source.similarity_score);
+        existing.chunk_index_end = chunk.chunk_index;
+        return;
+      }
+
+      const metadata = parseChunkMetadata(chunk.metadata);
+      citations.set(index, {
+        index,
+        document_id: chunk.document_id,
+        title: chunk.documents?.title || '未知文档',
+        chunk_id: source.chunk_id,
+        chunk_index: chunk.chunk_index,
+        chunk_index_end: chunk.chunk_index,
+        page_number: metadata.page_number ?? null,
+        section: metadata.section ?? null,
+        score: source.similarity_score,
+        hybrid_score: null,
+        rerank_score: null,
+        content: chunk.content
+      });
+    });
+
+  return Array.from(citations.values());
+}
+
+/**
+ * 获取用户对话列表
+ */
+router.get('/list/:userId', async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const { data: conversations, error } = await supabaseAdmin
+      .from('conversations')
+      .select('id, title, created_at, updated_at, messages(count)')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('获取对话列表失败:', error);
+      return res.status(500).json({ error: '获取对话列表失败' });
+    }
+
+    res.json({
+      conversations: (conversations || []).map(conversation => ({
+        id: conversation.id,
+        title: conversation.title,
+        created_at: conversation.created_at,
+        updated_at: conversation.updated_at,
+        message_count: conversation.messages?.[0]?.count || 0
+      }))
+    });
+
+  } catch (error) {
+    console.error('获取对话列表失败:', error);
+    res.status(500).json({ error: '获取对话列表失败' });
+  }
+});
+
+/**
+ * 创建新对话
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { title } = req.body;
+    const userId = req.user!.id;
+
+    const { data: conversation, error } = await supabaseAdmin
+      .from('conversations')
+      .insert({
+        title: title?.trim() || '新对话',
+        user_id: userId
+      })
+      .select('id, title, created_at, updated_at')
+      .single();
+
+    if (error) {
+      console.error('创建对话失败:', error);
+      return res.status(500).json({ error: '创建对话失败' });
+    }
+
+    res.json({
+      message: '对话创建成功',
+      conversation: { ...conversation, message_count: 0 }
+    });
+
+  } catch (error) {
+    console.error('创建对话失败:', error);
+    res.status(500).json({ error: '创建对话失败' });
+  }
+});
+
+/**
+ * 重命名对话
+ */
+router.patch('/:conversationId', async (req, res) => {
+  try {
+    const { conversationId } = req.params;
+    const { title } = req.body;
+    const userId = req.user!.id;
+
+    if (!title?.trim()) {
+      return res.status(400).json({ error: '缺少必要参数' });
+    }
+
+    const { data: conversation, error } = await supabaseAdmin
+      .from('conversations')
+      .update({ title: title.trim() })
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .select('id, title, created_at, updated_at')
+      .single();
+
+    if (error || !conversation) {
+      return res.status(404).json({ error: '对话不存在或无权限' });
+    }
+
+    res.json({
+      message: '对话重命名成功',
+      conversation
+    });
+
+  } catch (error) {
+    console.error('重命名对话失败:', error);
+    res.status(500).json({ error: '重命名对话失败' });
+  }
+});
+
+/**
+ * 删除对话（消息及消息来源随外键级联删除）
+ */
+router.delete('/:conversationId', async (req, res) => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user!.id;
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('conversations')
+      .delete()
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('删除对话失败:', error);
+      return res.status(500).json({ error: '删除对话失败' });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return res.status(404).json({ error: '对话不存在或无权限' });
+    }
+
+    res.json({ message: '对话删除成功' });
+
+  } catch (error) {
+    console.error('删除对话失败:', error);
+    res.status(500).json({ error: '删除对话失败' });
+  }
+});
+
+/**
+ * 获取对话消息列表
+ */
+router.get('/:conversationId/messages', async (req, res) => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user!.id;
+
+    // 验证对话所有权
+    const { data: conversation, error: conversationError } = await supabaseAdmin
+      .from('conversations')
+      .select('id, title')
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .single();
+
+    if (conversationError || !conversation) {
+      return res.status(404).json({ error: '对话不存在或无权限' });
+    }
+
+    const { data: messages, error } = await supabaseAdmin
+      .from('messages')
+      .select(`
+        id,
+        question,
+        answer,
+        role,
+        retrieval_mode,
+        grounded,
+        created_at,
+        message_sources(
+          chunk_id,
+          similarity_score,
+          citation_index,
+          document_chunks(
+            document_id,
+            chunk_index,
+            content,
+            metadata,
+            documents(title)
+          )
+        )
+      `)
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('获取对话消息失败:', error);
+      return res.status(500).json({ error: '获取对话消息失败' });
+    }
+
+    res.json({
+      conversation,
+      messages: (messages || []).map(message => {
+        const citations = toCitations((message.message_sources || []) as unknown as MessageSourceRow[]);
+        return {
+          id: message.id,
+          role: message.role,
+          // 用户消息保存在 question，助手消息保存在 answer
+          content: message.role === 'user' ? message.question : message.answer,
+          created_at: message.created_at,
+          retrievalMode: message.retrieval_mode,
+          grounded: message.grounded,
+          sources: [...new Set(citations.map(citation => citation.title))],
+          citations
+        };
+      })
+    });
+
+  } catch (error) {
+    console.error('获取对话消息失败:', error);
+    res.status(500).json({ error: '获取对话消息失败' });
+  }
+});
+
+export default router;
\ No newline at end of file
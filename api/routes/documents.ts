@@ -4,11 +4,23 @@
 import express from 'express';
 import multer from 'multer';
 import { supabaseAdmin } from '../lib/supabase.js';
-import { extractFileContentAndChunks, processTextDocument, ChunkData } from '../services/documentProcessingService.js';
-import { generateQueryEmbedding } from '../services/embeddingService.js';
+import { enqueueIngestion, getIngestionJob } from '../services/ingestionQueue.js';
+import { detectDocumentFormat } from '../services/documentParserService.js';
+import { isChunkingStrategy, ChunkingOptions, MIN_CHUNK_SIZE, MAX_CHUNK_SIZE } from '../services/chunkingService.js';
+import { getFileStorage, SIGNED_URL_EXPIRES_IN } from '../services/fileStorageService.js';
+import { extractFileChunks, normalizeChunks, chunkTextDocument, ChunkData } from '../services/documentProcessingService.js';
+import { listDocumentVersions, getDocumentVersion, diffVersionContent, activateDocumentVersion } from '../services/documentVersionService.js';
+import { normalizeTags, listUserTags, setDocumentTags, findDocumentIdsByTags, MAX_TAGS_PER_DOCUMENT, MAX_TAG_LENGTH } from '../services/tagService.js';
+import { loadUserCategories, getCategorySubtree, isAccessibleCategory, isCategoryInSubtree, MAX_CATEGORY_PROMPT_LENGTH, MAX_MODEL_NAME_LENGTH } from '../services/categoryService.js';
+import { computeContentHash, findDuplicateDocuments, findDuplicateGroups, refreshDocumentSimilarities, isDuplicateAction, DuplicateDocument } from '../services/duplicateDetectionService.js';
+import { requireAuth, rejectMismatchedUserId, rejectMismatchedUserParam } from '../middleware/auth.js';
 
 const router = express.Router();
 
+// 所有文档与分类接口都需要登录，用户身份以令牌为准
+router.use(requireAuth);
+router.param('userId', rejectMismatchedUserParam);
+
 // 配置multer用于文件上传
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -35,10 +47,19 @@ const upload = multer({
       'application/pdf',
       'text/plain',
       'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/markdown',
+      'text/x-markdown',
+      'text/html',
+      'text/csv',
+      'application/vnd.ms-excel', // Windows 下 .csv 的 MIME 类型
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/json',
+      'application/octet-stream' // 浏览器无法识别扩展名（如 .md）时的类型，按扩展名判断
     ];
     
-    if (allowedTypes.includes(file.mimetype)) {
+    // MIME 类型在列表中且扩展名或类型对应可解析的格式（排除 .xls 等同类型的其他文件）
+    if (allowedTypes.includes(file.mimetype) && detectDocumentFormat(file)) {
       cb(null, true);
     } else {
       cb(new Error('不支持的文件类型'));
@@ -51,16 +72,167 @@ const upload = multer({
 
 
 /**
- * 上传文档
+ * 解析请求中的分块选项（multipart 表单中的数字为字符串，空值表示不指定）
+ * @returns 分块选项，参数无效时返回 null
+ */
+function parseChunkingOptions(body: Record<string, unknown>): ChunkingOptions | null {
+  const { chunkingStrategy, chunkSize, chunkOverlap } = body;
+  const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+  const toNumber = (value: unknown) => (isEmpty(value) ? undefined : Number(value));
+
+  if (!isEmpty(chunkingStrategy) && !isChunkingStrategy(chunkingStrategy)) {
+    return null;
+  }
+
+  const options: ChunkingOptions = {
+    strategy: isEmpty(chunkingStrategy) ? undefined : chunkingStrategy as ChunkingOptions['strategy'],
+    chunkSize: toNumber(chunkSize),
+    chunkOverlap: toNumber(chunkOverlap)
+  };
+
+  if (options.chunkSize !== undefined && !(Number.isInteger(options.chunkSize) && options.chunkSize >= MIN_CHUNK_SIZE && options.chunkSize <= MAX_CHUNK_SIZE)) {
+    return null;
+  }
+  if (options.chunkOverlap !== undefined && !(Number.isInteger(options.chunkOverlap) && options.chunkOverlap >= 0)) {
+    return null;
+  }
+  return options;
+}
+
+/**
+ * 分块参数无效时的错误信息
+ */
+const INVALID_CHUNKING_ERROR = `无效的分块参数：chunkingStrategy 只能是 recursive、sentence、heading、token，chunkSize 为 ${MIN_CHUNK_SIZE}-${MAX_CHUNK_SIZE} 的整数，chunkOverlap 为非负整数`;
+
+/**
+ * 解析请求中的分类默认问答设置（systemPrompt、defaultModel），空值表示沿用上级分类
+ * @returns 只包含请求中出现的字段，参数无效时返回 null
+ */
+function parseCategoryDefaults(body: Record<string, unknown>): { system_prompt?: string | null; default_model?: string | null } | null {
+  const defaults: { system_prompt?: string | null; default_model?: string | null } = {};
+  const fields = [
+    ['systemPrompt', 'system_prompt', MAX_CATEGORY_PROMPT_LENGTH],
+    ['defaultModel', 'default_model', MAX_MODEL_NAME_LENGTH]
+  ] as const;
+
+  for (const [key, column, maxLength] of fields) {
+    if (!(key in body)) continue;
+    const value = body[key];
+    if (value !== null && typeof value !== 'string') {
+      return null;
+    }
+    const trimmed = (value as string | null)?.trim() || null;
+    if (trimmed && trimmed.length > maxLength) {
+      return null;
+    }
+    defaults[column] = trimmed;
+  }
+  return defaults;
+}
+
+/**
+ * 分类默认问答设置无效时的错误信息
+ */
+const INVALID_CATEGORY_DEFAULTS_ERROR = `无效的分类设置：systemPrompt 最多 ${MAX_CATEGORY_PROMPT_LENGTH} 个字符，defaultModel 最多 ${MAX_MODEL_NAME_LENGTH} 个字符`;
+
+/**
+ * 重复检测结果：conflict 表示发现重复且未指定处理方式
+ */
+type DuplicateCheckResult =
+  | { status: 'ok'; replaceDocumentId: string | null; replaceCategoryId: string | null }
+  | { status: 'conflict'; duplicates: DuplicateDocument[] }
+  | { status: 'notFound' };
+
+/**
+ * 检测重复文档并确定处理方式
+ * - onDuplicate=keepBoth：不检测，作为新文档导入
+ * - onDuplicate=replace：作为 replaceDocumentId 指定文档的新版本导入，未指定时使用最相似的重复文档
+ * - 未指定：发现重复时返回 conflict
+ * @param loadChunkTexts 获取新内容的分块文本（用于相似度检测）
+ */
+async function checkDuplicates(
+  userId: string,
+  body: Record<string, unknown>,
+  contentHash: string,
+  loadChunkTexts: () => Promise<string[]>
+): Promise<DuplicateCheckResult> {
+  const { onDuplicate, replaceDocumentId } = body;
+
+  if (onDuplicate === 'keepBoth') {
+    return { status: 'ok', replaceDocumentId: null, replaceCategoryId: null };
+  }
+
+  if (onDuplicate === 'replace' && typeof replaceDocumentId === 'string' && replaceDocumentId) {
+    const { data: document } = await supabaseAdmin
+      .from('documents')
+      .select('id, category_id')
+      .eq('id', replaceDocumentId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return document
+      ? { status: 'ok', replaceDocumentId: document.id, replaceCategoryId: document.category_id }
+      : { status: 'notFound' };
+  }
+
+  const duplicates = await findDuplicateDocuments(userId, contentHash, loadChunkTexts);
+  if (duplicates.length === 0) {
+    return { status: 'ok', replaceDocumentId: null, replaceCategoryId: null };
+  }
+
+  if (onDuplicate === 'replace') {
+    const { data: document } = await supabaseAdmin
+      .from('documents')
+      .select('category_id')
+      .eq('id', duplicates[0].id)
+      .single();
+    return { status: 'ok', replaceDocumentId: duplicates[0].id, replaceCategoryId: document?.category_id ?? null };
+  }
+
+  return { status: 'conflict', duplicates };
+}
+
+/**
+ * 发现重复时的响应：返回命中的文档，客户端可用 onDuplicate=replace / keepBoth 重新提交
+ */
+function sendDuplicateConflict(res: express.Response, duplicates: DuplicateDocument[]) {
+  const [first] = duplicates;
+  return res.status(409).json({
+    error: first.matchType === 'exact'
+      ? `文档与已有文档《${first.title}》内容完全相同`
+      : `文档与已有文档《${first.title}》内容高度相似`,
+    duplicates,
+    options: ['replace', 'keepBoth']
+  });
+}
+
+/**
+ * 重复处理参数无效时的错误信息
+ */
+const INVALID_DUPLICATE_ACTION_ERROR = '无效的重复处理方式：onDuplicate 只能是 replace 或 keepBoth';
+
+/**
+ * 标签参数无效时的错误信息
+ */
+const INVALID_TAGS_ERROR = `无效的标签：tags 为字符串数组，最多 ${MAX_TAGS_PER_DOCUMENT} 个，每个不超过 ${MAX_TAG_LENGTH} 个字符`;
+
+/**
+ * 将查询结果中关联的标签展开为标签名称数组
+ */
+function withTagNames<T extends { tags?: { name: string }[] | null }>(document: T): Omit<T, 'tags'> & { tags: string[] } {
+  return { ...document, tags: (document.tags || []).map(tag => tag.name) };
+}
+
+/**
+ * 上传文档 - 创建导入任务，由后台工作者完成提取、分块和向量生成
  */
-router.post('/upload', upload.single('file'), async (req, res) => {
-  const startTime = Date.now();
+router.post('/upload', upload.single('file'), rejectMismatchedUserId, async (req, res) => {
   console.log('=== 文档上传请求开始 ===');
   console.log('请求时间:', new Date().toISOString());
-  console.log('请求头:', JSON.stringify(req.headers, null, 2));
   
   try {
-    const { title, userId, categoryId } = req.body;
+    const { title, categoryId } = req.body;
+    const userId = req.user!.id;
     const file = req.file;
     
     console.log('请求参数:');
@@ -74,7 +246,6 @@ router.post('/upload', upload.single('file'), async (req, res) => {
       console.log('- 原始文件名:', file.originalname);
       console.log('- MIME类型:', file.mimetype);
       console.log('- 文件大小:', file.size, 'bytes');
-      console.log('- 缓冲区长度:', file.buffer?.length || 0);
     }
     
     if (!file) {
@@ -82,129 +253,68 @@ router.post('/upload', upload.single('file'), async (req, res) => {
       return res.status(400).json({ error: '请选择文件' });
     }
     
-    if (!title || !userId) {
+    if (!title) {
       console.log('❌ 错误: 缺少必要参数');
       console.log('- title缺失:', !title);
-      console.log('- userId缺失:', !userId);
       return res.status(400).json({ error: '缺少必要参数' });
     }
     
-    console.log('✅ 参数验证通过，开始提取文件内容并分块...');
-    
-    // 提取文件内容并分块
-    const chunks = await extractFileContentAndChunks(file);
-    console.log('✅ 文件内容提取和分块成功');
-    console.log('- 分块数量:', chunks.length);
-    console.log('- 平均分块长度:', Math.round(chunks.reduce((sum, chunk) => sum + chunk.text.length, 0) / chunks.length));
-    
-    // 合并所有分块文本作为文档内容
-    const content = chunks.map(chunk => chunk.text).join('\n\n');
-    console.log('- 总内容长度:', content.length, '字符');
-    console.log('- 内容预览:', content.substring(0, 100) + (content.length > 100 ? '...' : ''));
-    
-    console.log('📝 开始保存文档到数据库...');
-    
-    // 保存文档到数据库
-    const { data: document, error: docError } = await supabaseAdmin
-      .from('documents')
-      .insert({
-        title,
-        content,
-        file_url: file.originalname,
-        file_size: file.size,
-        file_type: file.mimetype,
-        user_id: userId,
-        category_id: categoryId || null
-      })
-      .select()
-      .single();
-    
-    if (docError) {
-      console.error('❌ 保存文档失败:', docError);
-      console.error('- 错误代码:', docError.code);
-      console.error('- 错误消息:', docError.message);
-      console.error('- 错误详情:', docError.details);
-      return res.status(500).json({ error: '保存文档失败' });
+    const chunking = parseChunkingOptions(req.body);
+    if (!chunking) {
+      return res.status(400).json({ error: INVALID_CHUNKING_ERROR });
     }
     
-    console.log('✅ 文档保存成功');
-    console.log('- 文档ID:', document.id);
-    console.log('- 创建时间:', document.created_at);
-    
-    console.log('📝 开始保存文档块到数据库...');
-    
-    // 保存文档块到数据库
-    console.log('🔄 开始为文档块生成向量...');
-    const chunkData = [];
-    
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      console.log(`- 处理第 ${i + 1}/${chunks.length} 个文档块...`);
-      console.log(`  - 分块长度: ${chunk.text.length} 字符`);
-      console.log(`  - 来源页面: ${chunk.metadata.page_number}`);
-      console.log(`  - 章节: ${chunk.metadata.section || '无'}`);
-      
-      const embedding = await generateQueryEmbedding(chunk.text);
-      chunkData.push({
-        document_id: document.id,
-        content: chunk.text,
-        chunk_index: i,
-        embedding: embedding,
-        metadata: JSON.stringify(chunk.metadata) // 存储元数据
-      });
+    const { onDuplicate } = req.body;
+    if (onDuplicate && !isDuplicateAction(onDuplicate)) {
+      return res.status(400).json({ error: INVALID_DUPLICATE_ACTION_ERROR });
     }
     
-    console.log('✅ 所有文档块向量生成完成');
-    
-    const { error: chunkError } = await supabaseAdmin
-      .from('document_chunks')
-      .insert(chunkData);
+    if (categoryId && !(await isAccessibleCategory(userId, categoryId))) {
+      return res.status(404).json({ error: '分类不存在或无权限' });
+    }
     
-    if (chunkError) {
-      console.error('❌ 保存文档块失败:', chunkError);
-      console.error('- 错误代码:', chunkError.code);
-      console.error('- 错误消息:', chunkError.message);
-      console.error('- 错误详情:', chunkError.details);
-      
-      console.log('🗑️ 开始清理已保存的文档...');
-      // 删除已保存的文档
-      const { error: deleteError } = await supabaseAdmin.from('documents').delete().eq('id', document.id);
-      if (deleteError) {
-        console.error('❌ 清理文档失败:', deleteError);
-      } else {
-        console.log('✅ 文档清理成功');
+    // 相似度检测需要先提取文件文本，提取结果交给导入任务复用；提取失败时跳过检测，由导入任务报告错误
+    let rawChunks: ChunkData[] | undefined;
+    const contentHash = computeContentHash(file.buffer);
+    const duplicateCheck = await checkDuplicates(userId, req.body, contentHash, async () => {
+      try {
+        rawChunks = await extractFileChunks(file);
+      } catch {
+        return [];
       }
-      
-      return res.status(500).json({ error: '保存文档块失败' });
+      return normalizeChunks(rawChunks).map(chunk => chunk.text);
+    });
+    
+    if (duplicateCheck.status === 'notFound') {
+      return res.status(404).json({ error: '要替换的文档不存在或无权限' });
+    }
+    if (duplicateCheck.status === 'conflict') {
+      console.log('🔁 发现重复文档，等待用户选择处理方式');
+      return sendDuplicateConflict(res, duplicateCheck.duplicates);
     }
     
-    console.log('✅ 文档块保存成功');
+    const job = await enqueueIngestion({
+      userId,
+      title,
+      categoryId: categoryId || duplicateCheck.replaceCategoryId,
+      source: { kind: 'file', file, rawChunks },
+      chunking,
+      contentHash,
+      replaceDocumentId: duplicateCheck.replaceDocumentId
+    });
     
-    const processingTime = Date.now() - startTime;
-    console.log('🎉 文档上传完全成功!');
-    console.log('- 处理时间:', processingTime, 'ms');
+    console.log('✅ 导入任务已创建:', job.id);
     console.log('=== 文档上传请求结束 ===\n');
     
-    res.json({
-      message: '文档上传成功',
-      document: {
-        id: document.id,
-        title: document.title,
-        file_url: document.file_url,
-        file_size: document.file_size,
-        file_type: document.file_type,
-        created_at: document.created_at,
-        chunks_count: chunks.length
-      }
+    res.status(202).json({
+      message: '文档已加入处理队列',
+      job
     });
     
   } catch (error) {
-    const processingTime = Date.now() - startTime;
     console.error('💥 文档上传发生异常:');
     console.error('- 错误类型:', error?.constructor?.name || 'Unknown');
     console.error('- 错误消息:', error instanceof Error ? error.message : String(error));
-    console.error('- 错误堆栈:', error instanceof Error ? error.stack : 'No stack trace');
-    console.error('- 处理时间:', processingTime, 'ms');
     console.error('=== 文档上传请求异常结束 ===\n');
     
     res.status(500).json({ error: '文档上传失败' });
@@ -212,82 +322,55 @@ router.post('/upload', upload.single('file'), async (req, res) => {
 });
 
 /**
- * 添加文本文档
+ * 添加文本文档 - 创建导入任务
  */
 router.post('/text', async (req, res) => {
   try {
-    const { title, content, userId, categoryId } = req.body;
+    const { title, content, categoryId } = req.body;
+    const userId = req.user!.id;
     
-    if (!title || !content || !userId) {
+    if (!title || !content) {
       return res.status(400).json({ error: '缺少必要参数' });
     }
     
-    // 保存文档到数据库
-    const { data: document, error: docError } = await supabaseAdmin
-      .from('documents')
-      .insert({
-        title,
-        content,
-        file_url: `${title}.txt`,
-        file_size: Buffer.byteLength(content, 'utf8'),
-        file_type: 'text/plain',
-        user_id: userId,
-        category_id: categoryId || null
-      })
-      .select()
-      .single();
-    
-    if (docError) {
-      console.error('保存文档失败:', docError);
-      return res.status(500).json({ error: '保存文档失败' });
+    const chunking = parseChunkingOptions(req.body);
+    if (!chunking) {
+      return res.status(400).json({ error: INVALID_CHUNKING_ERROR });
     }
     
-    // 对于文本文档，使用文档处理服务进行分块
-    const chunks = await processTextDocument(content, `${title}.txt`, document.id);
-    
-    // 保存文档块到数据库
-    console.log('🔄 开始为文本文档块生成向量...');
-    const chunkData = [];
-    
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      console.log(`- 处理第 ${i + 1}/${chunks.length} 个文档块...`);
-      console.log(`  - 分块长度: ${chunk.text.length} 字符`);
-      
-      const embedding = await generateQueryEmbedding(chunk.text);
-      chunkData.push({
-        document_id: document.id,
-        content: chunk.text,
-        chunk_index: i,
-        embedding: embedding,
-        metadata: JSON.stringify(chunk.metadata)
-      });
+    const { onDuplicate } = req.body;
+    if (onDuplicate && !isDuplicateAction(onDuplicate)) {
+      return res.status(400).json({ error: INVALID_DUPLICATE_ACTION_ERROR });
     }
     
-    console.log('✅ 所有文本文档块向量生成完成');
+    if (categoryId && !(await isAccessibleCategory(userId, categoryId))) {
+      return res.status(404).json({ error: '分类不存在或无权限' });
+    }
     
-    const { error: chunkError } = await supabaseAdmin
-      .from('document_chunks')
-      .insert(chunkData);
+    const contentHash = computeContentHash(content);
+    const duplicateCheck = await checkDuplicates(userId, req.body, contentHash, async () =>
+      chunkTextDocument(content, `${title}.txt`).map(chunk => chunk.text));
     
-    if (chunkError) {
-      console.error('保存文档块失败:', chunkError);
-      // 删除已保存的文档
-      await supabaseAdmin.from('documents').delete().eq('id', document.id);
-      return res.status(500).json({ error: '保存文档块失败' });
+    if (duplicateCheck.status === 'notFound') {
+      return res.status(404).json({ error: '要替换的文档不存在或无权限' });
+    }
+    if (duplicateCheck.status === 'conflict') {
+      return sendDuplicateConflict(res, duplicateCheck.duplicates);
     }
     
-    res.json({
-      message: '文档保存成功',
-      document: {
-        id: document.id,
-        title: document.title,
-        file_url: document.file_url,
-        file_size: document.file_size,
-        file_type: document.file_type,
-        created_at: document.created_at,
-        chunks_count: chunks.length
-      }
+    const job = await enqueueIngestion({
+      userId,
+      title,
+      categoryId: categoryId || duplicateCheck.replaceCategoryId,
+      source: { kind: 'text', content },
+      chunking,
+      contentHash,
+      replaceDocumentId: duplicateCheck.replaceDocumentId
+    });
+    
+    res.status(202).json({
+      message: '文档已加入处理队列',
+      job
     });
     
   } catch (error) {
@@ -296,28 +379,90 @@ router.post('/text', async (req, res) => {
   }
 });
 
+/**
+ * 获取导入任务状态
+ */
+router.get('/jobs/:jobId', async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const job = await getIngestionJob(jobId, req.user!.id);
+    
+    if (!job) {
+      return res.status(404).json({ error: '任务不存在或无权限' });
+    }
+    
+    res.json({ job });
+    
+  } catch (error) {
+    console.error('获取导入任务失败:', error);
+    res.status(500).json({ error: '获取导入任务失败' });
+  }
+});
+
+/**
+ * 获取疑似重复文档报告（内容完全相同或分块高度相似的文档组）
+ */
+router.get('/duplicates/:userId', async (req, res) => {
+  try {
+    const groups = await findDuplicateGroups(req.user!.id);
+    res.json({ groups });
+    
+  } catch (error) {
+    console.error('获取重复文档失败:', error);
+    res.status(500).json({ error: '获取重复文档失败' });
+  }
+});
+
+/**
+ * 获取用户的全部标签
+ */
+router.get('/tags/:userId', async (req, res) => {
+  try {
+    const tags = await listUserTags(req.user!.id);
+    res.json({ tags });
+    
+  } catch (error) {
+    console.error('获取标签列表失败:', error);
+    res.status(500).json({ error: '获取标签列表失败' });
+  }
+});
+
 /**
  * 获取用户文档列表
+ * query.tags 为逗号分隔的标签，只返回带有任一指定标签的文档
  */
 router.get('/list/:userId', async (req, res) => {
   try {
-    const { userId } = req.params;
+    const userId = req.user!.id;
     const { page = 1, limit = 10, search = '', categoryId = '' } = req.query;
     
+    const tags = req.query.tags ? normalizeTags(req.query.tags) : [];
+    if (!tags) {
+      return res.status(400).json({ error: INVALID_TAGS_ERROR });
+    }
+    const taggedDocumentIds = tags.length > 0 ? await findDocumentIdsByTags(userId, tags) : null;
+    // 选择父分类时包含全部子孙分类下的文档
+    const categoryIds = categoryId ? await getCategorySubtree(userId, [String(categoryId)]) : null;
+    
     let query = supabaseAdmin
       .from('documents')
-      .select('id, title, file_url, file_size, file_type, category_id, created_at, updated_at')
+      .select('id, title, description, file_url, file_name, file_size, file_type, category_id, active_version_id, created_at, updated_at, tags(name)')
       .eq('user_id', userId)
       .order('created_at', { ascending: false });
     
+    // 标签过滤
+    if (taggedDocumentIds) {
+      query = query.in('id', taggedDocumentIds);
+    }
+    
     // 搜索功能
     if (search) {
-      query = query.or(`title.ilike.%${search}%,file_url.ilike.%${search}%`);
+      query = query.or(`title.ilike.%${search}%,file_name.ilike.%${search}%`);
     }
     
     // 分类过滤
-    if (categoryId) {
-      query = query.eq('category_id', categoryId);
+    if (categoryIds) {
+      query = query.in('category_id', categoryIds);
     }
     
     // 分页
@@ -332,17 +477,24 @@ router.get('/list/:userId', async (req, res) => {
     }
     
     // 获取总数
-    const { count, error: countError } = await supabaseAdmin
+    let countQuery = supabaseAdmin
       .from('documents')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', userId);
+    if (taggedDocumentIds) {
+      countQuery = countQuery.in('id', taggedDocumentIds);
+    }
+    if (categoryIds) {
+      countQuery = countQuery.in('category_id', categoryIds);
+    }
+    const { count, error: countError } = await countQuery;
     
     if (countError) {
       console.error('获取文档总数失败:', countError);
     }
     
     res.json({
-      documents: documents || [],
+      documents: (documents || []).map(withTagNames),
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -357,22 +509,115 @@ router.get('/list/:userId', async (req, res) => {
   }
 });
 
+/**
+ * 重新处理文档 - 按新的分块设置重新分块并生成向量，文档ID保持不变
+ * 新文档块全部生成后才替换旧文档块，处理失败时文档保持原样
+ */
+router.post('/:documentId/reprocess', async (req, res) => {
+  try {
+    const { documentId } = req.params;
+    const userId = req.user!.id;
+
+    const chunking = parseChunkingOptions(req.body || {});
+    if (!chunking) {
+      return res.status(400).json({ error: INVALID_CHUNKING_ERROR });
+    }
+
+    const { data: document, error: docError } = await supabaseAdmin
+      .from('documents')
+      .select('id, title, file_url, file_name, file_type, file_size, category_id')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (docError || !document) {
+      return res.status(404).json({ error: '文档不存在或无权限' });
+    }
+
+    const job = await enqueueIngestion({
+      userId,
+      title: document.title,
+      categoryId: document.category_id,
+      source: { kind: 'document', document },
+      chunking
+    });
+
+    res.status(202).json({
+      message: '文档已加入重新处理队列',
+      job
+    });
+
+  } catch (error) {
+    console.error('重新处理文档失败:', error);
+    res.status(500).json({ error: '重新处理文档失败' });
+  }
+});
+
+/**
+ * 补齐向量 - 为导入时向量生成失败的文档块重新生成向量，不重新分块
+ */
+router.post('/:documentId/retry-embeddings', async (req, res) => {
+  try {
+    const { documentId } = req.params;
+    const userId = req.user!.id;
+
+    const { data: document, error: docError } = await supabaseAdmin
+      .from('documents')
+      .select('id, title, category_id')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (docError || !document) {
+      return res.status(404).json({ error: '文档不存在或无权限' });
+    }
+
+    const { count, error: countError } = await supabaseAdmin
+      .from('document_chunks')
+      .select('id', { count: 'exact', head: true })
+      .eq('document_id', documentId)
+      .eq('is_active', true)
+      .is('embedding', null);
+
+    if (countError) {
+      console.error('统计缺少向量的分块失败:', countError);
+      return res.status(500).json({ error: '补齐向量失败' });
+    }
+
+    if (!count) {
+      return res.status(400).json({ error: '文档没有缺少向量的分块' });
+    }
+
+    const job = await enqueueIngestion({
+      userId,
+      title: document.title,
+      categoryId: document.category_id,
+      source: { kind: 'missing_embeddings', documentId }
+    });
+
+    res.status(202).json({
+      message: '文档已加入补齐向量队列',
+      job
+    });
+
+  } catch (error) {
+    console.error('补齐向量失败:', error);
+    res.status(500).json({ error: '补齐向量失败' });
+  }
+});
+
 /**
  * 删除文档
  */
 router.delete('/:documentId', async (req, res) => {
   try {
     const { documentId } = req.params;
-    const { userId } = req.body;
-    
-    if (!userId) {
-      return res.status(400).json({ error: '缺少用户ID' });
-    }
+    const userId = req.user!.id;
     
     // 验证文档所有权
     const { data: document, error: docError } = await supabaseAdmin
       .from('documents')
-      .select('id, user_id')
+      .select('id, user_id, file_url')
       .eq('id', documentId)
       .eq('user_id', userId)
       .single();
@@ -381,6 +626,12 @@ router.delete('/:documentId', async (req, res) => {
       return res.status(404).json({ error: '文档不存在或无权限' });
     }
     
+    // 各版本的原始文件（版本随文档级联删除）
+    const versions = await listDocumentVersions(documentId);
+    const filePaths = Array.from(new Set(
+      [document.file_url, ...versions.map(version => version.file_url)].filter((path): path is string => !!path)
+    ));
+    
     // 删除文档块
     const { error: chunkError } = await supabaseAdmin
       .from('document_chunks')
@@ -403,6 +654,15 @@ router.delete('/:documentId', async (req, res) => {
       return res.status(500).json({ error: '删除文档失败' });
     }
     
+    // 删除原始文件（失败不影响文档删除）
+    for (const filePath of filePaths) {
+      try {
+        await getFileStorage().remove(filePath);
+      } catch (storageError) {
+        console.error('删除原始文件失败:', storageError);
+      }
+    }
+    
     res.json({ message: '文档删除成功' });
     
   } catch (error) {
@@ -412,20 +672,330 @@ router.delete('/:documentId', async (req, res) => {
 });
 
 /**
- * 获取文档详情
+ * 获取原始文件的签名下载链接
+ * query.download=1 时以附件形式下载，否则在浏览器中打开（PDF 可追加 #page=N 跳转到指定页）
+ * query.versionId 指定时下载该版本的原始文件，否则下载当前版本
  */
-router.get('/:documentId', async (req, res) => {
+router.get('/:documentId/download', async (req, res) => {
   try {
     const { documentId } = req.params;
-    const { userId } = req.query;
+    const userId = req.user!.id;
     
-    if (!userId) {
-      return res.status(400).json({ error: '缺少用户ID' });
+    const { data: document, error } = await supabaseAdmin
+      .from('documents')
+      .select('id, title, file_url, file_name, file_type')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+    
+    if (error || !document) {
+      return res.status(404).json({ error: '文档不存在或无权限' });
+    }
+    
+    let file: { title: string; file_url: string | null; file_name: string | null; file_type: string | null } = document;
+    if (typeof req.query.versionId === 'string' && req.query.versionId) {
+      const version = await getDocumentVersion(documentId, req.query.versionId);
+      if (!version) {
+        return res.status(404).json({ error: '文档版本不存在' });
+      }
+      file = version;
     }
     
+    if (!file.file_url) {
+      return res.status(404).json({ error: '该文档没有保存原始文件' });
+    }
+    
+    const fileName = file.file_name || file.title;
+    const url = await getFileStorage().createSignedUrl(file.file_url, {
+      expiresIn: SIGNED_URL_EXPIRES_IN,
+      downloadName: req.query.download === '1' ? fileName : undefined
+    });
+    
+    res.json({
+      url,
+      fileName,
+      fileType: file.file_type,
+      expiresIn: SIGNED_URL_EXPIRES_IN
+    });
+    
+  } catch (error) {
+    console.error('生成下载链接失败:', error);
+    res.status(500).json({ error: '生成下载链接失败' });
+  }
+});
+
+/**
+ * 上传新版本 - 新文件作为文档的下一个版本导入，全部分块保存后切换为当前版本，旧版本保留
+ */
+router.post('/:documentId/versions', upload.single('file'), rejectMismatchedUserId, async (req, res) => {
+  try {
+    const { documentId } = req.params;
+    const userId = req.user!.id;
+    const file = req.file;
+    
+    if (!file) {
+      return res.status(400).json({ error: '请选择文件' });
+    }
+    
+    const chunking = parseChunkingOptions(req.body);
+    if (!chunking) {
+      return res.status(400).json({ error: INVALID_CHUNKING_ERROR });
+    }
+    
+    const { data: document, error: docError } = await supabaseAdmin
+      .from('documents')
+      .select('id, title, category_id')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+    
+    if (docError || !document) {
+      return res.status(404).json({ error: '文档不存在或无权限' });
+    }
+    
+    const job = await enqueueIngestion({
+      userId,
+      title: req.body.title || document.title,
+      categoryId: document.category_id,
+      source: { kind: 'file', file },
+      chunking,
+      contentHash: computeContentHash(file.buffer),
+      replaceDocumentId: document.id
+    });
+    
+    res.status(202).json({
+      message: '新版本已加入处理队列',
+      job
+    });
+    
+  } catch (error) {
+    console.error('上传新版本失败:', error);
+    res.status(500).json({ error: '上传新版本失败' });
+  }
+});
+
+/**
+ * 获取文档版本历史
+ */
+router.get('/:documentId/versions', async (req, res) => {
+  try {
+    const { documentId } = req.params;
+    const userId = req.user!.id;
+    
+    const { data: document, error } = await supabaseAdmin
+      .from('documents')
+      .select('id, active_version_id')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+    
+    if (error || !document) {
+      return res.status(404).json({ error: '文档不存在或无权限' });
+    }
+    
+    const versions = await listDocumentVersions(documentId);
+    res.json({ versions, activeVersionId: document.active_version_id });
+    
+  } catch (error) {
+    console.error('获取文档版本失败:', error);
+    res.status(500).json({ error: '获取文档版本失败' });
+  }
+});
+
+/**
+ * 对比两个版本的内容
+ * query.to 默认为当前版本，query.from 默认为 to 的上一个版本
+ */
+router.get('/:documentId/versions/diff', async (req, res) => {
+  try {
+    const { documentId } = req.params;
+    const userId = req.user!.id;
+    const { from, to } = req.query;
+    
+    const { data: document, error } = await supabaseAdmin
+      .from('documents')
+      .select('id, active_version_id')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+    
+    if (error || !document) {
+      return res.status(404).json({ error: '文档不存在或无权限' });
+    }
+    
+    const versions = await listDocumentVersions(documentId);
+    const toId = typeof to === 'string' && to ? to : document.active_version_id;
+    const toIndex = versions.findIndex(version => version.id === toId);
+    // 版本按版本号降序，上一个版本在后面
+    const fromId = typeof from === 'string' && from ? from : versions[toIndex + 1]?.id;
+    
+    if (toIndex === -1 || !fromId) {
+      return res.status(400).json({ error: toIndex === -1 ? '文档版本不存在' : '没有可对比的上一个版本' });
+    }
+    
+    const [fromVersion, toVersion] = await Promise.all([
+      getDocumentVersion(documentId, fromId),
+      getDocumentVersion(documentId, toId)
+    ]);
+    
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ error: '文档版本不存在' });
+    }
+    
+    const { content: fromContent, ...fromSummary } = fromVersion;
+    const { content: toContent, ...toSummary } = toVersion;
+    
+    res.json({
+      from: fromSummary,
+      to: toSummary,
+      ...diffVersionContent(fromContent || '', toContent || '')
+    });
+    
+  } catch (error) {
+    console.error('对比文档版本失败:', error);
+    res.status(500).json({ error: '对比文档版本失败' });
+  }
+});
+
+/**
+ * 回滚到指定版本 - 该版本成为当前版本，检索改用该版本的文档块，其他版本保留
+ */
+router.post('/:documentId/versions/:versionId/rollback', async (req, res) => {
+  try {
+    const { documentId, versionId } = req.params;
+    const userId = req.user!.id;
+    
+    const { data: document, error } = await supabaseAdmin
+      .from('documents')
+      .select('id, active_version_id')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+    
+    if (error || !document) {
+      return res.status(404).json({ error: '文档不存在或无权限' });
+    }
+    
+    const versions = await listDocumentVersions(documentId);
+    const version = versions.find(item => item.id === versionId);
+    if (!version) {
+      return res.status(404).json({ error: '文档版本不存在' });
+    }
+    
+    if (document.active_version_id !== versionId) {
+      await activateDocumentVersion(documentId, versionId);
+      await refreshDocumentSimilarities(documentId);
+    }
+    
+    res.json({
+      message: `已回滚到版本 ${version.version_number}`,
+      version
+    });
+    
+  } catch (error) {
+    console.error('回滚文档版本失败:', error);
+    res.status(500).json({ error: '回滚文档版本失败' });
+  }
+});
+
+/**
+ * 更新文档信息 - 标题、分类、描述与标签（tags 会替换文档原有的全部标签），未传入的字段保持不变
+ */
+router.patch('/:documentId', async (req, res) => {
+  try {
+    const { documentId } = req.params;
+    const { title, category_id: categoryId, description } = req.body;
+    const userId = req.user!.id;
+    
+    const updates: Record<string, unknown> = {};
+    if (title !== undefined) {
+      if (typeof title !== 'string' || !title.trim()) {
+        return res.status(400).json({ error: '文档标题不能为空' });
+      }
+      updates.title = title.trim();
+    }
+    if (description !== undefined) {
+      if (description !== null && typeof description !== 'string') {
+        return res.status(400).json({ error: '无效的文档描述' });
+      }
+      updates.description = description?.trim() || null;
+    }
+    
+    const tags = 'tags' in req.body ? normalizeTags(req.body.tags) : undefined;
+    if (tags === null) {
+      return res.status(400).json({ error: INVALID_TAGS_ERROR });
+    }
+    
+    const { data: document, error: docError } = await supabaseAdmin
+      .from('documents')
+      .select('id, active_version_id')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+    
+    if (docError || !document) {
+      return res.status(404).json({ error: '文档不存在或无权限' });
+    }
+    
+    if (categoryId !== undefined) {
+      if (categoryId && !(await isAccessibleCategory(userId, categoryId))) {
+        return res.status(404).json({ error: '分类不存在或无权限' });
+      }
+      updates.category_id = categoryId || null;
+    }
+    
+    if (Object.keys(updates).length > 0) {
+      const { error } = await supabaseAdmin
+        .from('documents')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', documentId);
+      
+      if (error) {
+        console.error('更新文档失败:', error);
+        return res.status(500).json({ error: '更新文档失败' });
+      }
+      
+      // 同步当前版本的标题，切换版本时以版本标题为准
+      if (updates.title && document.active_version_id) {
+        await supabaseAdmin
+          .from('document_versions')
+          .update({ title: updates.title })
+          .eq('id', document.active_version_id);
+      }
+    }
+    
+    if (tags) {
+      await setDocumentTags(userId, documentId, tags);
+    }
+    
+    const { data: updated } = await supabaseAdmin
+      .from('documents')
+      .select('id, title, description, file_url, file_name, file_size, file_type, category_id, active_version_id, created_at, updated_at, tags(name)')
+      .eq('id', documentId)
+      .single();
+    
+    res.json({
+      message: '文档更新成功',
+      document: updated ? withTagNames(updated) : null
+    });
+    
+  } catch (error) {
+    console.error('更新文档失败:', error);
+    res.status(500).json({ error: '更新文档失败' });
+  }
+});
+
+/**
+ * 获取文档详情
+ */
+router.get('/:documentId', async (req, res) => {
+  try {
+    const { documentId } = req.params;
+    const userId = req.user!.id;
+    
     const { data: document, error } = await supabaseAdmin
       .from('documents')
-      .select('*')
+      .select('*, tags(name)')
       .eq('id', documentId)
       .eq('user_id', userId)
       .single();
@@ -434,7 +1004,7 @@ router.get('/:documentId', async (req, res) => {
       return res.status(404).json({ error: '文档不存在或无权限' });
     }
     
-    res.json({ document });
+    res.json({ document: withTagNames(document) });
     
   } catch (error) {
     console.error('获取文档详情失败:', error);
@@ -447,11 +1017,11 @@ router.get('/:documentId', async (req, res) => {
  */
 router.get('/categories/:userId', async (req, res) => {
   try {
-    const { userId } = req.params;
+    const userId = req.user!.id;
     
     const { data: categories, error } = await supabaseAdmin
       .from('categories')
-      .select('id, name, description, created_at')
+      .select('id, name, description, parent_id, chunking_strategy, chunk_size, chunk_overlap, system_prompt, default_model, created_at')
       .or(`user_id.eq.${userId},user_id.is.null`)
       .order('created_at', { ascending: false });
     
@@ -469,22 +1039,46 @@ router.get('/categories/:userId', async (req, res) => {
 });
 
 /**
- * 创建新分类
+ * 创建新分类，parentId 指定上级分类
  */
 router.post('/categories', async (req, res) => {
   try {
-    const { name, description, userId } = req.body;
+    const { name, description, parentId } = req.body;
+    const userId = req.user!.id;
     
-    if (!name || !userId) {
+    if (!name) {
       return res.status(400).json({ error: '缺少必要参数' });
     }
     
+    const chunking = parseChunkingOptions(req.body);
+    if (!chunking) {
+      return res.status(400).json({ error: INVALID_CHUNKING_ERROR });
+    }
+    
+    const defaults = parseCategoryDefaults(req.body);
+    if (!defaults) {
+      return res.status(400).json({ error: INVALID_CATEGORY_DEFAULTS_ERROR });
+    }
+    
+    if (parentId) {
+      const categories = await loadUserCategories(userId);
+      if (!categories.some(item => item.id === parentId)) {
+        return res.status(404).json({ error: '上级分类不存在或无权限' });
+      }
+    }
+    
     const { data: category, error } = await supabaseAdmin
       .from('categories')
       .insert({
         name,
         description: description || null,
-        user_id: userId
+        user_id: userId,
+        parent_id: parentId || null,
+        chunking_strategy: chunking.strategy ?? null,
+        chunk_size: chunking.chunkSize ?? null,
+        chunk_overlap: chunking.chunkOverlap ?? null,
+        system_prompt: defaults.system_prompt ?? null,
+        default_model: defaults.default_model ?? null
       })
       .select()
       .single();
@@ -506,21 +1100,91 @@ router.post('/categories', async (req, res) => {
 });
 
 /**
- * 删除分类
+ * 更新分类（名称、描述、上级分类、分块设置、默认问答设置）
+ * 分块与问答设置字段传 null 表示沿用上级分类或默认配置，parentId 传 null 表示移动为顶级分类（子分类随之移动）
  */
-router.delete('/categories/:categoryId', async (req, res) => {
+router.put('/categories/:categoryId', async (req, res) => {
   try {
     const { categoryId } = req.params;
-    const { userId } = req.body;
+    const { name, description, parentId } = req.body;
+    const userId = req.user!.id;
+    
+    const chunking = parseChunkingOptions(req.body);
+    if (!chunking) {
+      return res.status(400).json({ error: INVALID_CHUNKING_ERROR });
+    }
+    
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (name !== undefined) {
+      if (!name) {
+        return res.status(400).json({ error: '分类名称不能为空' });
+      }
+      updates.name = name;
+    }
+    if (description !== undefined) updates.description = description || null;
+    if ('chunkingStrategy' in req.body) updates.chunking_strategy = chunking.strategy ?? null;
+    if ('chunkSize' in req.body) updates.chunk_size = chunking.chunkSize ?? null;
+    if ('chunkOverlap' in req.body) updates.chunk_overlap = chunking.chunkOverlap ?? null;
+    
+    const defaults = parseCategoryDefaults(req.body);
+    if (!defaults) {
+      return res.status(400).json({ error: INVALID_CATEGORY_DEFAULTS_ERROR });
+    }
+    Object.assign(updates, defaults);
+    
+    if (parentId !== undefined) {
+      if (parentId) {
+        const categories = await loadUserCategories(userId);
+        if (!categories.some(item => item.id === parentId)) {
+          return res.status(404).json({ error: '上级分类不存在或无权限' });
+        }
+        if (isCategoryInSubtree(categories, categoryId, parentId)) {
+          return res.status(400).json({ error: '不能将分类移动到自身或其子分类下' });
+        }
+      }
+      updates.parent_id = parentId || null;
+    }
+    
+    const { data: category, error } = await supabaseAdmin
+      .from('categories')
+      .update(updates)
+      .eq('id', categoryId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+    
+    if (error) {
+      console.error('更新分类失败:', error);
+      return res.status(500).json({ error: '更新分类失败' });
+    }
     
-    if (!userId) {
-      return res.status(400).json({ error: '缺少用户ID' });
+    if (!category) {
+      return res.status(404).json({ error: '分类不存在或无权限' });
     }
     
+    res.json({
+      message: '分类更新成功',
+      category
+    });
+    
+  } catch (error) {
+    console.error('更新分类失败:', error);
+    res.status(500).json({ error: '更新分类失败' });
+  }
+});
+
+/**
+ * 删除分类
+ */
+router.delete('/categories/:categoryId', async (req, res) => {
+  try {
+    const { categoryId } = req.params;
+    const userId = req.user!.id;
+    
     // 验证分类所有权
     const { data: category, error: categoryError } = await supabaseAdmin
       .from('categories')
-      .select('id, user_id')
+      .select('id, user_id, parent_id')
       .eq('id', categoryId)
       .eq('user_id', userId)
       .single();
@@ -529,10 +1193,21 @@ router.delete('/categories/:categoryId', async (req, res) => {
       return res.status(404).json({ error: '分类不存在或无权限' });
     }
     
-    // 将使用此分类的文档的category_id设为null
+    // 子分类移到上级分类下
+    const { error: childrenError } = await supabaseAdmin
+      .from('categories')
+      .update({ parent_id: category.parent_id })
+      .eq('parent_id', categoryId);
+    
+    if (childrenError) {
+      console.error('移动子分类失败:', childrenError);
+      return res.status(500).json({ error: '移动子分类失败' });
+    }
+    
+    // 将使用此分类的文档移到上级分类（顶级分类时设为null）
     const { error: updateError } = await supabaseAdmin
       .from('documents')
-      .update({ category_id: null })
+      .update({ category_id: category.parent_id })
       .eq('category_id', categoryId)
       .eq('user_id', userId);
     
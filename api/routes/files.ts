@@ -0,0 +1,43 @@
+/**
+ * 本地文件路由 - 使用本地文件存储时，校验签名链接并返回原始文件
+ * 签名链接由文档下载接口生成，本接口不需要登录
+ */
+import express from 'express';
+import path from 'path';
+import { getFileStorage, LocalFileStorage } from '../services/fileStorageService.js';
+
+const router = express.Router();
+
+router.get('/', (req, res) => {
+  const storage = getFileStorage();
+  if (!(storage instanceof LocalFileStorage)) {
+    return res.status(404).json({ error: '文件不存在' });
+  }
+
+  const { path: storagePath, expires, download = '', signature } = req.query;
+  if (typeof storagePath !== 'string' || typeof signature !== 'string' || typeof download !== 'string') {
+    return res.status(400).json({ error: '无效的文件链接' });
+  }
+
+  let filePath: string | null;
+  try {
+    filePath = storage.verify(storagePath, Number(expires), download, signature);
+  } catch {
+    filePath = null;
+  }
+  if (!filePath) {
+    return res.status(403).json({ error: '文件链接无效或已过期' });
+  }
+
+  res.type(path.extname(storagePath) || 'application/octet-stream');
+  if (download) {
+    res.attachment(download);
+  }
+  res.sendFile(filePath, error => {
+    if (error && !res.headersSent) {
+      res.status(404).json({ error: '文件不存在' });
+    }
+  });
+});
+
+export default router;
\ No newline at end of file
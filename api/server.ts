@@ -3,6 +3,8 @@
  */
 import app from './app.js';
 import { createServer } from 'http';
+import { failInterruptedJobs, getIngestionQueue } from './services/ingestionQueue.js';
+import { resumeReembeddingJobs } from './services/reembeddingService.js';
 
 
 
@@ -14,6 +16,10 @@ const port = parseInt(process.env.PORT || '3001');
   
   const server = app.listen(port, () => {
     console.log(`Server ready on port ${port}`);
+    // 上次退出时未完成的导入任务无法继续，标记为失败
+    failInterruptedJobs();
+    // 重新向量化任务记录了游标，可以继续处理
+    resumeReembeddingJobs();
   });
   
   server.on('error', (error: any) => {
@@ -79,6 +85,10 @@ async function cleanupResources() {
     
     // 清理其他可能的资源
     console.log('Cleaning up other resources...');
+    const pendingJobs = getIngestionQueue().size;
+    if (pendingJobs > 0) {
+      console.warn(`${pendingJobs} queued ingestion job(s) will be marked as failed on next start`);
+    }
     // 如果有其他需要清理的资源（如Redis连接、文件句柄等），在这里添加
     
     console.log('Resource cleanup completed');
@@ -0,0 +1,163 @@
+/**
+ * 分类服务
+ * 分类通过 parent_id 组成树：检索和文档列表按父分类过滤时包含全部子孙分类，
+ * 分块策略、系统提示词、默认模型等分类设置未设置时沿用最近的上级分类
+ */
+import { supabaseAdmin } from '../lib/supabase.js';
+import { isChunkingStrategy, ChunkingOptions } from './chunkingService.js';
+
+/**
+ * 分类系统提示词的最大长度
+ */
+export const MAX_CATEGORY_PROMPT_LENGTH = 4000;
+
+/**
+ * 默认模型名称的最大长度
+ */
+export const MAX_MODEL_NAME_LENGTH = 100;
+
+/**
+ * 分类树节点（只包含层级与设置字段）
+ */
+export interface CategoryNode {
+  id: string;
+  parent_id: string | null;
+  chunking_strategy: string | null;
+  chunk_size: number | null;
+  chunk_overlap: number | null;
+  system_prompt: string | null;
+  default_model: string | null;
+}
+
+/**
+ * 分类的生效设置（已合并上级分类）
+ */
+export interface CategorySettings {
+  chunking: ChunkingOptions;
+  systemPrompt: string | null;
+  defaultModel: string | null;
+}
+
+/**
+ * 分类树查询字段
+ */
+const CATEGORY_NODE_COLUMNS = 'id, parent_id, chunking_strategy, chunk_size, chunk_overlap, system_prompt, default_model';
+
+/**
+ * 读取用户可见的全部分类（自己的分类和系统分类）
+ */
+export async function loadUserCategories(userId: string): Promise<CategoryNode[]> {
+  const { data, error } = await supabaseAdmin
+    .from('categories')
+    .select(CATEGORY_NODE_COLUMNS)
+    .or(`user_id.eq.${userId},user_id.is.null`);
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as CategoryNode[];
+}
+
+/**
+ * 判断分类是否可被用户使用（自己的分类或系统分类）
+ */
+export async function isAccessibleCategory(userId: string, categoryId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('categories')
+    .select('id')
+    .eq('id', categoryId)
+    .or(`user_id.eq.${userId},user_id.is.null`)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return Boolean(data);
+}
+
+/**
+ * 获取分类及其全部子孙分类的ID
+ * @param categories 分类列表
+ * @param rootIds 根分类ID
+ * @returns 去重后的分类ID（包含根分类）
+ */
+export function getCategorySubtreeIds(categories: CategoryNode[], rootIds: string[]): string[] {
+  const children = new Map<string, string[]>();
+  categories.forEach(category => {
+    if (!category.parent_id) return;
+    children.set(category.parent_id, [...(children.get(category.parent_id) || []), category.id]);
+  });
+
+  const result = new Set<string>();
+  const queue = [...rootIds];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (result.has(id)) continue;
+    result.add(id);
+    queue.push(...(children.get(id) || []));
+  }
+  return Array.from(result);
+}
+
+/**
+ * 从分类开始向上获取祖先链（包含自身，最近的在前）
+ */
+function getAncestorChain(categories: CategoryNode[], categoryId: string): CategoryNode[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const chain: CategoryNode[] = [];
+  let current = byId.get(categoryId);
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return chain;
+}
+
+/**
+ * 判断 categoryId 是否为 ancestorId 自身或其子孙分类
+ */
+export function isCategoryInSubtree(categories: CategoryNode[], ancestorId: string, categoryId: string): boolean {
+  return getAncestorChain(categories, categoryId).some(category => category.id === ancestorId);
+}
+
+/**
+ * 计算分类的生效设置：每项设置取自身或最近的上级分类中已设置的值
+ * @param categories 分类列表
+ * @param categoryId 分类ID
+ */
+export function resolveCategorySettings(categories: CategoryNode[], categoryId: string): CategorySettings {
+  const chain = getAncestorChain(categories, categoryId);
+  // 空字符串与未设置相同，沿用上级分类
+  const pick = <K extends keyof CategoryNode>(key: K): CategoryNode[K] | null =>
+    chain.find(category => category[key] !== null && category[key] !== undefined && category[key] !== '')?.[key] ?? null;
+
+  const strategy = pick('chunking_strategy');
+  return {
+    chunking: {
+      strategy: isChunkingStrategy(strategy) ? strategy : undefined,
+      chunkSize: pick('chunk_size') ?? undefined,
+      chunkOverlap: pick('chunk_overlap') ?? undefined
+    },
+    systemPrompt: pick('system_prompt') || null,
+    defaultModel: pick('default_model') || null
+  };
+}
+
+/**
+ * 便捷函数：获取分类的生效设置
+ * @returns 分类不存在时返回 null
+ */
+export async function getCategorySettings(userId: string, categoryId: string): Promise<CategorySettings | null> {
+  const categories = await loadUserCategories(userId);
+  if (!categories.some(category => category.id === categoryId)) {
+    return null;
+  }
+  return resolveCategorySettings(categories, categoryId);
+}
+
+/**
+ * 便捷函数：获取分类及其全部子孙分类的ID
+ */
+export async function getCategorySubtree(userId: string, categoryIds: string[]): Promise<string[]> {
+  return getCategorySubtreeIds(await loadUserCategories(userId), categoryIds);
+}
\ No newline at end of file
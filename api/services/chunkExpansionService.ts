@@ -0,0 +1,158 @@
+/**
+ * 相邻块扩展服务
+ * 文档块最长 1024 字符，检索命中的片段常在句中截断。这里为每个命中块补充同一文档中
+ * 前后各 N 个文档块（按 document_id + chunk_index），重叠或相接的窗口合并为一段，
+ * 合并后的片段附带 chunk_range（覆盖的 chunk_index 范围）与 chunk_ids（包含的文档块）
+ */
+import { supabaseAdmin } from '../lib/supabase.js';
+import { joinAdjacentContent } from './contextBuilderService.js';
+
+/**
+ * 可扩展的文档块（检索结果的最小结构）
+ */
+export interface ExpandableChunk {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  content: string;
+}
+
+/**
+ * 扩展后附加的字段
+ */
+export interface ExpandedFields {
+  /** 片段覆盖的 chunk_index 范围（含两端） */
+  chunk_range: { start: number; end: number };
+  /** 片段包含的文档块ID（按 chunk_index 升序） */
+  chunk_ids: string[];
+}
+
+/**
+ * 每个命中块最多扩展的相邻块数量（单侧）
+ */
+export const MAX_NEIGHBOR_CHUNKS = 5;
+
+/**
+ * 默认扩展的相邻块数量（SEARCH_NEIGHBOR_CHUNKS 环境变量，默认 0 即不扩展）
+ */
+export function getDefaultNeighborChunks(): number {
+  const value = parseInt(process.env.SEARCH_NEIGHBOR_CHUNKS || '0', 10);
+  return Number.isFinite(value) ? Math.max(0, Math.min(value, MAX_NEIGHBOR_CHUNKS)) : 0;
+}
+
+/**
+ * 同一文档内的扩展窗口
+ */
+interface ExpansionWindow<T extends ExpandableChunk> {
+  documentId: string;
+  start: number;
+  end: number;
+  /** 窗口内的命中块（按原排名） */
+  hits: { chunk: T; rank: number }[];
+}
+
+/**
+ * 查询窗口内的全部文档块（只取当前版本）
+ */
+async function fetchWindowChunks(documentId: string, start: number, end: number) {
+  const { data, error } = await supabaseAdmin
+    .from('document_chunks')
+    .select('id, chunk_index, content')
+    .eq('document_id', documentId)
+    .eq('is_active', true)
+    .gte('chunk_index', start)
+    .lte('chunk_index', end)
+    .order('chunk_index', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as { id: string; chunk_index: number; content: string }[];
+}
+
+/**
+ * 为检索结果扩展相邻文档块，并合并重叠的窗口
+ * 合并后的片段沿用其中排名最高的命中块的分数与排名
+ * @param chunks 按相关性降序排列的检索结果
+ * @param neighbors 每个命中块前后各扩展的文档块数量
+ * @returns 扩展后的片段数组（数量可能少于输入）
+ */
+export async function expandWithNeighborChunks<T extends ExpandableChunk>(chunks: T[], neighbors: number): Promise<(T & ExpandedFields)[]> {
+  const count = Math.max(0, Math.min(Math.floor(neighbors), MAX_NEIGHBOR_CHUNKS));
+  const single = (chunk: T): T & ExpandedFields => ({
+    ...chunk,
+    chunk_range: { start: chunk.chunk_index, end: chunk.chunk_index },
+    chunk_ids: [chunk.id]
+  });
+
+  if (count === 0 || chunks.length === 0) {
+    return chunks.map(single);
+  }
+
+  console.log(`🧩 扩展相邻文档块: ${chunks.length} 个命中块，前后各 ${count} 个`);
+
+  // 按文档分组后合并重叠或相接的窗口
+  const windowsByDocument = new Map<string, ExpansionWindow<T>[]>();
+  chunks.forEach((chunk, rank) => {
+    const windows = windowsByDocument.get(chunk.document_id) || [];
+    windows.push({
+      documentId: chunk.document_id,
+      start: Math.max(0, chunk.chunk_index - count),
+      end: chunk.chunk_index + count,
+      hits: [{ chunk, rank }]
+    });
+    windowsByDocument.set(chunk.document_id, windows);
+  });
+
+  const windows: ExpansionWindow<T>[] = [];
+  windowsByDocument.forEach(documentWindows => {
+    documentWindows.sort((a, b) => a.start - b.start);
+    documentWindows.forEach(window => {
+      const previous = windows[windows.length - 1];
+      if (previous && previous.documentId === window.documentId && window.start <= previous.end + 1) {
+        previous.end = Math.max(previous.end, window.end);
+        previous.hits.push(...window.hits);
+      } else {
+        windows.push({ ...window, hits: [...window.hits] });
+      }
+    });
+  });
+
+  const passages = await Promise.all(windows.map(async window => {
+    const best = window.hits.reduce((a, b) => (b.rank < a.rank ? b : a));
+    // 查询失败时保留窗口内的原命中块，不影响检索结果
+    const unexpanded = () => window.hits.map(hit => ({ rank: hit.rank, passage: single(hit.chunk) }));
+
+    try {
+      const windowChunks = await fetchWindowChunks(window.documentId, window.start, window.end);
+      if (windowChunks.length === 0) {
+        return unexpanded();
+      }
+
+      const content = windowChunks
+        .slice(1)
+        .reduce((text, chunk) => joinAdjacentContent(text, chunk.content), windowChunks[0].content);
+
+      return [{
+        rank: best.rank,
+        passage: {
+          ...best.chunk,
+          content,
+          chunk_range: { start: windowChunks[0].chunk_index, end: windowChunks[windowChunks.length - 1].chunk_index },
+          chunk_ids: windowChunks.map(chunk => chunk.id)
+        }
+      }];
+    } catch (error) {
+      console.error('❌ 查询相邻文档块失败:', error instanceof Error ? error.message : String(error));
+      return unexpanded();
+    }
+  }));
+
+  const results = passages
+    .flat()
+    .sort((a, b) => a.rank - b.rank)
+    .map(item => item.passage);
+
+  console.log(`✅ 扩展后得到 ${results.length} 个片段`);
+  return results;
+}
\ No newline at end of file
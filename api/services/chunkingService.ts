@@ -0,0 +1,284 @@
+/**
+ * 分块服务
+ * 将解析得到的原始分块（页、章节、表格行组）切分为入库的文档块，支持：
+ * - recursive：按段落 → 换行 → 句末标点 → 逗号 → 空格逐级切分，尽量不在句中断开
+ * - sentence：按中英文句末标点切句，再把整句打包到分块中
+ * - heading：每个标题章节独立分块，不跨章节合并（Markdown 文本先按 # 标题拆分）
+ * - token：与 recursive 相同的切分方式，但分块大小和重叠按 token 数计算
+ * 相邻分块之间可保留重叠内容，分块元数据记录所用策略
+ */
+import type { ChunkData } from './documentProcessingService.js';
+import { countTokens } from './contextBuilderService.js';
+import { parseMarkdownSections } from './documentParserService.js';
+
+/**
+ * 分块策略
+ */
+export type ChunkingStrategy = 'recursive' | 'sentence' | 'heading' | 'token';
+
+/**
+ * 支持的分块策略
+ */
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['recursive', 'sentence', 'heading', 'token'];
+
+/**
+ * 分块选项（未指定的字段依次使用分类设置和环境变量默认值）
+ */
+export interface ChunkingOptions {
+  strategy?: ChunkingStrategy;
+  /** 分块大小：token 策略为 token 数，其余为字符数 */
+  chunkSize?: number;
+  /** 相邻分块的重叠大小，单位同 chunkSize */
+  chunkOverlap?: number;
+}
+
+/**
+ * 合并默认值后的分块配置
+ */
+export type ChunkingConfig = Required<ChunkingOptions>;
+
+/**
+ * 分块大小的取值范围
+ */
+export const MIN_CHUNK_SIZE = 100;
+export const MAX_CHUNK_SIZE = 8000;
+
+/**
+ * 递归切分使用的分隔符，按优先级排列；分隔符保留在前一段末尾
+ */
+const RECURSIVE_SEPARATORS = ['\n\n', '\n', '。', '！', '？', '；', '. ', '! ', '? ', '; ', '，', ', ', '、', ' ', ''];
+
+/**
+ * 句子边界：中文句末标点（可带后引号），英文句末标点（后跟空白，避免切开 3.14、e.g.），换行
+ */
+const SENTENCE_BOUNDARY = /[。！？；…]+[”’」』）)]*|[.!?;]+["')\]]*(?=\s)|\n+/g;
+
+/**
+ * 判断是否为支持的分块策略
+ */
+export function isChunkingStrategy(value: unknown): value is ChunkingStrategy {
+  return typeof value === 'string' && CHUNKING_STRATEGIES.includes(value as ChunkingStrategy);
+}
+
+function readInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * 默认分块配置（CHUNKING_STRATEGY 默认 recursive，CHUNK_SIZE 默认 1024，CHUNK_OVERLAP 默认 128）
+ */
+export function getDefaultChunkingConfig(): ChunkingConfig {
+  const strategy = process.env.CHUNKING_STRATEGY;
+  return {
+    strategy: isChunkingStrategy(strategy) ? strategy : 'recursive',
+    chunkSize: readInt('CHUNK_SIZE', 1024),
+    chunkOverlap: readInt('CHUNK_OVERLAP', 128)
+  };
+}
+
+/**
+ * 按优先级合并分块选项（靠前的优先），并把大小和重叠限制在合理范围内
+ * @param layers 分块选项，如 [上传时指定, 分类设置]
+ * @returns 完整的分块配置
+ */
+export function resolveChunkingConfig(...layers: (ChunkingOptions | null | undefined)[]): ChunkingConfig {
+  const defaults = getDefaultChunkingConfig();
+  const pick = <K extends keyof ChunkingOptions>(key: K): ChunkingConfig[K] =>
+    (layers.find(layer => layer?.[key] !== undefined && layer?.[key] !== null)?.[key] ?? defaults[key]) as ChunkingConfig[K];
+
+  const chunkSize = Math.max(MIN_CHUNK_SIZE, Math.min(Math.floor(pick('chunkSize')), MAX_CHUNK_SIZE));
+  // 重叠不超过分块大小的一半，否则分块数量会成倍增长
+  const chunkOverlap = Math.max(0, Math.min(Math.floor(pick('chunkOverlap')), Math.floor(chunkSize / 2)));
+
+  return { strategy: pick('strategy'), chunkSize, chunkOverlap };
+}
+
+/**
+ * 计量函数：token 策略按 token 数，其余按字符数
+ */
+function getMeasure(strategy: ChunkingStrategy): (text: string) => number {
+  return strategy === 'token' ? countTokens : (text: string) => text.length;
+}
+
+/**
+ * 按分隔符切分文本，分隔符保留在前一段末尾
+ */
+function splitKeepingSeparator(text: string, separator: string): string[] {
+  if (separator === '') {
+    return Array.from(text);
+  }
+  const parts = text.split(separator);
+  return parts
+    .map((part, i) => (i < parts.length - 1 ? part + separator : part))
+    .filter(part => part.length > 0);
+}
+
+/**
+ * 递归切分：用优先级最高的可用分隔符切分，仍然过长的片段再用下一级分隔符切分
+ */
+function splitRecursively(text: string, chunkSize: number, measure: (text: string) => number, separators: string[] = RECURSIVE_SEPARATORS): string[] {
+  if (measure(text) <= chunkSize) {
+    return [text];
+  }
+
+  const index = separators.findIndex(separator => separator === '' || text.includes(separator));
+  const separator = separators[index];
+  const rest = separators.slice(index + 1);
+
+  return splitKeepingSeparator(text, separator).flatMap(piece =>
+    measure(piece) <= chunkSize || rest.length === 0 ? [piece] : splitRecursively(piece, chunkSize, measure, rest));
+}
+
+/**
+ * 把小片段依次打包为不超过 chunkSize 的分块，相邻分块保留末尾不超过 chunkOverlap 的片段作为重叠
+ */
+function packPieces(pieces: string[], chunkSize: number, chunkOverlap: number, measure: (text: string) => number): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentSize = 0;
+  // 当前分块是否有重叠以外的新内容
+  let hasNewPiece = false;
+
+  const flush = () => {
+    const text = current.join('').trim();
+    if (text) chunks.push(text);
+
+    // 从末尾保留重叠片段，作为下一个分块的开头
+    const overlap: string[] = [];
+    let overlapSize = 0;
+    for (let i = current.length - 1; i > 0; i--) {
+      const size = measure(current[i]);
+      if (overlapSize + size > chunkOverlap) break;
+      overlap.unshift(current[i]);
+      overlapSize += size;
+    }
+    current = overlap;
+    currentSize = overlapSize;
+    hasNewPiece = false;
+  };
+
+  pieces.forEach(piece => {
+    const size = measure(piece);
+    if (current.length > 0 && currentSize + size > chunkSize) {
+      flush();
+      // 重叠部分加上新片段仍然放不下时放弃重叠
+      if (currentSize + size > chunkSize) {
+        current = [];
+        currentSize = 0;
+      }
+    }
+    current.push(piece);
+    currentSize += size;
+    hasNewPiece = true;
+  });
+
+  if (hasNewPiece) {
+    flush();
+  }
+
+  return chunks;
+}
+
+/**
+ * 切句：中文句末标点、英文句末标点（后跟空白）与换行都视为句子边界
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = match.index! + match[0].length;
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) {
+    sentences.push(text.slice(start));
+  }
+
+  return sentences;
+}
+
+/**
+ * 按策略切分一段文本
+ */
+function splitText(text: string, config: ChunkingConfig): string[] {
+  const measure = getMeasure(config.strategy);
+
+  const pieces = config.strategy === 'sentence'
+    // 超长的句子退回递归切分
+    ? splitSentences(text).flatMap(sentence => splitRecursively(sentence, config.chunkSize, measure))
+    : splitRecursively(text, config.chunkSize, measure);
+
+  return packPieces(pieces, config.chunkSize, config.chunkOverlap, measure);
+}
+
+/**
+ * 合并同一页（同一工作表）中相邻的小章节，合并后沿用第一段的章节（heading 策略不合并，保持章节边界）
+ */
+function mergeSmallSections(sections: ChunkData[], config: ChunkingConfig): ChunkData[] {
+  const measure = getMeasure(config.strategy);
+  const merged: ChunkData[] = [];
+
+  sections.forEach(section => {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      previous.metadata.page_number === section.metadata.page_number &&
+      previous.metadata.sheet_name === section.metadata.sheet_name &&
+      measure(previous.text) < config.chunkSize / 2 &&
+      measure(previous.text) + measure(section.text) + 2 <= config.chunkSize
+    ) {
+      merged[merged.length - 1] = { ...previous, text: `${previous.text}\n\n${section.text}` };
+    } else {
+      merged.push(section);
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * 将原始分块切分为入库的文档块
+ * 文档块不会跨页，页码和章节取自所在的原始分块
+ * @param sections 解析得到的原始分块
+ * @param config 分块配置
+ * @returns 文档块数组
+ */
+export function chunkDocument(sections: ChunkData[], config: ChunkingConfig = resolveChunkingConfig()): ChunkData[] {
+  console.log(`✂️ 开始分块: 策略 ${config.strategy}，大小 ${config.chunkSize}，重叠 ${config.chunkOverlap}`);
+  console.log('- 原始分块数量:', sections.length);
+
+  const units = config.strategy === 'heading'
+    ? sections
+    : mergeSmallSections(sections.filter(section => section.text.trim()), config);
+
+  const chunks: ChunkData[] = units.flatMap(unit =>
+    splitText(unit.text, config).map(text => ({
+      text,
+      metadata: { ...unit.metadata, chunking_strategy: config.strategy }
+    })));
+
+  console.log('✅ 分块完成');
+  console.log('- 分块数量:', chunks.length);
+  if (chunks.length > 0) {
+    console.log('- 平均分块长度:', Math.round(chunks.reduce((sum, chunk) => sum + chunk.text.length, 0) / chunks.length));
+  }
+
+  return chunks;
+}
+
+/**
+ * 将纯文本切分为文档块；heading 策略下先按 Markdown 标题拆分章节
+ * @param content 文本内容
+ * @param source 来源名称（写入分块元数据）
+ * @param config 分块配置
+ * @returns 文档块数组
+ */
+export function chunkPlainText(content: string, source: string, config: ChunkingConfig = resolveChunkingConfig()): ChunkData[] {
+  const sections = config.strategy === 'heading'
+    ? parseMarkdownSections(content, source)
+    : [{ text: content, metadata: { source, page_number: null, section: null } }];
+
+  return chunkDocument(sections, config);
+}
\ No newline at end of file
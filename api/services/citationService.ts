@@ -0,0 +1,120 @@
+/**
+ * 引用服务
+ * 为检索到的文档块编号，生成回答中 [n] 标记对应的分块级来源信息
+ */
+
+/**
+ * 回答中的一条引用
+ */
+export interface Citation {
+  index: number;
+  document_id: string;
+  title: string;
+  chunk_id: string;
+  chunk_index: number;
+  /** 片段的最后一个 chunk_index（扩展或合并了相邻块时大于 chunk_index） */
+  chunk_index_end: number;
+  page_number: number | null;
+  section: string | null;
+  score: number;
+  /** 混合检索分数 */
+  hybrid_score: number | null;
+  /** 重排序分数（未启用重排序时为 null） */
+  rerank_score: number | null;
+  content: string;
+}
+
+/**
+ * 生成引用所需的检索结果字段（向量搜索、关键词搜索或混合搜索结果）
+ */
+export interface CitationChunk {
+  id: string;
+  content: string;
+  document_id?: string;
+  chunk_index?: number;
+  documents?: { id?: string; title?: string } | null;
+  metadata?: unknown;
+  hybrid_score?: number;
+  similarity?: number;
+  keyword_score?: number;
+  rerank_score?: number;
+  /** 扩展相邻块后片段覆盖的 chunk_index 范围 */
+  chunk_range?: { start: number; end: number };
+}
+
+/**
+ * 分块元数据（入库时以JSON字符串写入 jsonb 列，读取时可能是字符串也可能是对象）
+ */
+export interface ChunkMetadata {
+  source?: string;
+  /** 页码，非分页格式为空 */
+  page_number?: number | null;
+  section?: string | null;
+  /** 工作表名称（xlsx） */
+  sheet_name?: string | null;
+  [key: string]: unknown;
+}
+
+/**
+ * 解析分块元数据
+ * @param metadata 数据库中的 metadata 字段
+ * @returns 元数据对象，无法解析时返回空对象
+ */
+export function parseChunkMetadata(metadata: unknown): ChunkMetadata {
+  if (!metadata) {
+    return {};
+  }
+
+  if (typeof metadata === 'string') {
+    try {
+      const parsed = JSON.parse(metadata);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  return typeof metadata === 'object' ? metadata as ChunkMetadata : {};
+}
+
+/**
+ * 为检索结果生成引用列表，编号与提示词中的 [n] 一一对应
+ * @param chunks 检索到的文档块（向量搜索、关键词搜索或混合搜索结果）
+ * @returns 引用数组
+ */
+export function buildCitations(chunks: CitationChunk[]): Citation[] {
+  return chunks.map((chunk, i) => {
+    const metadata = parseChunkMetadata(chunk.metadata);
+
+    return {
+      index: i + 1,
+      document_id: chunk.document_id || chunk.documents?.id || '',
+      title: chunk.documents?.title || '未知文档',
+      chunk_id: chunk.id,
+      chunk_index: chunk.chunk_range?.start ?? chunk.chunk_index ?? 0,
+      chunk_index_end: chunk.chunk_range?.end ?? chunk.chunk_index ?? 0,
+      page_number: metadata.page_number ?? null,
+      section: metadata.section ?? null,
+      score: chunk.hybrid_score ?? chunk.similarity ?? chunk.keyword_score ?? 0,
+      hybrid_score: chunk.hybrid_score ?? null,
+      rerank_score: chunk.rerank_score ?? null,
+      content: chunk.content
+    };
+  });
+}
+
+/**
+ * 将引用格式化为带编号的上下文文本，供RAG提示词使用
+ * @param citations 引用数组
+ * @returns 上下文文本
+ */
+export function formatCitationContext(citations: Citation[]): string {
+  return citations.map(citation => {
+    const location = [
+      citation.page_number ? `第${citation.page_number}页` : null,
+      citation.section ? `章节：${citation.section}` : null
+    ].filter(Boolean).join('，');
+
+    return `[${citation.index}] 文档《${citation.title}》${location ? `（${location}）` : ''}：\n${citation.content}`;
+  }).join('\n\n');
+}
\ No newline at end of file
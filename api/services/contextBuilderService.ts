@@ -0,0 +1,310 @@
+/**
+ * 上下文构建服务
+ * 按模型上下文窗口分配 token 预算（使用 o200k_base 分词器计数），组装 RAG 提示词：
+ * - 同一文档中相邻（chunk_index 连续）的文档块合并为一段，去掉分块重叠部分
+ * - 文档片段按相关性依次放入，超出预算时截断最后一段并丢弃其余片段
+ * - 对话历史从最近的消息开始保留，放不下的早期消息被丢弃（当前问题始终保留）
+ */
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import { ChatMessage, getModelContextLength } from './openrouterService.js';
+import { buildCitations, formatCitationContext, Citation, CitationChunk } from './citationService.js';
+
+/**
+ * 参与上下文构建的文档块（检索结果的最小结构）
+ */
+export interface ContextChunk extends CitationChunk {
+  /** 扩展相邻块后片段包含的文档块ID */
+  chunk_ids?: string[];
+}
+
+/**
+ * 合并后的上下文片段
+ */
+export interface ContextPassage<T extends ContextChunk> {
+  /** 片段包含的文档块（按 chunk_index 升序） */
+  chunks: T[];
+  /** 合并后的文本 */
+  content: string;
+}
+
+/**
+ * 上下文构建选项
+ */
+export interface BuildChatContextOptions<T extends ContextChunk> {
+  /** 模型ID，用于确定上下文窗口 */
+  model: string;
+  /** 按相关性降序排列的检索结果 */
+  chunks: T[];
+  /** 客户端传入的对话消息（最后一条用户消息为当前问题） */
+  messages: ChatMessage[];
+  /** 为回答预留的 token 数 */
+  maxTokens: number;
+  /** 根据上下文文本生成系统提示词 */
+  buildSystemPrompt: (contextText: string) => string;
+}
+
+/**
+ * 上下文构建结果
+ */
+export interface ChatContext<T extends ContextChunk> {
+  /** 发送给模型的完整消息（系统提示词 + 保留的对话历史） */
+  messages: ChatMessage[];
+  /** 与提示词编号一一对应的引用 */
+  citations: Citation[];
+  /** 实际放入提示词的片段 */
+  passages: ContextPassage<T>[];
+  /** 上下文统计信息 */
+  usage: {
+    contextLength: number;
+    promptTokens: number;
+    contextTokens: number;
+    droppedChunks: number;
+    droppedMessages: number;
+  };
+}
+
+/**
+ * 每条消息的格式开销（角色标记等）
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * 为分词差异预留的比例：token 数按 OpenAI 的 o200k_base 分词器计算，
+ * 其他厂商模型的分词结果会有出入（中文文本尤其明显），因此预留较大余量
+ */
+const SAFETY_MARGIN_RATIO = 0.15;
+
+/**
+ * 文档片段最多占用的输入预算比例，其余留给对话历史
+ */
+const CONTEXT_BUDGET_RATIO = 0.7;
+
+/**
+ * 截断后片段的最小 token 数，低于此值时直接丢弃
+ */
+const MIN_PASSAGE_TOKENS = 100;
+
+/**
+ * 判定为分块重叠的最小重叠字符数
+ */
+const MIN_OVERLAP_CHARS = 20;
+
+/**
+ * 分词器（首次计数时加载词表）
+ */
+let tokenizer: Tiktoken | null = null;
+
+function getTokenizer(): Tiktoken {
+  if (!tokenizer) {
+    tokenizer = new Tiktoken(o200kBase);
+  }
+  return tokenizer;
+}
+
+/**
+ * 计算文本的 token 数
+ * @param text 文本
+ * @returns token 数
+ */
+export function countTokens(text: string): number {
+  if (!text) return 0;
+  return getTokenizer().encode(text).length;
+}
+
+/**
+ * 计算一组消息的 token 数（含每条消息的格式开销）
+ */
+export function countMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + countTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * 截取文本开头不超过 maxTokens 个 token 的部分
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const tokens = getTokenizer().encode(text);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+  // 截断位置可能落在多字节字符中间，去掉解码出的不完整字符
+  return getTokenizer().decode(tokens.slice(0, Math.max(0, maxTokens))).replace(/\uFFFD+$/, '');
+}
+
+/**
+ * 拼接相邻文档块，去掉后一块开头与前一块结尾重复的部分
+ */
+export function joinAdjacentContent(previous: string, next: string): string {
+  const maxOverlap = Math.min(previous.length, next.length);
+  for (let size = maxOverlap; size >= MIN_OVERLAP_CHARS; size--) {
+    if (previous.endsWith(next.slice(0, size))) {
+      return previous + next.slice(size);
+    }
+  }
+  return `${previous}\n${next}`;
+}
+
+/**
+ * 文档块覆盖的 chunk_index 范围（扩展过相邻块时为整个窗口）
+ */
+function getChunkRange(chunk: ContextChunk): { start: number; end: number } | null {
+  if (chunk.chunk_range) return chunk.chunk_range;
+  return chunk.chunk_index !== undefined ? { start: chunk.chunk_index, end: chunk.chunk_index } : null;
+}
+
+/**
+ * 合并同一文档中 chunk_index 连续的文档块（与检索结果的先后顺序无关）
+ * 片段顺序按其中排名最靠前的文档块决定
+ * @param chunks 按相关性降序排列的文档块
+ * @returns 合并后的片段
+ */
+export function mergeAdjacentChunks<T extends ContextChunk>(chunks: T[]): ContextPassage<T>[] {
+  const groups: Array<{ rank: number; chunks: T[] }> = [];
+  const byDocument = new Map<string, Array<{ rank: number; chunk: T; range: { start: number; end: number } }>>();
+
+  chunks.forEach((chunk, rank) => {
+    const documentId = chunk.document_id || chunk.documents?.id;
+    const range = getChunkRange(chunk);
+    if (documentId === undefined || !range) {
+      groups.push({ rank, chunks: [chunk] });
+      return;
+    }
+    byDocument.set(documentId, [...(byDocument.get(documentId) || []), { rank, chunk, range }]);
+  });
+
+  // 每个文档内按 chunk_index 排序后合并连续的文档块
+  byDocument.forEach(items => {
+    items.sort((a, b) => a.range.start - b.range.start);
+    let current: { rank: number; chunks: T[]; end: number } | null = null;
+    for (const item of items) {
+      if (current && current.end + 1 === item.range.start) {
+        current.chunks.push(item.chunk);
+        current.rank = Math.min(current.rank, item.rank);
+        current.end = item.range.end;
+        continue;
+      }
+      if (current) groups.push(current);
+      current = { rank: item.rank, chunks: [item.chunk], end: item.range.end };
+    }
+    if (current) groups.push(current);
+  });
+
+  return groups
+    .sort((a, b) => a.rank - b.rank)
+    .map(group => ({
+      chunks: group.chunks,
+      content: group.chunks.slice(1).reduce((content, chunk) => joinAdjacentContent(content, chunk.content), group.chunks[0].content)
+    }));
+}
+
+/**
+ * 将片段转换为引用使用的文档块：取片段中第一个文档块的位置信息、覆盖的完整范围和排名最高的分数
+ */
+function toCitationChunk<T extends ContextChunk>(passage: ContextPassage<T>, content: string): T {
+  const [first] = passage.chunks;
+  if (passage.chunks.length === 1 && content === first.content) {
+    return first;
+  }
+
+  const best = (key: 'hybrid_score' | 'similarity' | 'rerank_score') => {
+    const scores = passage.chunks.map(chunk => chunk[key]).filter((score): score is number => typeof score === 'number');
+    return scores.length > 0 ? Math.max(...scores) : undefined;
+  };
+
+  const ranges = passage.chunks.map(getChunkRange).filter((range): range is { start: number; end: number } => range !== null);
+  const chunk_range = ranges.length > 0
+    ? { start: Math.min(...ranges.map(range => range.start)), end: Math.max(...ranges.map(range => range.end)) }
+    : undefined;
+
+  return { ...first, content, chunk_range, hybrid_score: best('hybrid_score'), similarity: best('similarity'), rerank_score: best('rerank_score') };
+}
+
+/**
+ * 按 token 预算构建聊天上下文
+ * @param options 构建选项
+ * @returns 完整消息、引用及统计信息
+ */
+export function buildChatContext<T extends ContextChunk>(options: BuildChatContextOptions<T>): ChatContext<T> {
+  const { model, chunks, messages, maxTokens, buildSystemPrompt } = options;
+
+  const contextLength = getModelContextLength(model);
+  const inputBudget = Math.max(0, Math.floor(contextLength * (1 - SAFETY_MARGIN_RATIO)) - maxTokens);
+
+  const conversation = messages.filter(message => message.role !== 'system');
+  const lastUserIndex = conversation.map(message => message.role).lastIndexOf('user');
+  const currentTurn = lastUserIndex >= 0 ? conversation.slice(lastUserIndex) : conversation.slice(-1);
+  const history = lastUserIndex >= 0 ? conversation.slice(0, lastUserIndex) : conversation.slice(0, -1);
+
+  // 系统提示词模板与当前问题必须放入
+  const fixedTokens = countMessageTokens([{ role: 'system', content: buildSystemPrompt('') }, ...currentTurn]);
+  const contextBudget = Math.floor(Math.max(0, inputBudget - fixedTokens) * CONTEXT_BUDGET_RATIO);
+
+  // 依次放入文档片段
+  const passages = mergeAdjacentChunks(chunks);
+  const selected: ContextPassage<T>[] = [];
+  const citationChunks: T[] = [];
+  let contextTokens = 0;
+
+  for (const passage of passages) {
+    const citationChunk = toCitationChunk(passage, passage.content);
+    // 片段之间以空行分隔
+    const tokens = countTokens(formatCitationContext(buildCitations([citationChunk]))) + 2;
+
+    if (contextTokens + tokens <= contextBudget) {
+      selected.push(passage);
+      citationChunks.push(citationChunk);
+      contextTokens += tokens;
+      continue;
+    }
+
+    // 放不下时按剩余预算截断这一段，之后的片段全部丢弃
+    const remaining = contextBudget - contextTokens;
+    if (remaining >= MIN_PASSAGE_TOKENS) {
+      const headerTokens = tokens - countTokens(passage.content);
+      // 预留省略号的 token
+      const kept = truncateToTokens(passage.content, remaining - headerTokens - 2);
+      if (kept) {
+        const truncated = `${kept}……`;
+        selected.push({ ...passage, content: truncated });
+        citationChunks.push(toCitationChunk(passage, truncated));
+        contextTokens += remaining;
+      }
+    }
+    break;
+  }
+
+  const citations = buildCitations(citationChunks);
+  const systemPrompt = buildSystemPrompt(formatCitationContext(citations));
+  const systemMessage: ChatMessage = { role: 'system', content: systemPrompt };
+
+  // 从最近的历史消息开始保留
+  let promptTokens = countMessageTokens([systemMessage, ...currentTurn]);
+  const keptHistory: ChatMessage[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = countMessageTokens([history[i]]);
+    if (promptTokens + tokens > inputBudget) break;
+    keptHistory.unshift(history[i]);
+    promptTokens += tokens;
+  }
+
+  const droppedChunks = chunks.length - selected.reduce((sum, passage) => sum + passage.chunks.length, 0);
+  const droppedMessages = history.length - keptHistory.length;
+
+  console.log(`🧮 上下文预算: 窗口 ${contextLength}，输入上限 ${inputBudget}，文档 ${contextTokens}/${contextBudget}，提示词约 ${promptTokens} tokens`);
+  if (droppedChunks > 0 || droppedMessages > 0) {
+    console.log(`✂️ 超出预算: 丢弃 ${droppedChunks} 个文档块、${droppedMessages} 条历史消息`);
+  }
+
+  return {
+    messages: [systemMessage, ...keptHistory, ...currentTurn],
+    citations,
+    passages: selected,
+    usage: {
+      contextLength,
+      promptTokens,
+      contextTokens,
+      droppedChunks,
+      droppedMessages
+    }
+  };
+}
\ No newline at end of file
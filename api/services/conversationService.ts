@@ -0,0 +1,145 @@
+import { supabaseAdmin } from '../lib/supabase.js';
+import type { RetrievalMode } from './searchService.js';
+
+/**
+ * 对话标题最大长度
+ */
+const MAX_TITLE_LENGTH = 30;
+
+/**
+ * 检索到的来源文档块（用于写入 message_sources）
+ */
+export interface RetrievedChunkRef {
+  id: string;
+  hybrid_score?: number;
+  similarity?: number;
+  /** 回答中的引用编号，合并为同一段的文档块共用一个编号（不传时按顺序编号） */
+  citation_index?: number;
+}
+
+/**
+ * 助手回答的检索情况（写入 messages，供界面展示回答来源）
+ */
+export interface AnswerRetrievalInfo {
+  retrievalMode: RetrievalMode;
+  /** 回答是否基于检索到的知识库内容 */
+  grounded: boolean;
+}
+
+/**
+ * 确保对话存在：校验已有对话的所有权，或为首个问题创建新对话
+ * @param userId 用户ID
+ * @param conversationId 已有对话ID（可选）
+ * @param firstQuestion 用于生成新对话标题的问题
+ * @returns 对话ID；对话不存在或无权限时返回 null
+ */
+export async function ensureConversation(userId: string, conversationId: string | undefined, firstQuestion: string): Promise<string | null> {
+  if (conversationId) {
+    const { data: conversation, error } = await supabaseAdmin
+      .from('conversations')
+      .select('id')
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !conversation) {
+      console.warn('⚠️ 对话不存在或无权限:', conversationId);
+      return null;
+    }
+
+    return conversation.id;
+  }
+
+  const title = firstQuestion.trim().replace(/\s+/g, ' ');
+  const { data: conversation, error } = await supabaseAdmin
+    .from('conversations')
+    .insert({
+      user_id: userId,
+      title: title.length > MAX_TITLE_LENGTH ? `${title.substring(0, MAX_TITLE_LENGTH)}...` : title || '新对话'
+    })
+    .select('id')
+    .single();
+
+  if (error || !conversation) {
+    console.error('❌ 创建对话失败:', error);
+    throw new Error('创建对话失败');
+  }
+
+  console.log('✅ 已创建新对话:', conversation.id);
+  return conversation.id;
+}
+
+/**
+ * 保存一轮问答：用户消息、助手消息及助手消息引用的文档块
+ * messages 表中 question 保存用户问题，answer 保存助手回答
+ * chunks 的顺序即引用编号顺序
+ * @param conversationId 对话ID
+ * @param question 用户问题
+ * @param answer 助手回答
+ * @param chunks 检索到的文档块
+ * @param answerInfo 回答的检索情况（可选）
+ * @returns 助手消息ID
+ */
+export async function saveConversationTurn(conversationId: string, question: string, answer: string, chunks: RetrievedChunkRef[], answerInfo?: AnswerRetrievalInfo): Promise<string> {
+  console.log('💾 保存对话消息...');
+
+  const { error: userMessageError } = await supabaseAdmin
+    .from('messages')
+    .insert({
+      conversation_id: conversationId,
+      question,
+      answer: '',
+      role: 'user'
+    });
+
+  if (userMessageError) {
+    console.error('❌ 保存用户消息失败:', userMessageError);
+    throw new Error('保存用户消息失败');
+  }
+
+  const { data: assistantMessage, error: assistantMessageError } = await supabaseAdmin
+    .from('messages')
+    .insert({
+      conversation_id: conversationId,
+      question,
+      answer,
+      role: 'assistant',
+      retrieval_mode: answerInfo?.retrievalMode ?? null,
+      grounded: answerInfo?.grounded ?? null
+    })
+    .select('id')
+    .single();
+
+  if (assistantMessageError || !assistantMessage) {
+    console.error('❌ 保存助手消息失败:', assistantMessageError);
+    throw new Error('保存助手消息失败');
+  }
+
+  if (chunks.length > 0) {
+    const { error: sourcesError } = await supabaseAdmin
+      .from('message_sources')
+      .insert(chunks.map((chunk, i) => ({
+        message_id: assistantMessage.id,
+        chunk_id: chunk.id,
+        similarity_score: chunk.hybrid_score ?? chunk.similarity ?? 0,
+        citation_index: chunk.citation_index ?? i + 1 // 与回答中的 [n] 标记对应
+      })));
+
+    if (sourcesError) {
+      console.error('❌ 保存消息来源失败:', sourcesError);
+    }
+  }
+
+  // 更新对话的 updated_at，使其排在历史列表最前
+  const { error: touchError } = await supabaseAdmin
+    .from('conversations')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', conversationId);
+
+  if (touchError) {
+    console.error('❌ 更新对话时间失败:', touchError);
+  }
+
+  console.log('✅ 对话消息保存完成');
+  return assistantMessage.id;
+}
\ No newline at end of file
@@ -0,0 +1,459 @@
+/**
+ * 本地文档解析服务
+ * 在进程内解析上传文件，不依赖外部 RAG 分块服务：
+ * - pdf：逐页提取文本，page_number 为页码
+ * - docx：转换为 HTML 后按标题切分，section 为标题路径
+ * - markdown / html：按标题切分，section 为标题路径
+ * - csv / xlsx：按行分组，每行附带表头，section 为工作表与行号范围，sheet_name 为工作表名称
+ * - json：展开为“路径: 值”形式，section 为顶层字段
+ * 只有 PDF 有页码，其余格式的 page_number 为 null
+ * 解析结果为原始分块，仍需经过 chunkDocument 切分
+ */
+import { extractText } from 'unpdf';
+import mammoth from 'mammoth';
+import ExcelJS from 'exceljs';
+import type { ChunkData } from './documentProcessingService.js';
+
+/**
+ * 支持的文档格式
+ */
+export type DocumentFormat = 'pdf' | 'docx' | 'doc' | 'text' | 'markdown' | 'html' | 'csv' | 'xlsx' | 'json';
+
+/**
+ * 扩展名与文档格式的对应关系（优先于 MIME 类型判断，浏览器常把 .md、.csv 报告为通用类型）
+ */
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  doc: 'doc',
+  txt: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  csv: 'csv',
+  xlsx: 'xlsx',
+  json: 'json'
+};
+
+/**
+ * MIME 类型与文档格式的对应关系
+ */
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/msword': 'doc',
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'text/csv': 'csv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/json': 'json'
+};
+
+/**
+ * 表格与 JSON 每个原始分块的最大字符数（按整行分组，避免一行被截断）
+ */
+const MAX_GROUP_CHARS = 1000;
+
+/**
+ * 判断文件的文档格式
+ * @param file 上传的文件（文件名与 MIME 类型）
+ * @returns 文档格式，不支持时返回 null
+ */
+export function detectDocumentFormat(file: { originalname: string; mimetype: string }): DocumentFormat | null {
+  const extension = file.originalname.split('.').pop()?.toLowerCase();
+  if (extension && Object.prototype.hasOwnProperty.call(EXTENSION_FORMATS, extension)) {
+    return EXTENSION_FORMATS[extension];
+  }
+  return Object.prototype.hasOwnProperty.call(MIME_FORMATS, file.mimetype) ? MIME_FORMATS[file.mimetype] : null;
+}
+
+/**
+ * 判断是否有本地解析器（旧版 .doc 只能交给 RAG 分块服务）
+ */
+export function hasLocalParser(format: DocumentFormat): boolean {
+  return format !== 'doc';
+}
+
+/**
+ * 解码文本文件，去掉 UTF-8 BOM
+ */
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf-8').replace(/^\uFEFF/, '');
+}
+
+/**
+ * 将若干行按字符上限分组，每组返回起止行号（从 0 开始）
+ */
+function groupLines(lines: string[], maxChars: number = MAX_GROUP_CHARS): { text: string; first: number; last: number }[] {
+  const groups: { text: string; first: number; last: number }[] = [];
+  let current: string[] = [];
+  let first = 0;
+  let length = 0;
+
+  lines.forEach((line, i) => {
+    if (current.length > 0 && length + line.length + 1 > maxChars) {
+      groups.push({ text: current.join('\n'), first, last: i - 1 });
+      current = [];
+      length = 0;
+    }
+    if (current.length === 0) first = i;
+    current.push(line);
+    length += line.length + 1;
+  });
+
+  if (current.length > 0) {
+    groups.push({ text: current.join('\n'), first, last: lines.length - 1 });
+  }
+  return groups;
+}
+
+/**
+ * 按标题层级维护标题路径（如“第一章 > 1.1 背景”）
+ */
+class HeadingTrail {
+  private headings: { level: number; text: string }[] = [];
+
+  push(level: number, text: string) {
+    this.headings = this.headings.filter(heading => heading.level < level);
+    this.headings.push({ level, text });
+  }
+
+  get section(): string | null {
+    return this.headings.length > 0 ? this.headings.map(heading => heading.text).join(' > ') : null;
+  }
+}
+
+/**
+ * 解析 PDF：每页一个原始分块
+ */
+async function parsePdf(buffer: Buffer, source: string): Promise<ChunkData[]> {
+  const { totalPages, text } = await extractText(new Uint8Array(buffer), { mergePages: false });
+  console.log('- PDF页数:', totalPages);
+
+  return text
+    .map((pageText, i) => ({
+      text: pageText.replace(/[ \t]+\n/g, '\n').trim(),
+      metadata: { source, page_number: i + 1, section: null }
+    }))
+    .filter(chunk => chunk.text.length > 0);
+}
+
+/**
+ * 解码常见的 HTML 实体
+ */
+function decodeHtmlEntities(text: string): string {
+  const named: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * 将 HTML 片段转换为纯文本，保留段落与列表的换行
+ */
+function htmlToText(html: string): string {
+  return decodeHtmlEntities(html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|tr|table|ul|ol|blockquote|pre|section|article|h[1-6])>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, ''))
+    .replace(/[ \t\u00a0]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 按 h1-h6 标题切分 HTML，每个标题下的内容为一个原始分块
+ */
+function parseHtmlSections(html: string, source: string): ChunkData[] {
+  const body = html
+    .replace(/<(script|style|noscript|head|template)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  const chunks: ChunkData[] = [];
+  const trail = new HeadingTrail();
+  const headingPattern = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const pushSection = (fragment: string) => {
+    const text = htmlToText(fragment);
+    if (text) {
+      chunks.push({ text, metadata: { source, page_number: null, section: trail.section } });
+    }
+  };
+
+  while ((match = headingPattern.exec(body)) !== null) {
+    pushSection(body.slice(lastIndex, match.index));
+    trail.push(parseInt(match[1], 10), htmlToText(match[2]).replace(/\s+/g, ' '));
+    // 标题保留在正文中，便于检索
+    lastIndex = match.index;
+  }
+  pushSection(body.slice(lastIndex));
+
+  return chunks;
+}
+
+/**
+ * 解析 DOCX：转换为 HTML 后按标题切分
+ */
+async function parseDocx(buffer: Buffer, source: string): Promise<ChunkData[]> {
+  const { value: html, messages } = await mammoth.convertToHtml({ buffer });
+  if (messages.length > 0) {
+    console.log(`- DOCX转换提示 ${messages.length} 条`);
+  }
+  return parseHtmlSections(html, source);
+}
+
+/**
+ * 解析 Markdown：按 # 标题切分（忽略代码块中的 #）
+ * @param markdown Markdown 文本
+ * @param source 来源名称
+ * @returns 每个标题章节一个原始分块
+ */
+export function parseMarkdownSections(markdown: string, source: string): ChunkData[] {
+  const chunks: ChunkData[] = [];
+  const trail = new HeadingTrail();
+  let lines: string[] = [];
+  let inCodeBlock = false;
+
+  const pushSection = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      chunks.push({ text, metadata: { source, page_number: null, section: trail.section } });
+    }
+    lines = [];
+  };
+
+  markdown.split(/\r?\n/).forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const heading = inCodeBlock ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      pushSection();
+      trail.push(heading[1].length, heading[2]);
+    }
+    // 标题行保留在正文中，便于检索
+    lines.push(line);
+  });
+  pushSection();
+
+  return chunks;
+}
+
+/**
+ * 解析 CSV（支持引号内的逗号与换行）
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * 将表格行转换为原始分块：每行写成“表头: 值”，按字符上限分组
+ * @param rows 表格行（第一行为表头）
+ * @param source 来源名称
+ * @param sheetName 工作表名称（CSV 为空）
+ */
+function tableToChunks(rows: string[][], source: string, sheetName: string | null): ChunkData[] {
+  if (rows.length === 0) return [];
+
+  const [header, ...dataRows] = rows;
+  const columns = header.map((name, i) => name.trim() || `列${i + 1}`);
+  const lines = dataRows.map(cells => cells
+    .map((cell, i) => (cell.trim() ? `${columns[i] ?? `列${i + 1}`}: ${cell.trim()}` : null))
+    .filter(Boolean)
+    .join(' | '));
+
+  // 只有表头时保留表头本身
+  if (lines.length === 0) {
+    return [{ text: columns.join(' | '), metadata: { source, page_number: null, section: sheetName, ...(sheetName ? { sheet_name: sheetName } : {}) } }];
+  }
+
+  // 行号按表格中的实际行计算（表头为第 1 行）
+  return groupLines(lines).map(group => ({
+    text: group.text,
+    metadata: {
+      source,
+      page_number: null,
+      section: `${sheetName ? `${sheetName} ` : ''}第${group.first + 2}-${group.last + 2}行`,
+      ...(sheetName ? { sheet_name: sheetName } : {})
+    }
+  }));
+}
+
+/**
+ * 读取 Excel 单元格的显示文本
+ */
+function cellToText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return String(value.text);
+  if ('result' in value) return value.result === undefined ? '' : cellToText(value.result as ExcelJS.CellValue);
+  if ('error' in value) return '';
+  return '';
+}
+
+/**
+ * 解析 XLSX：每个工作表按行分组，sheet_name 为工作表名称
+ */
+async function parseXlsx(buffer: Buffer, source: string): Promise<ChunkData[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const chunks: ChunkData[] = [];
+  workbook.worksheets.forEach(worksheet => {
+    const rows: string[][] = [];
+    worksheet.eachRow({ includeEmpty: false }, row => {
+      const cells: string[] = [];
+      for (let column = 1; column <= worksheet.columnCount; column++) {
+        cells.push(cellToText(row.getCell(column).value));
+      }
+      rows.push(cells);
+    });
+    chunks.push(...tableToChunks(rows, source, worksheet.name));
+  });
+
+  console.log('- 工作表数量:', workbook.worksheets.length);
+  return chunks;
+}
+
+/**
+ * 将 JSON 值展开为“路径: 值”行
+ */
+function flattenJson(value: unknown, path: string, lines: string[]) {
+  if (Array.isArray(value)) {
+    if (value.length === 0) lines.push(`${path}: []`);
+    value.forEach((item, i) => flattenJson(item, `${path}[${i}]`, lines));
+  } else if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) lines.push(`${path}: {}`);
+    entries.forEach(([key, item]) => flattenJson(item, path ? `${path}.${key}` : key, lines));
+  } else {
+    lines.push(`${path || '值'}: ${value === null ? 'null' : String(value)}`);
+  }
+}
+
+/**
+ * 解析 JSON：顶层为对象时每个字段一个 section，顶层为数组时每个元素一个 section
+ */
+function parseJson(text: string, source: string): ChunkData[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`JSON格式错误: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const entries: [string, unknown][] = Array.isArray(data)
+    ? data.map((item, i) => [`[${i}]`, item])
+    : data && typeof data === 'object'
+      ? Object.entries(data)
+      : [['', data]];
+
+  return entries.flatMap(([key, value]) => {
+    const lines: string[] = [];
+    flattenJson(value, key, lines);
+    return groupLines(lines).map(group => ({
+      text: group.text,
+      metadata: { source, page_number: null, section: key || null }
+    }));
+  });
+}
+
+/**
+ * 使用本地解析器提取文件内容为原始分块
+ * @param file 上传的文件
+ * @param format 文档格式（不传时根据文件名和 MIME 类型判断）
+ * @returns 原始分块数组
+ */
+export async function parseDocumentLocally(file: Express.Multer.File, format: DocumentFormat | null = detectDocumentFormat(file)): Promise<ChunkData[]> {
+  const source = file.originalname;
+  console.log(`📄 本地解析文件 (${format || '未知格式'})...`);
+
+  let chunks: ChunkData[];
+  switch (format) {
+    case 'pdf':
+      chunks = await parsePdf(file.buffer, source);
+      break;
+    case 'docx':
+      chunks = await parseDocx(file.buffer, source);
+      break;
+    case 'markdown':
+      chunks = parseMarkdownSections(decodeText(file.buffer), source);
+      break;
+    case 'html':
+      chunks = parseHtmlSections(decodeText(file.buffer), source);
+      break;
+    case 'csv':
+      chunks = tableToChunks(parseCsvRows(decodeText(file.buffer)), source, null);
+      break;
+    case 'xlsx':
+      chunks = await parseXlsx(file.buffer, source);
+      break;
+    case 'json':
+      chunks = parseJson(decodeText(file.buffer), source);
+      break;
+    case 'text':
+      chunks = [{ text: decodeText(file.buffer), metadata: { source, page_number: null, section: null } }];
+      break;
+    default:
+      throw new Error(`没有可用的本地解析器: ${format || file.mimetype}`);
+  }
+
+  chunks = chunks.filter(chunk => chunk.text.trim().length > 0);
+  if (chunks.length === 0) {
+    throw new Error('未能从文档中提取到有效的分块内容');
+  }
+
+  console.log('✅ 本地解析完成');
+  console.log('- 原始分块数量:', chunks.length);
+  return chunks;
+}
\ No newline at end of file
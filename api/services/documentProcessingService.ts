@@ -1,12 +1,20 @@
-import { generateDocumentEmbedding } from './embeddingService.js';
+import { detectDocumentFormat, hasLocalParser, parseDocumentLocally } from './documentParserService.js';
+import { chunkDocument, chunkPlainText, resolveChunkingConfig, ChunkingOptions, ChunkingStrategy } from './chunkingService.js';
+import { parseChunkMetadata } from './citationService.js';
+import { joinAdjacentContent } from './contextBuilderService.js';
 
 // 定义分块数据的接口
 export interface ChunkData {
   text: string;
   metadata: {
     source: string;
-    page_number: number;
+    /** 页码，只有 PDF 等分页格式才有 */
+    page_number: number | null;
     section: string | null;
+    /** 表格所在的工作表名称（xlsx） */
+    sheet_name?: string;
+    /** 生成该分块使用的分块策略 */
+    chunking_strategy?: ChunkingStrategy;
   };
 }
 
@@ -77,245 +85,108 @@ export async function callRagChunksService(file: Express.Multer.File): Promise<C
 }
 
 /**
- * 标准化文本块大小 - 合并过小的块，分割过大的块
+ * 将原始分块切分为入库的文档块
  * @param chunks 原始分块数组
- * @returns 标准化后的分块数组
+ * @param options 分块选项（可选，未指定的字段使用环境变量默认值）
+ * @returns 切分后的分块数组
  */
-export function normalizeChunks(chunks: ChunkData[]): ChunkData[] {
-  console.log('🔧 开始标准化文本块...');
-  console.log('- 原始分块数量:', chunks.length);
-  
-  const MIN_CHUNK_SIZE = 512;
-  const MAX_CHUNK_SIZE = 1024;
-  const normalizedChunks: ChunkData[] = [];
-  
-  let i = 0;
-  while (i < chunks.length) {
-    const currentChunk = chunks[i];
-    
-    // 如果当前块过大，需要分割
-    if (currentChunk.text.length > MAX_CHUNK_SIZE) {
-      console.log(`- 分割过大文本块 (${currentChunk.text.length} 字符)`);
-      
-      // 按最大尺寸分割文本
-      let start = 0;
-      let partIndex = 0;
-      
-      while (start < currentChunk.text.length) {
-        const end = Math.min(start + MAX_CHUNK_SIZE, currentChunk.text.length);
-        const partText = currentChunk.text.slice(start, end).trim();
-        
-        if (partText.length > 0) {
-          normalizedChunks.push({
-            text: partText,
-            metadata: {
-              ...currentChunk.metadata,
-              section: currentChunk.metadata.section ? 
-                `${currentChunk.metadata.section}_part${partIndex + 1}` : 
-                `part${partIndex + 1}`
-            }
-          });
-          partIndex++;
-        }
-        
-        start = end;
-      }
-      
-      i++;
-    }
-    // 如果当前块过小，尝试与后续块合并
-    else if (currentChunk.text.length < MIN_CHUNK_SIZE && i < chunks.length - 1) {
-      console.log(`- 合并过小文本块 (${currentChunk.text.length} 字符)`);
-      
-      let mergedText = currentChunk.text;
-      let mergedMetadata = currentChunk.metadata;
-      let j = i + 1;
-      
-      // 继续合并后续的小块，直到达到最小尺寸或没有更多块
-      while (j < chunks.length && mergedText.length < MIN_CHUNK_SIZE) {
-        const nextChunk = chunks[j];
-        const potentialMerged = mergedText + '\n\n' + nextChunk.text;
-        
-        // 如果合并后不会超过最大尺寸，则合并
-        if (potentialMerged.length <= MAX_CHUNK_SIZE) {
-          mergedText = potentialMerged;
-          j++;
-        } else {
-          break;
-        }
-      }
-      
-      normalizedChunks.push({
-        text: mergedText.trim(),
-        metadata: mergedMetadata
-      });
-      
-      i = j;
-    }
-    // 大小合适的块直接保留
-    else {
-      normalizedChunks.push(currentChunk);
-      i++;
-    }
-  }
-  
-  console.log('✅ 文本块标准化完成');
-  console.log('- 标准化后分块数量:', normalizedChunks.length);
-  console.log('- 平均分块长度:', Math.round(normalizedChunks.reduce((sum, chunk) => sum + chunk.text.length, 0) / normalizedChunks.length));
-  
-  // 验证所有块的大小
-  const oversizedChunks = normalizedChunks.filter(chunk => chunk.text.length > MAX_CHUNK_SIZE);
-  const undersizedChunks = normalizedChunks.filter(chunk => chunk.text.length < MIN_CHUNK_SIZE);
-  
-  if (oversizedChunks.length > 0) {
-    console.warn(`⚠️ 仍有 ${oversizedChunks.length} 个过大的文本块`);
-  }
-  if (undersizedChunks.length > 0) {
-    console.warn(`⚠️ 仍有 ${undersizedChunks.length} 个过小的文本块`);
-  }
-  
-  return normalizedChunks;
+export function normalizeChunks(chunks: ChunkData[], options?: ChunkingOptions): ChunkData[] {
+  return chunkDocument(chunks, resolveChunkingConfig(options));
 }
 
 /**
- * 提取文件内容并分块 - 使用新的 RAG 分块服务
- * @param file 上传的文件
- * @returns 分块数据数组
+ * 由已入库的文档块还原原始分块（用于重新处理没有保存原文件的文档）
+ * 相邻且页码、工作表、章节相同的文档块拼接为一段，并去掉分块重叠部分
+ * @param rows 按 chunk_index 升序排列的文档块
+ * @param source 来源名称（文档块元数据缺失时使用）
+ * @returns 原始分块数组
  */
-export async function extractFileContentAndChunks(file: Express.Multer.File): Promise<ChunkData[]> {
-  console.log('🔍 开始提取文件内容并分块...');
-  console.log('- 文件类型:', file.mimetype);
-  console.log('- 文件大小:', file.size, 'bytes');
-  
-  try {
-    let chunks: ChunkData[];
-    
-    switch (file.mimetype) {
-      case 'application/pdf':
-        console.log('📄 处理PDF文件 - 使用RAG分块服务...');
-        chunks = await callRagChunksService(file);
-        break;
-      
-      case 'text/plain':
-        console.log('📝 处理文本文件...');
-        const textContent = file.buffer.toString('utf-8');
-        console.log('✅ 文本文件处理完成');
-        console.log('- 文本长度:', textContent.length, '字符');
-        // 对于纯文本文件，创建单个分块
-        chunks = [{
-          text: textContent,
-          metadata: {
-            source: file.originalname,
-            page_number: 1,
-            section: null
-          }
-        }];
-        break;
-      
-      case 'application/msword':
-      case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-        console.log('📄 处理Word文档 - 使用RAG分块服务...');
-        chunks = await callRagChunksService(file);
-        break;
-      
-      default:
-        console.error('❌ 不支持的文件类型:', file.mimetype);
-        throw new Error('不支持的文件类型');
+export function rebuildSectionsFromChunks(rows: { content: string; metadata: unknown }[], source: string): ChunkData[] {
+  const sections: ChunkData[] = [];
+
+  rows.forEach(row => {
+    const metadata = parseChunkMetadata(row.metadata);
+    const pageNumber = metadata.page_number ?? null;
+    const sheetName = metadata.sheet_name ?? undefined;
+    const section = metadata.section ?? null;
+    const previous = sections[sections.length - 1];
+
+    if (
+      previous &&
+      previous.metadata.page_number === pageNumber &&
+      previous.metadata.sheet_name === sheetName &&
+      previous.metadata.section === section
+    ) {
+      previous.text = joinAdjacentContent(previous.text, row.content);
+    } else {
+      sections.push({
+        text: row.content,
+        metadata: { source: metadata.source || source, page_number: pageNumber, section, ...(sheetName ? { sheet_name: sheetName } : {}) }
+      });
     }
-    
-    // 对所有文件类型的分块进行标准化处理
-    const normalizedChunks = normalizeChunks(chunks);
-    
-    return normalizedChunks;
-  } catch (error) {
-    console.error('💥 文件内容提取异常:');
-    console.error('- 错误类型:', error?.constructor?.name || 'Unknown');
-    console.error('- 错误消息:', error instanceof Error ? error.message : String(error));
-    console.error('- 错误堆栈:', error instanceof Error ? error.stack : 'No stack trace');
-    throw new Error('文件内容提取失败');
-  }
+  });
+
+  return sections;
 }
 
 /**
- * 将文本分块
- * @param text 要分块的文本
- * @param chunkSize 分块大小
- * @param overlap 重叠大小
- * @returns 分块后的文本数组
+ * 文档解析方式
+ * - auto：配置了 UNSTRUCTURED_API_URL 时 PDF / Word 先交给 RAG 分块服务，失败后使用本地解析器；否则直接本地解析
+ * - local：只使用本地解析器
+ * - remote：PDF / Word 只使用 RAG 分块服务（其余格式仍在本地解析）
  */
-export function chunkText(text: string, chunkSize: number = 1000, overlap: number = 200): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-  
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    const chunk = text.slice(start, end);
-    chunks.push(chunk.trim());
-    
-    if (end === text.length) break;
-    start = end - overlap;
-  }
-  
-  return chunks.filter(chunk => chunk.length > 0);
+export type DocumentParserMode = 'auto' | 'local' | 'remote';
+
+/**
+ * 获取文档解析方式（DOCUMENT_PARSER 环境变量，默认 auto）
+ */
+export function getDocumentParserMode(): DocumentParserMode {
+  const mode = process.env.DOCUMENT_PARSER;
+  return mode === 'local' || mode === 'remote' ? mode : 'auto';
 }
 
 /**
- * 为文档分块生成向量并准备数据库插入数据
- * @param chunks 分块数组
- * @param documentId 文档ID
- * @returns 准备插入数据库的分块数据数组
+ * 提取文件内容为原始分块（未标准化）
+ * @param file 上传的文件
+ * @returns 原始分块数据数组
  */
-export async function generateChunkEmbeddings(chunks: ChunkData[], documentId: string) {
-  console.log('🔄 开始为文档块生成向量...');
-  const chunkData = [];
+export async function extractFileChunks(file: Express.Multer.File): Promise<ChunkData[]> {
+  const format = detectDocumentFormat(file);
+  if (!format) {
+    console.error('❌ 不支持的文件类型:', file.mimetype);
+    throw new Error('不支持的文件类型');
+  }
   
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    console.log(`- 处理第 ${i + 1}/${chunks.length} 个文档块...`);
-    console.log(`  - 分块长度: ${chunk.text.length} 字符`);
-    console.log(`  - 来源页面: ${chunk.metadata.page_number}`);
-    console.log(`  - 章节: ${chunk.metadata.section || '无'}`);
-    
-    const embedding = await generateDocumentEmbedding(chunk.text);
-    chunkData.push({
-      document_id: documentId,
-      content: chunk.text,
-      chunk_index: i,
-      embedding: embedding,
-      metadata: JSON.stringify(chunk.metadata) // 存储元数据
-    });
+  const mode = getDocumentParserMode();
+  const remoteFormat = format === 'pdf' || format === 'docx' || format === 'doc';
+  const useRemote = remoteFormat && (
+    mode === 'remote' ||
+    !hasLocalParser(format) ||
+    (mode === 'auto' && Boolean(process.env.UNSTRUCTURED_API_URL))
+  );
+  
+  if (useRemote) {
+    console.log(`📄 处理${format === 'pdf' ? 'PDF文件' : 'Word文档'} - 使用RAG分块服务...`);
+    try {
+      return await callRagChunksService(file);
+    } catch (error) {
+      if (mode === 'remote' || !hasLocalParser(format)) {
+        throw error;
+      }
+      console.warn('⚠️ RAG分块服务不可用，改用本地解析器');
+    }
   }
   
-  console.log('✅ 所有文档块向量生成完成');
-  return chunkData;
+  return await parseDocumentLocally(file, format);
 }
 
 /**
- * 处理文本文档的分块和向量生成
+ * 将文本文档分块
  * @param content 文本内容
- * @param title 文档标题
- * @param documentId 文档ID
- * @returns 准备插入数据库的分块数据数组
+ * @param source 来源名称（写入分块元数据）
+ * @param options 分块选项（可选）
+ * @returns 分块数据数组
  */
-export async function processTextDocument(content: string, title: string, documentId: string) {
-  console.log('🔄 开始处理文本文档...');
-  
-  // 对于文本文档，使用手动分块（因为不需要调用外部服务）
-  const textChunks = chunkText(content);
-  
-  // 转换为统一的分块格式
-  const rawChunks: ChunkData[] = textChunks.map(chunk => ({
-    text: chunk,
-    metadata: {
-      source: `${title}.txt`,
-      page_number: 1,
-      section: null
-    }
-  }));
-  
-  // 对文本块进行标准化处理
-  const chunks = normalizeChunks(rawChunks);
-  
-  // 生成向量
-  return await generateChunkEmbeddings(chunks, documentId);
+export function chunkTextDocument(content: string, source: string, options?: ChunkingOptions): ChunkData[] {
+  return chunkPlainText(content, source, resolveChunkingConfig(options));
 }
\ No newline at end of file
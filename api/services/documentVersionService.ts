@@ -0,0 +1,119 @@
+/**
+ * 文档版本服务
+ * 每次上传新文件都作为文档的新版本保存（document_versions），各版本有自己的文档块，
+ * 检索只使用当前版本（documents.active_version_id）的文档块，可对比任意两个版本并回滚
+ */
+import { diffLines } from 'diff';
+import { supabaseAdmin } from '../lib/supabase.js';
+
+/**
+ * 文档版本记录
+ */
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  version_number: number;
+  title: string;
+  file_url: string | null;
+  file_name: string | null;
+  file_type: string | null;
+  file_size: number | null;
+  content_hash: string | null;
+  chunk_count: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+/**
+ * 版本内容差异中的一段
+ */
+export interface VersionDiffChange {
+  type: 'added' | 'removed' | 'unchanged';
+  value: string;
+  /** 行数 */
+  count: number;
+}
+
+/**
+ * 两个版本的内容差异
+ */
+export interface VersionDiff {
+  changes: VersionDiffChange[];
+  stats: { added: number; removed: number; unchanged: number };
+}
+
+/**
+ * 版本列表查询字段（不含内容）
+ */
+const VERSION_COLUMNS = 'id, document_id, version_number, title, file_url, file_name, file_type, file_size, content_hash, chunk_count, created_by, created_at';
+
+/**
+ * 获取文档的全部版本
+ * @param documentId 文档ID
+ * @returns 版本列表，按版本号降序
+ */
+export async function listDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+  const { data, error } = await supabaseAdmin
+    .from('document_versions')
+    .select(VERSION_COLUMNS)
+    .eq('document_id', documentId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as DocumentVersion[];
+}
+
+/**
+ * 获取文档的指定版本（含内容）
+ * @returns 版本记录，不存在时返回 null
+ */
+export async function getDocumentVersion(documentId: string, versionId: string): Promise<(DocumentVersion & { content: string | null }) | null> {
+  const { data, error } = await supabaseAdmin
+    .from('document_versions')
+    .select(`${VERSION_COLUMNS}, content`)
+    .eq('document_id', documentId)
+    .eq('id', versionId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data as (DocumentVersion & { content: string | null }) | null;
+}
+
+/**
+ * 按行对比两个版本的内容
+ * @param fromContent 旧版本内容
+ * @param toContent 新版本内容
+ * @returns 差异片段与增删行数统计
+ */
+export function diffVersionContent(fromContent: string, toContent: string): VersionDiff {
+  const stats = { added: 0, removed: 0, unchanged: 0 };
+
+  const changes = diffLines(fromContent, toContent).map(change => {
+    const type = change.added ? 'added' : change.removed ? 'removed' : 'unchanged';
+    stats[type] += change.count;
+    return { type, value: change.value, count: change.count } as VersionDiffChange;
+  });
+
+  return { changes, stats };
+}
+
+/**
+ * 切换文档的当前版本（回滚），检索立即改用该版本的文档块
+ * @param documentId 文档ID
+ * @param versionId 版本ID
+ */
+export async function activateDocumentVersion(documentId: string, versionId: string): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('activate_document_version', {
+    target_document_id: documentId,
+    target_version_id: versionId
+  });
+
+  if (error) {
+    throw error;
+  }
+  console.log('⏪ 文档已切换到版本:', documentId, versionId);
+}
\ No newline at end of file
@@ -0,0 +1,346 @@
+/**
+ * 重复文档检测服务
+ * - 完全重复：上传文件（或规范化后的文本）的 SHA-256 与已有文档的 content_hash 相同
+ * - 高度相似：抽取新文档的若干分块生成向量，在用户已有文档中检索，
+ *   多数抽样分块都命中同一文档的近乎相同的分块时视为高度相似
+ * - 已有文档之间的相似文档对在导入时以同样的抽样方式预先计算（document_similarities）
+ */
+import crypto from 'crypto';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { generateEmbeddingsInBatches, getEmbeddingSignature, QUERY_EMBEDDING_INSTRUCT } from './embeddingService.js';
+
+/**
+ * 重复类型
+ */
+export type DuplicateMatchType = 'exact' | 'near';
+
+/**
+ * 上传时的重复处理方式：replace 用新内容替换已有文档，keepBoth 作为新文档保留
+ */
+export type DuplicateAction = 'replace' | 'keepBoth';
+
+/**
+ * 命中的已有文档
+ */
+export interface DuplicateDocument {
+  id: string;
+  title: string;
+  file_name: string | null;
+  created_at: string;
+  matchType: DuplicateMatchType;
+  /** 命中的抽样分块比例（完全重复时为 1） */
+  matchRatio: number;
+  /** 命中分块的平均相似度（完全重复时为 1） */
+  similarity: number;
+}
+
+/**
+ * 判定为近乎相同分块的向量相似度
+ */
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.92;
+
+/**
+ * 判定为高度相似文档的最低命中比例
+ */
+export const DUPLICATE_MATCH_RATIO = 0.6;
+
+/**
+ * 高度相似检测抽样的分块数量
+ */
+const DUPLICATE_SAMPLE_SIZE = 5;
+
+/**
+ * 判断是否为支持的重复处理方式
+ */
+export function isDuplicateAction(value: unknown): value is DuplicateAction {
+  return value === 'replace' || value === 'keepBoth';
+}
+
+/**
+ * 计算内容哈希（文本先统一换行并去掉首尾空白）
+ * @param content 文件内容或文本
+ * @returns SHA-256 十六进制字符串
+ */
+export function computeContentHash(content: Buffer | string): string {
+  const data = typeof content === 'string' ? content.replace(/\r\n?/g, '\n').trim() : content;
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * 均匀抽取分块
+ */
+function sampleTexts(texts: string[], size: number): string[] {
+  const candidates = texts.filter(text => text.trim());
+  if (candidates.length <= size) {
+    return candidates;
+  }
+  return Array.from({ length: size }, (_, i) => candidates[Math.floor(i * candidates.length / size)]);
+}
+
+/**
+ * 查找内容哈希相同的已有文档
+ */
+async function findExactDuplicates(userId: string, contentHash: string): Promise<DuplicateDocument[]> {
+  const { data, error } = await supabaseAdmin
+    .from('documents')
+    .select('id, title, file_name, created_at')
+    .eq('user_id', userId)
+    .eq('content_hash', contentHash)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ 查询重复文档失败:', error);
+    return [];
+  }
+
+  return (data || []).map(document => ({ ...document, matchType: 'exact' as const, matchRatio: 1, similarity: 1 }));
+}
+
+/**
+ * 查找与抽样分块高度相似的已有文档
+ */
+async function findNearDuplicates(userId: string, chunkTexts: string[]): Promise<DuplicateDocument[]> {
+  const samples = sampleTexts(chunkTexts, DUPLICATE_SAMPLE_SIZE);
+  if (samples.length === 0) {
+    return [];
+  }
+
+  // 与入库时使用相同的指令，保证相似度可比
+  const { embeddings } = await generateEmbeddingsInBatches(samples, { instruct: QUERY_EMBEDDING_INSTRUCT });
+  const signature = getEmbeddingSignature();
+
+  // 每个文档命中的抽样分块及相似度
+  const hits = new Map<string, number[]>();
+
+  await Promise.all(embeddings.map(async embedding => {
+    if (!embedding) return;
+
+    const { data, error } = await supabaseAdmin.rpc('search_similar_chunks_with_category', {
+      query_embedding: embedding,
+      target_user_id: userId,
+      match_threshold: DUPLICATE_SIMILARITY_THRESHOLD,
+      match_count: 5,
+      category_filter: null,
+      embedding_model_filter: signature.model,
+      embedding_version_filter: signature.version
+    });
+
+    if (error) {
+      console.error('❌ 相似分块检索失败:', error);
+      return;
+    }
+
+    // 同一抽样分块在一个文档中只计一次，取最高相似度
+    const best = new Map<string, number>();
+    (data || []).forEach((chunk: { document_id: string; similarity: number }) => {
+      best.set(chunk.document_id, Math.max(best.get(chunk.document_id) ?? 0, chunk.similarity));
+    });
+
+    best.forEach((similarity, documentId) => {
+      hits.set(documentId, [...(hits.get(documentId) || []), similarity]);
+    });
+  }));
+
+  const candidates = Array.from(hits.entries())
+    .map(([id, similarities]) => ({
+      id,
+      matchRatio: similarities.length / samples.length,
+      similarity: similarities.reduce((sum, value) => sum + value, 0) / similarities.length
+    }))
+    .filter(candidate => candidate.matchRatio >= DUPLICATE_MATCH_RATIO);
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const { data: documents, error } = await supabaseAdmin
+    .from('documents')
+    .select('id, title, file_name, created_at')
+    .in('id', candidates.map(candidate => candidate.id));
+
+  if (error) {
+    console.error('❌ 查询相似文档失败:', error);
+    return [];
+  }
+
+  return (documents || [])
+    .map(document => {
+      const candidate = candidates.find(item => item.id === document.id)!;
+      return { ...document, matchType: 'near' as const, matchRatio: candidate.matchRatio, similarity: candidate.similarity };
+    })
+    .sort((a, b) => b.matchRatio - a.matchRatio || b.similarity - a.similarity);
+}
+
+/**
+ * 检测新内容是否与用户已有文档重复
+ * 先比较内容哈希，没有完全重复时再做向量相似度检测（失败时跳过，不阻止导入）
+ * @param userId 用户ID
+ * @param contentHash 新内容的哈希
+ * @param loadChunkTexts 获取新内容的分块文本（用于相似度检测，仅在没有完全重复时调用）
+ * @returns 命中的已有文档，按相似程度降序
+ */
+export async function findDuplicateDocuments(userId: string, contentHash: string, loadChunkTexts: () => Promise<string[]>): Promise<DuplicateDocument[]> {
+  const exact = await findExactDuplicates(userId, contentHash);
+  if (exact.length > 0) {
+    console.log(`🔁 发现 ${exact.length} 个完全重复的文档`);
+    return exact;
+  }
+
+  try {
+    const near = await findNearDuplicates(userId, await loadChunkTexts());
+    if (near.length > 0) {
+      console.log(`🔁 发现 ${near.length} 个高度相似的文档`);
+    }
+    return near;
+  } catch (error) {
+    console.error('⚠️ 相似文档检测失败，跳过:', error instanceof Error ? error.message : String(error));
+    return [];
+  }
+}
+
+/**
+ * 已有文档中的疑似重复文档组
+ */
+export interface DuplicateGroup {
+  matchType: DuplicateMatchType;
+  /** 组内文档（按创建时间升序，第一个为最早上传的文档） */
+  documents: { id: string; title: string; file_name: string | null; created_at: string }[];
+  /** 高度相似时为组内文档间的最高命中比例 */
+  matchRatio: number;
+}
+
+/**
+ * 参与分组的文档
+ */
+export interface DuplicateCandidateDocument {
+  id: string;
+  title: string;
+  file_name: string | null;
+  created_at: string;
+  content_hash: string | null;
+}
+
+/**
+ * 高度相似的文档对（document_similarities）
+ */
+export interface SimilarDocumentPair {
+  document_id: string;
+  other_document_id: string;
+  match_ratio: number;
+}
+
+/**
+ * 重新计算与文档相关的相似文档对，在文档的当前版本变化后调用（失败时只记录日志）
+ * @param documentId 文档ID
+ */
+export async function refreshDocumentSimilarities(documentId: string): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('refresh_document_similarities', {
+    target_document_id: documentId,
+    match_threshold: DUPLICATE_SIMILARITY_THRESHOLD,
+    min_match_ratio: DUPLICATE_MATCH_RATIO,
+    sample_size: DUPLICATE_SAMPLE_SIZE
+  });
+
+  if (error) {
+    console.error('❌ 更新相似文档对失败:', documentId, error);
+  }
+}
+
+/**
+ * 将文档分为疑似重复文档组
+ * - 内容哈希相同的文档为完全重复
+ * - 相似文档对按连通关系合并为高度相似组（两个文档已在同一完全重复组中时忽略该文档对）
+ * @param documents 用户的文档（按创建时间升序）
+ * @param pairs 高度相似的文档对
+ * @returns 疑似重复文档组
+ */
+export function groupDuplicateDocuments(documents: DuplicateCandidateDocument[], pairs: SimilarDocumentPair[]): DuplicateGroup[] {
+  const byId = new Map(documents.map(document => [document.id, document]));
+  const toSummary = (id: string) => {
+    const { title, file_name, created_at } = byId.get(id)!;
+    return { id, title, file_name, created_at };
+  };
+
+  // 完全重复：按内容哈希分组
+  const hashGroups = new Map<string, string[]>();
+  documents.forEach(document => {
+    if (!document.content_hash) return;
+    hashGroups.set(document.content_hash, [...(hashGroups.get(document.content_hash) || []), document.id]);
+  });
+
+  const groups: DuplicateGroup[] = Array.from(hashGroups.values())
+    .filter(ids => ids.length > 1)
+    .map(ids => ({ matchType: 'exact', documents: ids.map(toSummary), matchRatio: 1 }));
+  const exactGroupOf = new Map<string, number>();
+  groups.forEach((group, i) => group.documents.forEach(document => exactGroupOf.set(document.id, i)));
+
+  // 相似关系合并为连通分组
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id);
+    if (!root || root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  const ratios = new Map<string, number>();
+
+  pairs
+    .filter(pair => byId.has(pair.document_id) && byId.has(pair.other_document_id))
+    .filter(pair => {
+      const group = exactGroupOf.get(pair.document_id);
+      return group === undefined || group !== exactGroupOf.get(pair.other_document_id);
+    })
+    .forEach(pair => {
+      const a = find(pair.document_id);
+      const b = find(pair.other_document_id);
+      if (a !== b) parent.set(b, a);
+      ratios.set(pair.document_id, Math.max(ratios.get(pair.document_id) || 0, pair.match_ratio));
+      ratios.set(pair.other_document_id, Math.max(ratios.get(pair.other_document_id) || 0, pair.match_ratio));
+    });
+
+  const nearGroups = new Map<string, string[]>();
+  ratios.forEach((_, id) => {
+    const root = find(id);
+    nearGroups.set(root, [...(nearGroups.get(root) || []), id]);
+  });
+
+  nearGroups.forEach(ids => {
+    const ordered = ids.sort((a, b) => byId.get(a)!.created_at.localeCompare(byId.get(b)!.created_at));
+    groups.push({
+      matchType: 'near',
+      documents: ordered.map(toSummary),
+      matchRatio: Math.max(...ids.map(id => ratios.get(id) || 0))
+    });
+  });
+
+  return groups;
+}
+
+/**
+ * 查找用户已有文档中的疑似重复文档（相似文档对在导入时预先计算）
+ * @param userId 用户ID
+ * @returns 疑似重复文档组
+ */
+export async function findDuplicateGroups(userId: string): Promise<DuplicateGroup[]> {
+  const { data: documents, error } = await supabaseAdmin
+    .from('documents')
+    .select('id, title, file_name, created_at, content_hash')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const { data: pairs, error: pairError } = await supabaseAdmin
+    .from('document_similarities')
+    .select('document_id, other_document_id, match_ratio')
+    .eq('user_id', userId);
+
+  if (pairError) {
+    console.error('❌ 读取相似文档对失败:', pairError);
+  }
+
+  return groupDuplicateDocuments(documents || [], pairError ? [] : pairs || []);
+}
\ No newline at end of file
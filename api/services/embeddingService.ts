@@ -1,7 +1,221 @@
-import { generateEmbedding as alibabaGenerateEmbedding } from '../lib/alibaba-embedding.js';
+import { AlibabaEmbeddingService } from '../lib/alibaba-embedding.js';
+import { OpenAICompatibleEmbeddingProvider } from '../lib/openai-compatible-embedding.js';
+import { LocalEmbeddingProvider } from '../lib/local-embedding.js';
+import type { EmbeddingProvider, EmbeddingProviderName } from '../lib/embedding-provider.js';
 
 /**
- * 调用阿里云嵌入服务生成查询向量
+ * 检索指令：查询向量和文档块向量都使用此指令生成，保证两者可以相互比较
+ */
+export const QUERY_EMBEDDING_INSTRUCT = 'Given a web search query, retrieve relevant passages that answer the query';
+
+// 当前使用的嵌入提供方（延迟初始化）
+let embeddingProvider: EmbeddingProvider | null = null;
+
+/**
+ * 根据名称创建嵌入提供方
+ * @param name 提供方名称
+ */
+export function createEmbeddingProvider(name: EmbeddingProviderName): EmbeddingProvider {
+  switch (name) {
+    case 'dashscope':
+      return new AlibabaEmbeddingService();
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider();
+    case 'local':
+      return new LocalEmbeddingProvider();
+    default:
+      throw new Error(`不支持的嵌入提供方: ${name}`);
+  }
+}
+
+/**
+ * 获取当前嵌入提供方，由 EMBEDDING_PROVIDER 环境变量选择（默认 dashscope）
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    const name = (process.env.EMBEDDING_PROVIDER || 'dashscope') as EmbeddingProviderName;
+    embeddingProvider = createEmbeddingProvider(name);
+    console.log(`🧩 嵌入提供方: ${embeddingProvider.name} (${embeddingProvider.model}, ${embeddingProvider.dimensions}维)`);
+  }
+  return embeddingProvider;
+}
+
+/**
+ * 替换当前嵌入提供方（用于测试）
+ * @param provider 新的提供方，传入 null 时下次使用重新按环境变量创建
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null) {
+  embeddingProvider = provider;
+}
+
+/**
+ * 向量签名：模型、版本和维度都一致的向量才能相互比较
+ */
+export interface EmbeddingSignature {
+  model: string;
+  version: string;
+  dimensions: number;
+}
+
+/**
+ * 获取当前嵌入提供方的向量签名
+ * 版本默认取提供方名称；更换指令或预处理方式时可通过 EMBEDDING_VERSION 升级版本，触发重新向量化
+ */
+export function getEmbeddingSignature(): EmbeddingSignature {
+  const provider = getEmbeddingProvider();
+  return {
+    model: provider.model,
+    version: process.env.EMBEDDING_VERSION || provider.name,
+    dimensions: provider.dimensions
+  };
+}
+
+/**
+ * 生成写入 document_chunks 的向量相关字段
+ * @param embedding 向量，生成失败时为 null
+ * @param signature 生成向量时使用的签名
+ */
+export function toEmbeddingColumns(embedding: number[] | null, signature: EmbeddingSignature) {
+  return {
+    embedding,
+    embedding_model: embedding ? signature.model : null,
+    embedding_version: embedding ? signature.version : null,
+    embedding_dimensions: embedding ? signature.dimensions : null
+  };
+}
+
+/**
+ * 批量向量生成配置
+ */
+export interface BatchEmbeddingOptions {
+  /** 自定义指令 */
+  instruct?: string;
+  /** 每批文本数量 */
+  batchSize?: number;
+  /** 同时进行的批次数 */
+  concurrency?: number;
+  /** 单批最大重试次数 */
+  maxRetries?: number;
+  /** 每完成一批回调已处理的文本数量（含失败） */
+  onProgress?: (processed: number, total: number) => void | Promise<void>;
+}
+
+/**
+ * 批量向量生成结果
+ */
+export interface BatchEmbeddingResult {
+  /** 与输入顺序一致的向量，生成失败的位置为 null */
+  embeddings: (number[] | null)[];
+  /** 生成失败的文本下标 */
+  failedIndexes: number[];
+  /** 最后一次失败的错误信息 */
+  lastError: string | null;
+  /** 生成向量时使用的签名 */
+  signature: EmbeddingSignature;
+}
+
+/**
+ * 读取正整数环境变量
+ */
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const DEFAULT_BATCH_SIZE = readPositiveInt('EMBEDDING_BATCH_SIZE', Number.MAX_SAFE_INTEGER);
+const DEFAULT_CONCURRENCY = readPositiveInt('EMBEDDING_CONCURRENCY', 2);
+const DEFAULT_MAX_RETRIES = readPositiveInt('EMBEDDING_MAX_RETRIES', 3);
+const RETRY_BASE_DELAY_MS = readPositiveInt('EMBEDDING_RETRY_BASE_DELAY_MS', 1000);
+
+/**
+ * 判断嵌入请求错误是否值得重试（限流、服务端错误、网络错误）
+ */
+function isRetryableEmbeddingError(error: unknown): boolean {
+  const status = (error as { status?: number })?.status;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /rate limit|throttl|timeout|ECONNRESET|ETIMEDOUT|fetch failed/i.test(message);
+}
+
+/**
+ * 带指数退避重试地生成一批向量
+ */
+async function embedBatchWithRetry(provider: EmbeddingProvider, texts: string[], instruct: string | undefined, maxRetries: number): Promise<number[][]> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.embedBatch(texts, instruct);
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableEmbeddingError(error)) {
+        throw error;
+      }
+      // 指数退避并加入随机抖动，避免并发批次同时重试
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.floor(Math.random() * RETRY_BASE_DELAY_MS);
+      console.warn(`⚠️ 向量生成失败，${delay}ms 后第 ${attempt + 1}/${maxRetries} 次重试:`, error instanceof Error ? error.message : String(error));
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * 分批并发生成向量，单批失败不影响其他批次
+ * @param texts 文本数组
+ * @param options 批量配置
+ * @returns 向量及失败的文本下标
+ */
+export async function generateEmbeddingsInBatches(texts: string[], options: BatchEmbeddingOptions = {}): Promise<BatchEmbeddingResult> {
+  const provider = getEmbeddingProvider();
+  const signature = getEmbeddingSignature();
+  // 未配置时按提供方允许的上限分批
+  const batchSize = Math.min(options.batchSize || DEFAULT_BATCH_SIZE, provider.maxBatchSize);
+  const concurrency = options.concurrency || DEFAULT_CONCURRENCY;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  const embeddings: (number[] | null)[] = new Array(texts.length).fill(null);
+  const failedIndexes: number[] = [];
+  let lastError: string | null = null;
+  let processed = 0;
+
+  const batchStarts: number[] = [];
+  for (let i = 0; i < texts.length; i += batchSize) {
+    batchStarts.push(i);
+  }
+
+  console.log(`🔄 批量生成向量: ${texts.length} 条，${batchStarts.length} 批，并发 ${concurrency}`);
+
+  let nextBatch = 0;
+  const worker = async () => {
+    while (nextBatch < batchStarts.length) {
+      const start = batchStarts[nextBatch++];
+      const batch = texts.slice(start, start + batchSize);
+
+      try {
+        const vectors = await embedBatchWithRetry(provider, batch, options.instruct, maxRetries);
+        vectors.forEach((vector, offset) => {
+          embeddings[start + offset] = vector;
+        });
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        console.error(`❌ 第 ${start + 1}-${start + batch.length} 条向量生成失败:`, lastError);
+        batch.forEach((_, offset) => failedIndexes.push(start + offset));
+      }
+
+      processed += batch.length;
+      await options.onProgress?.(processed, texts.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, batchStarts.length) }, worker));
+
+  failedIndexes.sort((a, b) => a - b);
+  console.log(`✅ 批量向量生成结束: 成功 ${texts.length - failedIndexes.length} 条，失败 ${failedIndexes.length} 条`);
+
+  return { embeddings, failedIndexes, lastError, signature };
+}
+
+/**
+ * 调用当前嵌入提供方生成查询向量
  * @param query 查询文本
  * @returns 向量数组
  */
@@ -9,8 +223,8 @@ export async function generateQueryEmbedding(query: string): Promise<number[]> {
   try {
     console.log('🔄 生成查询向量...');
     
-    // 使用阿里云嵌入服务，为查询文本生成向量，使用检索优化指令
-    const embedding = await alibabaGenerateEmbedding(query, "Given a web search query, retrieve relevant passages that answer the query");
+    // 为查询文本生成向量，使用检索优化指令
+    const [embedding] = await getEmbeddingProvider().embedBatch([query], QUERY_EMBEDDING_INSTRUCT);
     
     console.log('✅ 查询向量生成成功');
     
@@ -20,12 +234,12 @@ export async function generateQueryEmbedding(query: string): Promise<number[]> {
     console.error('❌ 嵌入服务失败:', error instanceof Error ? error.message : String(error));
     
     // 嵌入服务失败时直接抛出错误，不使用随机模拟向量
-    throw new Error(`阿里云嵌入服务失败: ${error instanceof Error ? error.message : String(error)}`);
+    throw new Error(`嵌入服务失败: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
- * 调用阿里云嵌入服务生成文档向量
+ * 调用当前嵌入提供方生成文档向量
  * @param text 文档文本
  * @returns 向量数组
  */
@@ -33,8 +247,8 @@ export async function generateDocumentEmbedding(text: string): Promise<number[]>
   try {
     console.log('🔄 生成文档向量...');
     
-    // 使用阿里云嵌入服务，为文档文本生成向量，使用文档优化指令
-    const embedding = await alibabaGenerateEmbedding(text, "Represent this document for retrieval");
+    // 与导入的文档块使用相同的指令，保证向量可以与索引中的向量比较
+    const [embedding] = await getEmbeddingProvider().embedBatch([text], QUERY_EMBEDDING_INSTRUCT);
     
     console.log('✅ 文档向量生成成功');
     
@@ -44,6 +258,6 @@ export async function generateDocumentEmbedding(text: string): Promise<number[]>
     console.error('❌ 嵌入服务失败:', error instanceof Error ? error.message : String(error));
     
     // 嵌入服务失败时直接抛出错误
-    throw new Error(`阿里云嵌入服务失败: ${error instanceof Error ? error.message : String(error)}`);
+    throw new Error(`嵌入服务失败: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
\ No newline at end of file
@@ -0,0 +1,187 @@
+/**
+ * 文件存储服务
+ * 保存上传的原始文件，支持两种存储后端（FILE_STORAGE 环境变量）：
+ * - supabase（默认）：Supabase Storage 私有存储桶，下载使用签名链接
+ * - local：本地文件系统（开发/测试用），签名链接由 /api/files 校验后返回文件（需设置 LOCAL_STORAGE_SECRET）
+ */
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { supabaseAdmin } from '../lib/supabase.js';
+
+/**
+ * 签名下载链接选项
+ */
+export interface SignedUrlOptions {
+  /** 有效期（秒） */
+  expiresIn: number;
+  /** 指定时以附件形式下载并使用该文件名，否则在浏览器中直接打开 */
+  downloadName?: string;
+}
+
+/**
+ * 文件存储后端
+ */
+export interface FileStorage {
+  upload(storagePath: string, buffer: Buffer, contentType: string): Promise<void>;
+  download(storagePath: string): Promise<Buffer>;
+  remove(storagePath: string): Promise<void>;
+  createSignedUrl(storagePath: string, options: SignedUrlOptions): Promise<string>;
+}
+
+/**
+ * 签名下载链接默认有效期（秒）
+ */
+export const SIGNED_URL_EXPIRES_IN = 300;
+
+/**
+ * Supabase Storage 存储
+ */
+export class SupabaseFileStorage implements FileStorage {
+  constructor(private bucket: string) {}
+
+  async upload(storagePath: string, buffer: Buffer, contentType: string) {
+    const { error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .upload(storagePath, buffer, { contentType, upsert: false });
+
+    if (error) {
+      throw new Error(`上传文件到存储桶失败: ${error.message}`);
+    }
+  }
+
+  async download(storagePath: string) {
+    const { data, error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .download(storagePath);
+
+    if (error || !data) {
+      throw new Error(`从存储桶下载文件失败: ${error?.message || '文件不存在'}`);
+    }
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async remove(storagePath: string) {
+    const { error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .remove([storagePath]);
+
+    if (error) {
+      throw new Error(`删除存储桶文件失败: ${error.message}`);
+    }
+  }
+
+  async createSignedUrl(storagePath: string, options: SignedUrlOptions) {
+    const { data, error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .createSignedUrl(storagePath, options.expiresIn, options.downloadName ? { download: options.downloadName } : undefined);
+
+    if (error || !data) {
+      throw new Error(`生成签名链接失败: ${error?.message || '未知错误'}`);
+    }
+    return data.signedUrl;
+  }
+}
+
+/**
+ * 本地文件系统存储
+ */
+export class LocalFileStorage implements FileStorage {
+  constructor(private rootDir: string, private secret: string) {}
+
+  /**
+   * 存储路径对应的本地文件路径，拒绝跳出根目录的路径
+   */
+  resolvePath(storagePath: string): string {
+    const filePath = path.resolve(this.rootDir, storagePath);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error('无效的存储路径');
+    }
+    return filePath;
+  }
+
+  async upload(storagePath: string, buffer: Buffer) {
+    const filePath = this.resolvePath(storagePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, buffer, { flag: 'wx' });
+  }
+
+  async download(storagePath: string) {
+    return fs.readFile(this.resolvePath(storagePath));
+  }
+
+  async remove(storagePath: string) {
+    await fs.rm(this.resolvePath(storagePath), { force: true });
+  }
+
+  async createSignedUrl(storagePath: string, options: SignedUrlOptions) {
+    const expires = Math.floor(Date.now() / 1000) + options.expiresIn;
+    const download = options.downloadName || '';
+    const params = new URLSearchParams({
+      path: storagePath,
+      expires: String(expires),
+      download,
+      signature: this.sign(storagePath, expires, download)
+    });
+    return `/api/files?${params}`;
+  }
+
+  /**
+   * 校验签名链接参数，通过时返回本地文件路径
+   */
+  verify(storagePath: string, expires: number, download: string, signature: string): string | null {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(storagePath, expires, download));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+    return this.resolvePath(storagePath);
+  }
+
+  private sign(storagePath: string, expires: number, download: string) {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(`${storagePath}\n${expires}\n${download}`)
+      .digest('hex');
+  }
+}
+
+// 创建单例实例
+let fileStorageInstance: FileStorage | null = null;
+
+/**
+ * 获取文件存储实例
+ * FILE_STORAGE=local 时需要设置 LOCAL_STORAGE_SECRET 作为签名下载链接的密钥
+ */
+export function getFileStorage(): FileStorage {
+  if (!fileStorageInstance) {
+    if (process.env.FILE_STORAGE === 'local') {
+      const rootDir = path.resolve(process.env.LOCAL_STORAGE_DIR || 'storage');
+      // 签名密钥单独配置，不能为空，否则任何人都能伪造下载链接
+      const secret = process.env.LOCAL_STORAGE_SECRET;
+      if (!secret) {
+        throw new Error('使用本地文件存储时必须设置 LOCAL_STORAGE_SECRET');
+      }
+      console.log('🗄️ 使用本地文件存储:', rootDir);
+      fileStorageInstance = new LocalFileStorage(rootDir, secret);
+    } else {
+      fileStorageInstance = new SupabaseFileStorage(process.env.SUPABASE_STORAGE_BUCKET || 'documents');
+    }
+  }
+  return fileStorageInstance;
+}
+
+/**
+ * 生成原始文件的存储路径：用户ID/随机ID + 扩展名（存储桶不支持中文等字符，原文件名单独保存）
+ * @param userId 用户ID
+ * @param originalName 原文件名
+ * @returns 存储路径
+ */
+export function buildStoragePath(userId: string, originalName: string): string {
+  const ext = path.extname(originalName).toLowerCase().replace(/[^.a-z0-9]/g, '');
+  return `${userId}/${crypto.randomUUID()}${ext}`;
+}
\ No newline at end of file
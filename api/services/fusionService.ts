@@ -0,0 +1,348 @@
+/**
+ * 检索结果融合
+ * 将向量搜索与关键词搜索的结果合并为一个排序列表，支持：
+ * - minmax：加权 min-max 归一化（默认，保持原有行为）
+ * - rrf：倒数排名融合（Reciprocal Rank Fusion），只依赖排名，不受两路分数尺度影响
+ * - convex：凸组合，向量相似度直接使用余弦值，关键词分数按最大值归一化后按权重相加
+ */
+
+/**
+ * 融合策略
+ */
+export type FusionStrategy = 'minmax' | 'rrf' | 'convex';
+
+/**
+ * 融合选项
+ */
+export interface FusionOptions {
+  /** 融合策略（默认取 FUSION_STRATEGY 环境变量，未设置时为 minmax） */
+  strategy?: FusionStrategy;
+  /** 向量搜索权重（rrf、convex 使用，默认 0.6） */
+  vectorWeight?: number;
+  /** 关键词搜索权重（rrf、convex 使用，默认 0.4） */
+  keywordWeight?: number;
+  /** RRF 平滑常数 k（默认 60） */
+  rrfK?: number;
+}
+
+/**
+ * 参与融合的检索结果（向量结果带 similarity，关键词结果带 keyword_score）
+ */
+export interface SearchHit {
+  id: string;
+  content: string;
+  similarity?: number;
+  keyword_score?: number;
+}
+
+/**
+ * 融合后附加的字段
+ */
+export interface FusedFields {
+  vector_score: number;
+  keyword_score: number;
+  hybrid_score: number;
+  /** 在向量结果中的排名（rrf、convex 附带），未命中为 null */
+  vector_rank?: number | null;
+  /** 在关键词结果中的排名（rrf、convex 附带），未命中为 null */
+  keyword_rank?: number | null;
+  fusion_strategy: FusionStrategy;
+}
+
+/**
+ * 单个融合策略的输出（策略名称由 fuseSearchResults 统一附加）
+ */
+type ScoredHit<T extends SearchHit> = T & Omit<FusedFields, 'fusion_strategy'>;
+
+/**
+ * 支持的融合策略
+ */
+export const FUSION_STRATEGIES: FusionStrategy[] = ['minmax', 'rrf', 'convex'];
+
+const DEFAULT_VECTOR_WEIGHT = 0.6;
+const DEFAULT_KEYWORD_WEIGHT = 0.4;
+const DEFAULT_RRF_K = 60;
+
+/**
+ * 判断是否为支持的融合策略
+ */
+export function isFusionStrategy(value: unknown): value is FusionStrategy {
+  return typeof value === 'string' && FUSION_STRATEGIES.includes(value as FusionStrategy);
+}
+
+/**
+ * 默认融合策略
+ */
+export function getDefaultFusionStrategy(): FusionStrategy {
+  const strategy = process.env.FUSION_STRATEGY;
+  return isFusionStrategy(strategy) ? strategy : 'minmax';
+}
+
+/**
+ * 融合向量搜索和关键词搜索的结果
+ * @param vectorChunks 向量搜索结果（按相似度降序）
+ * @param keywordChunks 关键词搜索结果（按关键词相关性降序）
+ * @param keywords 关键词数组
+ * @param limit 返回结果数量限制
+ * @param options 融合选项（可选）
+ * @returns 融合后的搜索结果数组，每项附带 vector_score、keyword_score、hybrid_score 与 fusion_strategy
+ */
+export function fuseSearchResults<V extends SearchHit, K extends SearchHit>(vectorChunks: V[], keywordChunks: K[], keywords: string[], limit: number, options: FusionOptions = {}): ((V | K) & FusedFields)[] {
+  const strategy = options.strategy || getDefaultFusionStrategy();
+
+  let fused: ScoredHit<V | K>[];
+  switch (strategy) {
+    case 'rrf':
+      fused = fuseWithRRF<V | K>(vectorChunks, keywordChunks, limit, options);
+      break;
+    case 'convex':
+      fused = fuseWithConvexCombination<V | K>(vectorChunks, keywordChunks, limit, options);
+      break;
+    default:
+      fused = fuseWithMinMax<V | K>(vectorChunks, keywordChunks, keywords, limit);
+  }
+
+  return fused.map(chunk => ({ ...chunk, fusion_strategy: strategy }));
+}
+
+/**
+ * 两路搜索中某个文档块的合并记录
+ */
+interface MergedChunk<T extends SearchHit> {
+  chunk: T;
+  vectorScore: number;
+  keywordScore: number;
+  /** 在向量结果中的排名（从1开始），未命中为 null */
+  vectorRank: number | null;
+  /** 在关键词结果中的排名（从1开始），未命中为 null */
+  keywordRank: number | null;
+}
+
+/**
+ * 按文档块ID合并两路结果，保留各自的分数与排名
+ */
+function mergeByChunkId<T extends SearchHit>(vectorChunks: T[], keywordChunks: T[]): MergedChunk<T>[] {
+  const merged = new Map<string, MergedChunk<T>>();
+
+  vectorChunks.forEach((chunk, index) => {
+    if (merged.has(chunk.id)) return;
+    merged.set(chunk.id, {
+      chunk,
+      vectorScore: chunk.similarity || 0,
+      keywordScore: 0,
+      vectorRank: index + 1,
+      keywordRank: null
+    });
+  });
+
+  keywordChunks.forEach((chunk, index) => {
+    const existing = merged.get(chunk.id);
+    if (existing) {
+      if (existing.keywordRank === null) {
+        existing.keywordScore = chunk.keyword_score || 0;
+        existing.keywordRank = index + 1;
+      }
+      return;
+    }
+    merged.set(chunk.id, {
+      chunk,
+      vectorScore: 0,
+      keywordScore: chunk.keyword_score || 0,
+      vectorRank: null,
+      keywordRank: index + 1
+    });
+  });
+
+  return Array.from(merged.values());
+}
+
+/**
+ * 排序并截取：分数降序，分数相同时向量排名靠前者优先
+ */
+function rankMerged<T extends SearchHit>(merged: Array<MergedChunk<T> & { hybridScore: number }>, limit: number): ScoredHit<T>[] {
+  return merged
+    .sort((a, b) => {
+      if (b.hybridScore !== a.hybridScore) {
+        return b.hybridScore - a.hybridScore;
+      }
+      return (a.vectorRank ?? Infinity) - (b.vectorRank ?? Infinity);
+    })
+    .slice(0, limit)
+    .map(item => ({
+      ...item.chunk,
+      vector_score: item.vectorScore,
+      keyword_score: item.keywordScore,
+      vector_rank: item.vectorRank,
+      keyword_rank: item.keywordRank,
+      hybrid_score: item.hybridScore
+    }));
+}
+
+/**
+ * 倒数排名融合：score = Σ weight / (k + rank)
+ * 结果除以两路都排第一时的理论最大值，使 hybrid_score 落在 0-1 之间
+ */
+function fuseWithRRF<T extends SearchHit>(vectorChunks: T[], keywordChunks: T[], limit: number, options: FusionOptions) {
+  const vectorWeight = options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT;
+  const keywordWeight = options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT;
+  const k = options.rrfK ?? DEFAULT_RRF_K;
+  const maxScore = (vectorWeight + keywordWeight) / (k + 1);
+
+  const scored = mergeByChunkId(vectorChunks, keywordChunks).map(item => {
+    let score = 0;
+    if (item.vectorRank !== null) score += vectorWeight / (k + item.vectorRank);
+    if (item.keywordRank !== null) score += keywordWeight / (k + item.keywordRank);
+    return { ...item, hybridScore: maxScore > 0 ? score / maxScore : 0 };
+  });
+
+  return rankMerged(scored, limit);
+}
+
+/**
+ * 凸组合融合：hybrid = w_v * 余弦相似度 + w_k * (关键词分数 / 最大关键词分数)，权重归一化为和为1
+ * 不使用 min-max，单条结果时也不会被拉伸到 0 或 1 的极端值以外
+ */
+function fuseWithConvexCombination<T extends SearchHit>(vectorChunks: T[], keywordChunks: T[], limit: number, options: FusionOptions) {
+  const rawVectorWeight = Math.max(options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT, 0);
+  const rawKeywordWeight = Math.max(options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT, 0);
+  const totalWeight = rawVectorWeight + rawKeywordWeight || 1;
+  const vectorWeight = rawVectorWeight / totalWeight;
+  const keywordWeight = rawKeywordWeight / totalWeight;
+
+  const merged = mergeByChunkId(vectorChunks, keywordChunks);
+  const maxKeywordScore = Math.max(0, ...merged.map(item => item.keywordScore));
+
+  const scored = merged.map(item => {
+    const vectorPart = Math.min(Math.max(item.vectorScore, 0), 1);
+    const keywordPart = maxKeywordScore > 0 ? item.keywordScore / maxKeywordScore : 0;
+    return { ...item, hybridScore: vectorWeight * vectorPart + keywordWeight * keywordPart };
+  });
+
+  return rankMerged(scored, limit);
+}
+
+/**
+ * 加权 min-max 融合：两路分数分别做 min-max 归一化后按动态权重相加，并对同时命中和高关键词匹配度加分
+ * @param vectorChunks 向量搜索结果
+ * @param keywordChunks 关键词搜索结果
+ * @param keywords 关键词数组
+ * @param limit 返回结果数量限制
+ * @returns 融合后的搜索结果数组
+ */
+function fuseWithMinMax<T extends SearchHit>(vectorChunks: T[], keywordChunks: T[], keywords: string[], limit: number): ScoredHit<T>[] {
+  // 创建结果映射，避免重复
+  const resultMap = new Map<string, ScoredHit<T>>();
+  
+  // 计算向量搜索分数的最大值和最小值，用于归一化
+  const vectorScores = vectorChunks.map(chunk => chunk.similarity || 0).filter(score => score > 0);
+  const maxVectorScore = vectorScores.length > 0 ? Math.max(...vectorScores) : 1;
+  const minVectorScore = vectorScores.length > 0 ? Math.min(...vectorScores) : 0;
+  
+  // 计算关键词搜索分数的最大值和最小值，用于归一化
+  const keywordScores = keywordChunks.map(chunk => chunk.keyword_score || 0).filter(score => score > 0);
+  const maxKeywordScore = keywordScores.length > 0 ? Math.max(...keywordScores) : 1;
+  const minKeywordScore = keywordScores.length > 0 ? Math.min(...keywordScores) : 0;
+  
+  // 处理向量搜索结果
+  vectorChunks.forEach(chunk => {
+    const chunkId = chunk.id;
+    if (!resultMap.has(chunkId)) {
+      resultMap.set(chunkId, {
+        ...chunk,
+        vector_score: chunk.similarity || 0,
+        keyword_score: 0,
+        hybrid_score: 0
+      });
+    }
+  });
+  
+  // 处理关键词搜索结果
+  keywordChunks.forEach(chunk => {
+    const chunkId = chunk.id;
+    if (resultMap.has(chunkId)) {
+      // 如果已存在，更新关键词分数
+      const existingChunk = resultMap.get(chunkId)!;
+      existingChunk.keyword_score = chunk.keyword_score || 0;
+    } else {
+      // 如果不存在，添加新的结果
+      resultMap.set(chunkId, {
+        ...chunk,
+        vector_score: 0,
+        keyword_score: chunk.keyword_score || 0,
+        hybrid_score: 0
+      });
+    }
+  });
+  
+  // 计算混合分数并排序
+  const fusedResults = Array.from(resultMap.values())
+    .map(chunk => {
+      // 改进的归一化方法
+      let normalizedVectorScore = 0;
+      if (chunk.vector_score > 0 && maxVectorScore > minVectorScore) {
+        normalizedVectorScore = (chunk.vector_score - minVectorScore) / (maxVectorScore - minVectorScore);
+      } else if (chunk.vector_score > 0) {
+        normalizedVectorScore = chunk.vector_score;
+      }
+      
+      let normalizedKeywordScore = 0;
+      if (chunk.keyword_score > 0 && maxKeywordScore > minKeywordScore) {
+        normalizedKeywordScore = (chunk.keyword_score - minKeywordScore) / (maxKeywordScore - minKeywordScore);
+      } else if (chunk.keyword_score > 0) {
+        normalizedKeywordScore = Math.min(chunk.keyword_score / 5, 1.0); // 关键词分数除以5进行归一化
+      }
+      
+      // 动态权重：如果关键词匹配度高，增加关键词权重
+      const keywordMatchRatio = keywords.length > 0 ? 
+        keywords.filter(keyword => 
+          chunk.content.toLowerCase().includes(keyword.toLowerCase())
+        ).length / keywords.length : 0;
+      
+      // 基础权重：向量0.6，关键词0.4
+      let vectorWeight = 0.6;
+      let keywordWeight = 0.4;
+      
+      // 如果关键词匹配度很高（>80%），增加关键词权重
+      if (keywordMatchRatio > 0.8) {
+        vectorWeight = 0.5;
+        keywordWeight = 0.5;
+      }
+      
+      // 计算基础混合分数
+      const hybridScore = (normalizedVectorScore * vectorWeight) + (normalizedKeywordScore * keywordWeight);
+      
+      // 额外加分机制
+      let bonus = 0;
+      
+      // 如果同时在两种搜索中出现，给予额外加分
+      if (chunk.vector_score > 0 && chunk.keyword_score > 0) {
+        bonus += 0.1;
+      }
+      
+      // 如果关键词匹配度很高，给予额外加分
+      if (keywordMatchRatio > 0.5) {
+        bonus += keywordMatchRatio * 0.1;
+      }
+      
+      const finalScore = Math.min(hybridScore + bonus, 1.0); // 确保分数不超过1
+      
+      return {
+        ...chunk,
+        hybrid_score: finalScore,
+        keyword_match_ratio: keywordMatchRatio,
+        normalized_vector_score: normalizedVectorScore,
+        normalized_keyword_score: normalizedKeywordScore
+      };
+    })
+    .sort((a, b) => {
+      // 首先按混合分数排序
+      if (Math.abs(a.hybrid_score - b.hybrid_score) > 0.01) {
+        return b.hybrid_score - a.hybrid_score;
+      }
+      // 如果混合分数相近，优先选择关键词匹配度高的
+      return b.keyword_match_ratio - a.keyword_match_ratio;
+    })
+    .slice(0, limit);
+  
+  return fusedResults;
+}
\ No newline at end of file
@@ -0,0 +1,689 @@
+/**
+ * 文档导入任务队列
+ * 上传请求只负责创建任务，由进程内的后台工作者依次完成
+ * 提取 → 分块 → 向量生成 → 入库，任务状态与进度持久化在 ingestion_jobs 表中
+ * 上传的文件或文本作为文档的新版本入库，全部分块保存后才切换为当前版本
+ * 导入时向量生成失败的分块以空向量入库，文档所有者可以再次提交任务只补齐这些分块
+ */
+import { supabaseAdmin } from '../lib/supabase.js';
+import { extractFileChunks, normalizeChunks, chunkTextDocument, rebuildSectionsFromChunks, ChunkData } from './documentProcessingService.js';
+import { generateEmbeddingsInBatches, toEmbeddingColumns, QUERY_EMBEDDING_INSTRUCT } from './embeddingService.js';
+import { resolveChunkingConfig, ChunkingOptions } from './chunkingService.js';
+import { getCategorySettings } from './categoryService.js';
+import { getFileStorage, buildStoragePath } from './fileStorageService.js';
+import { activateDocumentVersion } from './documentVersionService.js';
+import { refreshDocumentSimilarities } from './duplicateDetectionService.js';
+
+/**
+ * 导入任务状态
+ */
+export type IngestionJobStatus = 'queued' | 'extracting' | 'chunking' | 'embedding' | 'done' | 'failed';
+
+/**
+ * 导入任务记录
+ */
+export interface IngestionJob {
+  id: string;
+  user_id: string;
+  document_id: string | null;
+  category_id: string | null;
+  title: string;
+  file_name: string | null;
+  file_type: string | null;
+  file_size: number | null;
+  status: IngestionJobStatus;
+  progress: number;
+  total_chunks: number | null;
+  processed_chunks: number;
+  failed_chunk_indexes: number[];
+  error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 重新处理的已有文档
+ */
+export interface StoredDocument {
+  id: string;
+  title: string;
+  /** 原始文件在存储中的路径，未保存原始文件时为空 */
+  file_url: string | null;
+  file_name: string | null;
+  file_type: string | null;
+  file_size: number | null;
+}
+
+/**
+ * 导入内容来源：上传的文件、直接输入的文本、重新处理已有文档，或补齐已有文档缺少的向量
+ */
+export type IngestionSource =
+  /** rawChunks：上传请求中已提取的原始分块（重复检测时提取），避免重复解析 */
+  | { kind: 'file'; file: Express.Multer.File; rawChunks?: ChunkData[] }
+  | { kind: 'text'; content: string }
+  | { kind: 'document'; document: StoredDocument }
+  | { kind: 'missing_embeddings'; documentId: string };
+
+/**
+ * 创建导入任务的参数
+ */
+export interface EnqueueIngestionParams {
+  userId: string;
+  title: string;
+  categoryId?: string | null;
+  source: IngestionSource;
+  /** 本次导入指定的分块选项，未指定的字段使用分类设置 */
+  chunking?: ChunkingOptions;
+  /** 上传文件或文本的内容哈希，用于重复检测 */
+  contentHash?: string;
+  /** 作为新版本导入的已有文档（文档ID保持不变，旧版本保留） */
+  replaceDocumentId?: string | null;
+}
+
+/**
+ * 队列中等待处理的任务（文件内容只保存在内存中）
+ */
+interface PendingTask extends EnqueueIngestionParams {
+  jobId: string;
+}
+
+/**
+ * 各阶段对应的进度百分比，向量生成阶段在 EMBEDDING_START 与 EMBEDDING_END 之间按分块推进
+ */
+const PROGRESS = {
+  extracting: 5,
+  chunking: 15,
+  EMBEDDING_START: 20,
+  EMBEDDING_END: 95,
+  done: 100
+};
+
+/**
+ * 进度至少变化多少个百分点才写入数据库，避免逐块更新
+ */
+const PROGRESS_WRITE_STEP = 5;
+
+/**
+ * 进程内导入任务队列（单工作者，按提交顺序处理）
+ */
+export class IngestionQueue {
+  private pending: PendingTask[] = [];
+  private running = false;
+
+  /**
+   * 创建导入任务并加入队列
+   * @param params 任务参数
+   * @returns 新建的任务记录
+   */
+  async enqueue(params: EnqueueIngestionParams): Promise<IngestionJob> {
+    const { userId, title, categoryId, source } = params;
+
+    const { data: job, error } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .insert({
+        user_id: userId,
+        title,
+        category_id: categoryId || null,
+        document_id: sourceDocumentId(source) || params.replaceDocumentId || null,
+        ...describeSource(source, title),
+        status: 'queued',
+        progress: 0
+      })
+      .select()
+      .single();
+
+    if (error || !job) {
+      console.error('❌ 创建导入任务失败:', error);
+      throw new Error('创建导入任务失败');
+    }
+
+    console.log('📥 导入任务已入队:', job.id, `(队列长度: ${this.pending.length + 1})`);
+    this.pending.push({ ...params, jobId: job.id });
+
+    // 不等待处理完成，立即返回任务
+    void this.drain();
+
+    return job as IngestionJob;
+  }
+
+  /**
+   * 当前排队中的任务数量
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * 依次处理队列中的任务
+   */
+  private async drain() {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      while (this.pending.length > 0) {
+        const task = this.pending.shift()!;
+        await this.process(task);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * 处理单个导入任务
+   */
+  private async process(task: PendingTask) {
+    if (task.source.kind === 'missing_embeddings') {
+      return this.processMissingEmbeddings(task.jobId, task.source.documentId);
+    }
+
+    const { jobId, userId, title, categoryId, source, chunking, contentHash, replaceDocumentId } = task;
+    const startTime = Date.now();
+    // 重新处理或上传新版本时文档已存在，失败后不删除
+    const targetDocumentId = source.kind === 'document' ? source.document.id : replaceDocumentId || null;
+    let documentId: string | null = targetDocumentId;
+    let versionId: string | null = null;
+    let storagePath: string | null = null;
+
+    console.log('=== 导入任务开始 ===', jobId);
+
+    try {
+      // 1. 提取内容
+      await this.updateJob(jobId, {
+        status: 'extracting',
+        progress: PROGRESS.extracting,
+        started_at: new Date().toISOString()
+      });
+
+      // 文本任务无需提取，直接进入分块
+      let rawChunks: ChunkData[] = [];
+      if (source.kind === 'file') {
+        rawChunks = source.rawChunks || await extractFileChunks(source.file);
+      } else if (source.kind === 'document') {
+        rawChunks = await this.loadStoredSections(source.document);
+      }
+
+      // 2. 分块（上传时指定 > 分类设置（含上级分类） > 默认配置）
+      await this.updateJob(jobId, { status: 'chunking', progress: PROGRESS.chunking });
+
+      const chunkingConfig = resolveChunkingConfig(chunking, await this.getCategoryChunking(userId, categoryId));
+      const { file_name: fileName, file_type: fileType, file_size: fileSize } = describeSource(source, title);
+      let chunks: ChunkData[];
+      if (source.kind === 'text') {
+        chunks = chunkTextDocument(source.content, fileName, chunkingConfig);
+      } else if (source.kind === 'document' && rawChunks.length === 1 && !rawChunks[0].metadata.section) {
+        // 没有页码和章节结构的文档按纯文本重新切分（heading 策略可拆出 Markdown 标题）
+        chunks = chunkTextDocument(rawChunks[0].text, rawChunks[0].metadata.source, chunkingConfig);
+      } else {
+        chunks = normalizeChunks(rawChunks, chunkingConfig);
+      }
+
+      if (chunks.length === 0) {
+        throw new Error('未能从文档中提取到有效内容');
+      }
+
+      console.log('- 分块数量:', chunks.length);
+
+      // 保存原始文件，供下载和重新处理使用
+      if (source.kind === 'file') {
+        storagePath = buildStoragePath(userId, source.file.originalname);
+        try {
+          await getFileStorage().upload(storagePath, source.file.buffer, source.file.mimetype);
+        } catch (error) {
+          storagePath = null;
+          console.error('❌ 保存原始文件失败:', error instanceof Error ? error.message : String(error));
+          throw new Error('保存原始文件失败');
+        }
+      }
+
+      // 合并所有分块文本作为文档内容（文本文档保留原文）
+      const content = source.kind === 'text' ? source.content : chunks.map(chunk => chunk.text).join('\n\n');
+
+      if (!targetDocumentId) {
+        const { data: document, error: docError } = await supabaseAdmin
+          .from('documents')
+          .insert({
+            title,
+            content,
+            file_url: storagePath,
+            file_name: fileName,
+            file_size: fileSize,
+            file_type: fileType,
+            content_hash: contentHash || null,
+            user_id: userId,
+            category_id: categoryId || null
+          })
+          .select()
+          .single();
+
+        if (docError || !document) {
+          console.error('❌ 保存文档失败:', docError);
+          throw new Error('保存文档失败');
+        }
+
+        documentId = document.id;
+      }
+
+      // 新内容作为文档的新版本（重新处理只替换当前版本的文档块）
+      if (source.kind !== 'document') {
+        versionId = await this.createVersion(documentId!, userId, {
+          title,
+          content,
+          file_url: storagePath,
+          file_name: fileName,
+          file_size: fileSize,
+          file_type: fileType,
+          content_hash: contentHash || null,
+          chunk_count: chunks.length
+        });
+      }
+
+      // 3. 生成向量
+      await this.updateJob(jobId, {
+        status: 'embedding',
+        progress: PROGRESS.EMBEDDING_START,
+        document_id: documentId,
+        total_chunks: chunks.length,
+        processed_chunks: 0
+      });
+
+      let lastWrittenProgress = PROGRESS.EMBEDDING_START;
+
+      // 与查询使用相同的指令，保持与已入库向量一致
+      const { embeddings, failedIndexes, lastError, signature } = await generateEmbeddingsInBatches(
+        chunks.map(chunk => chunk.text),
+        {
+          instruct: QUERY_EMBEDDING_INSTRUCT,
+          onProgress: async (processed, total) => {
+            const progress = Math.round(
+              PROGRESS.EMBEDDING_START + (processed / total) * (PROGRESS.EMBEDDING_END - PROGRESS.EMBEDDING_START)
+            );
+            if (progress - lastWrittenProgress >= PROGRESS_WRITE_STEP) {
+              lastWrittenProgress = progress;
+              await this.updateJob(jobId, { progress, processed_chunks: processed });
+            }
+          }
+        }
+      );
+
+      if (failedIndexes.length === chunks.length) {
+        throw new Error(`向量生成失败: ${lastError || '未知错误'}`);
+      }
+
+      // 部分失败时保留文档，失败的分块以空向量入库，等待补齐
+      const chunkData = chunks.map((chunk, i) => ({
+        document_id: documentId,
+        version_id: versionId,
+        content: chunk.text,
+        chunk_index: i,
+        ...toEmbeddingColumns(embeddings[i], signature),
+        metadata: JSON.stringify(chunk.metadata)
+      }));
+
+      // 4. 保存文档块（重新处理时在一个事务中替换当前版本的文档块）
+      if (source.kind === 'document') {
+        const { error: replaceError } = await supabaseAdmin.rpc('replace_document_chunks', {
+          target_document_id: source.document.id,
+          new_chunks: chunkData.map(chunk => ({ ...chunk, metadata: chunks[chunk.chunk_index].metadata })),
+          // 重新处理时保留原有内容
+          new_content: null
+        });
+
+        if (replaceError) {
+          console.error('❌ 替换文档块失败:', replaceError);
+          throw new Error('替换文档块失败');
+        }
+      } else {
+        // 新版本的文档块先以非当前版本入库，全部保存后再切换，检索不会读到不完整的版本
+        const { error: chunkError } = await supabaseAdmin
+          .from('document_chunks')
+          .insert(chunkData.map(chunk => ({ ...chunk, is_active: false })));
+
+        if (chunkError) {
+          console.error('❌ 保存文档块失败:', chunkError);
+          throw new Error('保存文档块失败');
+        }
+
+        try {
+          await activateDocumentVersion(documentId!, versionId!);
+        } catch (activateError) {
+          console.error('❌ 切换文档版本失败:', activateError);
+          throw new Error('切换文档版本失败');
+        }
+
+        if (targetDocumentId && categoryId) {
+          await supabaseAdmin.from('documents').update({ category_id: categoryId }).eq('id', targetDocumentId);
+        }
+      }
+
+      // 当前版本的文档块已变化，更新疑似重复文档报告使用的相似文档对
+      await refreshDocumentSimilarities(documentId!);
+
+      await this.updateJob(jobId, {
+        status: 'done',
+        progress: PROGRESS.done,
+        processed_chunks: chunks.length,
+        failed_chunk_indexes: failedIndexes,
+        error: failedIndexes.length > 0
+          ? `${failedIndexes.length}/${chunks.length} 个分块向量生成失败: ${lastError || '未知错误'}`
+          : null,
+        finished_at: new Date().toISOString()
+      });
+
+      if (failedIndexes.length > 0) {
+        console.warn('⚠️ 导入任务部分完成:', jobId, '- 缺少向量的分块:', failedIndexes);
+      }
+      console.log('🎉 导入任务完成:', jobId);
+      console.log('- 处理时间:', Date.now() - startTime, 'ms');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('💥 导入任务失败:', jobId, message);
+
+      // 清理已保存的文档或新版本（重新处理时旧文档块未被替换，上传新版本时当前版本未切换，保持原样）
+      if (documentId && !targetDocumentId) {
+        const { error: deleteError } = await supabaseAdmin.from('documents').delete().eq('id', documentId);
+        if (deleteError) {
+          console.error('❌ 清理文档失败:', deleteError);
+        }
+      } else if (versionId) {
+        const { error: deleteError } = await supabaseAdmin.from('document_versions').delete().eq('id', versionId);
+        if (deleteError) {
+          console.error('❌ 清理文档版本失败:', deleteError);
+        }
+      }
+      if (storagePath) {
+        await getFileStorage().remove(storagePath).catch(removeError => {
+          console.error('❌ 清理原始文件失败:', removeError instanceof Error ? removeError.message : String(removeError));
+        });
+      }
+
+      await this.updateJob(jobId, {
+        status: 'failed',
+        error: message,
+        document_id: targetDocumentId,
+        finished_at: new Date().toISOString()
+      });
+    } finally {
+      console.log('=== 导入任务结束 ===', jobId);
+    }
+  }
+
+  /**
+   * 为文档当前版本中缺少向量的文档块重新生成向量，不重新分块
+   * 仍然失败的分块记录在任务的 failed_chunk_indexes 中，可以再次提交
+   */
+  private async processMissingEmbeddings(jobId: string, documentId: string) {
+    const startTime = Date.now();
+
+    console.log('=== 补齐向量任务开始 ===', jobId);
+
+    try {
+      const { data: chunks, error } = await supabaseAdmin
+        .from('document_chunks')
+        .select('id, content, chunk_index')
+        .eq('document_id', documentId)
+        .eq('is_active', true)
+        .is('embedding', null)
+        .order('chunk_index', { ascending: true });
+
+      if (error) {
+        console.error('❌ 读取文档块失败:', error);
+        throw new Error('读取文档块失败');
+      }
+
+      const missingChunks = chunks || [];
+      console.log('- 缺少向量的分块数量:', missingChunks.length);
+
+      await this.updateJob(jobId, {
+        status: 'embedding',
+        progress: PROGRESS.EMBEDDING_START,
+        started_at: new Date().toISOString(),
+        total_chunks: missingChunks.length,
+        processed_chunks: 0
+      });
+
+      const { embeddings, lastError, signature } = await generateEmbeddingsInBatches(
+        missingChunks.map(chunk => chunk.content),
+        { instruct: QUERY_EMBEDDING_INSTRUCT }
+      );
+
+      const results = await Promise.all(missingChunks.map(async (chunk, i) => {
+        if (!embeddings[i]) return false;
+        const { error: updateError } = await supabaseAdmin
+          .from('document_chunks')
+          .update(toEmbeddingColumns(embeddings[i], signature))
+          .eq('id', chunk.id);
+        if (updateError) {
+          console.error('❌ 更新文档块向量失败:', chunk.id, updateError);
+        }
+        return !updateError;
+      }));
+
+      const failedIndexes = missingChunks.filter((_, i) => !results[i]).map(chunk => chunk.chunk_index);
+
+      if (missingChunks.length > 0 && failedIndexes.length === missingChunks.length) {
+        throw new Error(`向量生成失败: ${lastError || '未知错误'}`);
+      }
+
+      if (failedIndexes.length < missingChunks.length) {
+        await refreshDocumentSimilarities(documentId);
+      }
+
+      await this.updateJob(jobId, {
+        status: 'done',
+        progress: PROGRESS.done,
+        processed_chunks: missingChunks.length,
+        failed_chunk_indexes: failedIndexes,
+        error: failedIndexes.length > 0
+          ? `${failedIndexes.length}/${missingChunks.length} 个分块向量生成失败: ${lastError || '未知错误'}`
+          : null,
+        finished_at: new Date().toISOString()
+      });
+
+      console.log('🎉 补齐向量任务完成:', jobId, failedIndexes.length > 0 ? `- 仍缺少向量的分块: ${failedIndexes}` : '');
+      console.log('- 处理时间:', Date.now() - startTime, 'ms');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('💥 补齐向量任务失败:', jobId, message);
+
+      await this.updateJob(jobId, {
+        status: 'failed',
+        error: message,
+        finished_at: new Date().toISOString()
+      });
+    } finally {
+      console.log('=== 补齐向量任务结束 ===', jobId);
+    }
+  }
+
+  /**
+   * 创建文档的下一个版本，返回版本ID
+   */
+  private async createVersion(documentId: string, userId: string, fields: Record<string, unknown>): Promise<string> {
+    const { data: latest } = await supabaseAdmin
+      .from('document_versions')
+      .select('version_number')
+      .eq('document_id', documentId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: version, error } = await supabaseAdmin
+      .from('document_versions')
+      .insert({
+        ...fields,
+        document_id: documentId,
+        version_number: (latest?.version_number || 0) + 1,
+        created_by: userId
+      })
+      .select('id, version_number')
+      .single();
+
+    if (error || !version) {
+      console.error('❌ 创建文档版本失败:', error);
+      throw new Error('创建文档版本失败');
+    }
+
+    console.log('- 文档版本:', version.version_number);
+    return version.id;
+  }
+
+  /**
+   * 读取已有文档的原始内容：优先重新解析保存的原始文件，没有原始文件时由文档块还原
+   */
+  private async loadStoredSections(document: StoredDocument): Promise<ChunkData[]> {
+    const fileName = document.file_name || `${document.title}.txt`;
+
+    if (document.file_url) {
+      const buffer = await getFileStorage().download(document.file_url);
+      return extractFileChunks({
+        originalname: fileName,
+        mimetype: document.file_type || 'application/octet-stream',
+        size: buffer.length,
+        buffer
+      } as Express.Multer.File);
+    }
+
+    const { data: rows, error } = await supabaseAdmin
+      .from('document_chunks')
+      .select('content, metadata')
+      .eq('document_id', document.id)
+      .eq('is_active', true)
+      .order('chunk_index', { ascending: true });
+
+    if (error) {
+      console.error('❌ 读取文档块失败:', error);
+      throw new Error('读取文档块失败');
+    }
+
+    return rebuildSectionsFromChunks(rows || [], fileName);
+  }
+
+  /**
+   * 读取分类的分块设置（未设置的项沿用上级分类），分类不存在时返回 null
+   */
+  private async getCategoryChunking(userId: string, categoryId?: string | null): Promise<ChunkingOptions | null> {
+    if (!categoryId) return null;
+
+    try {
+      const settings = await getCategorySettings(userId, categoryId);
+      return settings?.chunking ?? null;
+    } catch (error) {
+      console.error('❌ 读取分类分块设置失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 更新任务记录，失败时只记录日志
+   */
+  private async updateJob(jobId: string, patch: Partial<IngestionJob>) {
+    const { error } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .update(patch)
+      .eq('id', jobId);
+
+    if (error) {
+      console.error('❌ 更新导入任务失败:', jobId, error);
+    }
+  }
+}
+
+/**
+ * 导入来源对应的已有文档ID（新上传的内容没有）
+ */
+function sourceDocumentId(source: IngestionSource): string | null {
+  switch (source.kind) {
+    case 'document':
+      return source.document.id;
+    case 'missing_embeddings':
+      return source.documentId;
+    default:
+      return null;
+  }
+}
+
+/**
+ * 导入来源对应的文件信息（文本文档按 .txt 记录）
+ */
+function describeSource(source: IngestionSource, title: string) {
+  switch (source.kind) {
+    case 'file':
+      return { file_name: source.file.originalname, file_type: source.file.mimetype, file_size: source.file.size };
+    case 'text':
+      return { file_name: `${title}.txt`, file_type: 'text/plain', file_size: Buffer.byteLength(source.content, 'utf8') };
+    case 'document':
+      return { file_name: source.document.file_name || `${title}.txt`, file_type: source.document.file_type, file_size: source.document.file_size };
+    case 'missing_embeddings':
+      return { file_name: null, file_type: null, file_size: null };
+  }
+}
+
+// 创建单例实例
+let ingestionQueueInstance: IngestionQueue | null = null;
+
+/**
+ * 获取导入任务队列实例
+ */
+export function getIngestionQueue(): IngestionQueue {
+  if (!ingestionQueueInstance) {
+    ingestionQueueInstance = new IngestionQueue();
+  }
+  return ingestionQueueInstance;
+}
+
+/**
+ * 便捷函数：创建导入任务
+ */
+export async function enqueueIngestion(params: EnqueueIngestionParams): Promise<IngestionJob> {
+  return getIngestionQueue().enqueue(params);
+}
+
+/**
+ * 获取用户的导入任务
+ * @param jobId 任务ID
+ * @param userId 用户ID
+ * @returns 任务记录，不存在或无权限时返回 null
+ */
+export async function getIngestionJob(jobId: string, userId: string): Promise<IngestionJob | null> {
+  const { data: job, error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !job) {
+    return null;
+  }
+
+  return job as IngestionJob;
+}
+
+/**
+ * 将上次进程退出时未完成的任务标记为失败
+ * 文件内容只保存在内存中，进程重启后无法继续处理
+ */
+export async function failInterruptedJobs() {
+  const { data: jobs, error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      status: 'failed',
+      error: '服务重启，导入任务被中断，请重新上传',
+      finished_at: new Date().toISOString()
+    })
+    .in('status', ['queued', 'extracting', 'chunking', 'embedding'])
+    .select('id');
+
+  if (error) {
+    console.error('❌ 清理中断的导入任务失败:', error);
+    return;
+  }
+
+  if (jobs && jobs.length > 0) {
+    console.log(`⚠️ 已将 ${jobs.length} 个中断的导入任务标记为失败`);
+  }
+}
\ No newline at end of file
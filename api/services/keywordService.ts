@@ -1,32 +1,231 @@
 // 顶部导入区域
-import { extractKeywordsWithGPT, KeywordExtractionRequest } from './openrouterService';
+import { extractKeywordsWithGPT } from './openrouterService';
+import { extractKeywordsWithTextRank, extractKeywordsWithAliyunNLP, extractKeywordsWithBaiduAI } from '../lib/aliyun-nlp.js';
+import { extractKeywordsWithSegmenter } from '../lib/local-segmenter.js';
 
 /**
- * 提取关键词（仅使用GPT，失败时返回空数组）
+ * 关键词提取提供方名称
+ * - gpt：OpenRouter 大模型语义关键词（含隐藏关键词）
+ * - aliyun：阿里云 NLP 自学习平台 textrank
+ * - aliyun-ecom：阿里云基础文本服务电商中心词
+ * - baidu：百度 AI 关键词提取
+ * - local：本地分词 + 停用词过滤（离线可用）
+ */
+export type KeywordProviderName = 'gpt' | 'aliyun' | 'aliyun-ecom' | 'baidu' | 'local';
+
+/**
+ * 关键词提取提供方
+ */
+interface KeywordProvider {
+  /** 默认超时时间（毫秒），可通过 KEYWORD_<NAME>_TIMEOUT_MS 覆盖 */
+  timeoutMs: number;
+  /** 凭证是否已配置，未配置的提供方直接跳过 */
+  isConfigured(): boolean;
+  extract(text: string, maxKeywords: number): Promise<string[]>;
+}
+
+/**
+ * 提取失败时抛出，便于按提供方记录原因
+ */
+async function unwrap(result: Promise<{ keywords: string[]; success: boolean; error?: string }>): Promise<string[]> {
+  const { keywords, success, error } = await result;
+  if (!success) {
+    throw new Error(error || '提取失败');
+  }
+  return keywords;
+}
+
+const KEYWORD_PROVIDERS: Record<KeywordProviderName, KeywordProvider> = {
+  gpt: {
+    timeoutMs: 8000,
+    isConfigured: () => Boolean(process.env.OPENROUTER_API_KEY),
+    extract: async (text, maxKeywords) => (await extractKeywordsWithGPT({ text, maxKeywords })).keywords
+  },
+  aliyun: {
+    timeoutMs: 3000,
+    isConfigured: () => Boolean(process.env.ALIYUN_ACCESS_KEY_ID && process.env.ALIYUN_ACCESS_KEY_SECRET),
+    extract: (text, maxKeywords) => unwrap(extractKeywordsWithTextRank(text, maxKeywords))
+  },
+  'aliyun-ecom': {
+    timeoutMs: 3000,
+    isConfigured: () => Boolean(process.env.ALIYUN_ACCESS_KEY_ID && process.env.ALIYUN_ACCESS_KEY_SECRET),
+    extract: (text, maxKeywords) => unwrap(extractKeywordsWithAliyunNLP(text, maxKeywords))
+  },
+  baidu: {
+    timeoutMs: 3000,
+    isConfigured: () => Boolean(process.env.BAIDU_API_KEY && process.env.BAIDU_SECRET_KEY),
+    extract: (text, maxKeywords) => unwrap(extractKeywordsWithBaiduAI(text, maxKeywords))
+  },
+  local: {
+    timeoutMs: 1000,
+    isConfigured: () => true,
+    extract: async (text, maxKeywords) => extractKeywordsWithSegmenter(text, maxKeywords)
+  }
+};
+
+/**
+ * 默认提供方顺序：远程服务依次尝试，最后使用本地分词兜底
+ */
+const DEFAULT_PROVIDER_CHAIN: KeywordProviderName[] = ['gpt', 'aliyun', 'baidu', 'local'];
+
+const DEFAULT_MAX_KEYWORDS = 8;
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * 判断是否为支持的关键词提供方
+ */
+export function isKeywordProviderName(value: unknown): value is KeywordProviderName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(KEYWORD_PROVIDERS, value);
+}
+
+/**
+ * 获取关键词提供方链（KEYWORD_PROVIDERS 环境变量，逗号分隔，如 "gpt,aliyun,baidu,local"）
+ * 未知名称会被忽略；配置为空时使用默认顺序
+ */
+export function getKeywordProviderChain(): KeywordProviderName[] {
+  const configured = (process.env.KEYWORD_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(isKeywordProviderName);
+
+  return configured.length > 0 ? [...new Set(configured)] : DEFAULT_PROVIDER_CHAIN;
+}
+
+/**
+ * 在超时时间内等待提供方返回，超时后放弃等待（底层请求不会被中止）
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} 超时 (${timeoutMs}ms)`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * 按查询缓存的关键词结果（LRU + 过期时间）
+ */
+export class KeywordCache {
+  private entries = new Map<string, { keywords: string[]; expiresAt: number }>();
+
+  constructor(private maxEntries: number, private ttlMs: number) {}
+
+  get(key: string): string[] | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // 重新插入，使其成为最近使用的条目
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.keywords;
+  }
+
+  set(key: string, keywords: string[]) {
+    this.entries.delete(key);
+    this.entries.set(key, { keywords, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+// 创建单例实例
+let keywordCacheInstance: KeywordCache | null = null;
+
+/**
+ * 获取关键词缓存实例（KEYWORD_CACHE_SIZE 默认 500 条，KEYWORD_CACHE_TTL_MS 默认 10 分钟）
+ */
+export function getKeywordCache(): KeywordCache {
+  if (!keywordCacheInstance) {
+    keywordCacheInstance = new KeywordCache(
+      readPositiveInt('KEYWORD_CACHE_SIZE', 500),
+      readPositiveInt('KEYWORD_CACHE_TTL_MS', 10 * 60 * 1000)
+    );
+  }
+  return keywordCacheInstance;
+}
+
+/**
+ * 关键词提取选项
+ */
+export interface ExtractKeywordsOptions {
+  /** 最多返回的关键词数量 */
+  maxKeywords?: number;
+  /** 本次使用的提供方链，默认读取 KEYWORD_PROVIDERS */
+  providers?: KeywordProviderName[];
+}
+
+/**
+ * 提取关键词：按提供方链依次尝试，返回第一个非空结果，全部失败时返回空数组
+ * 每个提供方有独立超时，结果按查询缓存
  * @param query 查询文本
+ * @param options 提取选项（可选）
  * @returns 关键词数组
  */
-export async function extractKeywords(query: string): Promise<string[]> {
+export async function extractKeywords(query: string, options: ExtractKeywordsOptions = {}): Promise<string[]> {
   console.log('🔍 提取关键词...');
-  
-  try {
-    // 使用GPT关键词提取服务
-    const gptRequest: KeywordExtractionRequest = {
-      text: query,
-      maxKeywords: 8
-    };
-    
-    const gptResult = await extractKeywordsWithGPT(gptRequest);
-    
-    if (gptResult.keywords.length > 0) {
-      console.log('✅ 关键词提取成功');
-      return gptResult.keywords;
-    } else {
-      console.log('⚠️ 无关键词结果');
-      return [];
-    }
-  } catch (error) {
-    console.log('⚠️ 关键词提取失败:', error instanceof Error ? error.message : String(error));
+
+  const text = query.trim();
+  if (!text) {
     return [];
   }
+
+  const maxKeywords = options.maxKeywords || DEFAULT_MAX_KEYWORDS;
+  const chain = options.providers || getKeywordProviderChain();
+  const cacheKey = `${chain.join(',')}|${maxKeywords}|${text}`;
+
+  const cached = getKeywordCache().get(cacheKey);
+  if (cached) {
+    console.log('✅ 关键词命中缓存');
+    return cached;
+  }
+
+  for (const name of chain) {
+    const provider = KEYWORD_PROVIDERS[name];
+    if (!provider.isConfigured()) {
+      continue;
+    }
+
+    const timeoutMs = readPositiveInt(`KEYWORD_${name.toUpperCase().replace(/-/g, '_')}_TIMEOUT_MS`, provider.timeoutMs);
+
+    try {
+      const keywords = await withTimeout(provider.extract(text, maxKeywords), timeoutMs, name);
+
+      if (keywords.length > 0) {
+        console.log(`✅ 关键词提取成功 (${name})`);
+        const result = keywords.slice(0, maxKeywords);
+        getKeywordCache().set(cacheKey, result);
+        return result;
+      }
+
+      console.log(`⚠️ ${name} 无关键词结果，尝试下一个提供方`);
+    } catch (error) {
+      console.log(`⚠️ ${name} 关键词提取失败:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  console.log('⚠️ 无关键词结果');
+  return [];
+}
+
+/**
+ * 清空关键词缓存
+ */
+export function clearKeywordCache() {
+  getKeywordCache().clear();
 }
\ No newline at end of file
@@ -41,6 +41,21 @@ export interface ChatCompletionResponse {
   };
 }
 
+/**
+ * 流式聊天完成的增量数据块
+ */
+export interface ChatCompletionChunk {
+  choices: Array<{
+    delta: {
+      content?: string;
+      role?: string;
+    };
+    finish_reason?: string | null;
+  }>;
+  model: string;
+  usage?: ChatCompletionResponse['usage'];
+}
+
 /**
  * 模型信息接口
  */
@@ -48,8 +63,15 @@ export interface ModelInfo {
   id: string;
   name: string;
   provider: string;
+  /** 上下文窗口大小（token，含输入与输出） */
+  contextLength: number;
 }
 
+/**
+ * 未在模型列表中的模型使用的上下文窗口大小
+ */
+export const DEFAULT_CONTEXT_LENGTH = parseInt(process.env.DEFAULT_MODEL_CONTEXT_LENGTH || '8192', 10);
+
 /**
  * OpenRouter服务类
  */
@@ -88,8 +110,8 @@ export class OpenRouterService {
         body: JSON.stringify({
           model: request.model,
           messages: request.messages,
-          temperature: request.temperature || 0.7,
-          max_tokens: request.max_tokens || 2000,
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.max_tokens ?? 2000,
         }),
       });
 
@@ -109,26 +131,98 @@ export class OpenRouterService {
     }
   }
 
+  /**
+   * 以流式方式调用OpenRouter聊天完成API
+   * @param request 聊天请求参数
+   * @param signal 用于中止上游请求的信号（可选）
+   * @returns 逐个产出增量数据块的异步生成器
+   */
+  async *chatCompletionStream(request: ChatCompletionRequest, signal?: AbortSignal): AsyncGenerator<ChatCompletionChunk> {
+    console.log('🤖 调用流式API:', request.model);
+
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'HTTP-Referer': this.siteUrl,
+        'X-Title': this.siteName,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.max_tokens ?? 2000,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      console.error('❌ API错误:', response.status, response.statusText);
+      throw new Error(`Openrouter API错误: ${response.statusText} - ${errorText}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder('utf-8');
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE事件以空行分隔，保留最后一个不完整的片段
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          // 忽略注释行（OpenRouter会发送 ": OPENROUTER PROCESSING" 保活）和空行
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') {
+            console.log('✅ 流式API调用完成');
+            return;
+          }
+
+          try {
+            yield JSON.parse(payload) as ChatCompletionChunk;
+          } catch {
+            console.warn('⚠️ 无法解析流式数据块:', payload.substring(0, 100));
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
   /**
    * 获取可用模型列表
    */
   getAvailableModels(): ModelInfo[] {
     return [
-      { id: 'openai/gpt-5-mini', name: 'GPT-5 Mini', provider: 'OpenAI' },
-      { id: 'google/gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', provider: 'Google' },
-      { id: 'openai/gpt-4o-mini', name: 'GPT-4o Mini', provider: 'OpenAI' },
-      { id: 'anthropic/claude-3.5-haiku', name: 'Claude 3.5 Haiku', provider: 'Anthropic' },
-      { id: 'x-ai/grok-4', name: 'Grok 4', provider: 'X.AI' },
-      { id: 'qwen/qwen3-235b-a22b-thinking-2507', name: 'Qwen3 235B Thinking', provider: 'Qwen' },
-      { id: 'deepseek/deepseek-chat-v3-0324:free', name: 'DeepSeek Chat V3 (Free)', provider: 'DeepSeek' },
+      { id: 'openai/gpt-5-mini', name: 'GPT-5 Mini', provider: 'OpenAI', contextLength: 400000 },
+      { id: 'google/gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', provider: 'Google', contextLength: 1048576 },
+      { id: 'openai/gpt-4o-mini', name: 'GPT-4o Mini', provider: 'OpenAI', contextLength: 128000 },
+      { id: 'anthropic/claude-3.5-haiku', name: 'Claude 3.5 Haiku', provider: 'Anthropic', contextLength: 200000 },
+      { id: 'x-ai/grok-4', name: 'Grok 4', provider: 'X.AI', contextLength: 256000 },
+      { id: 'qwen/qwen3-235b-a22b-thinking-2507', name: 'Qwen3 235B Thinking', provider: 'Qwen', contextLength: 262144 },
+      { id: 'deepseek/deepseek-chat-v3-0324:free', name: 'DeepSeek Chat V3 (Free)', provider: 'DeepSeek', contextLength: 163840 },
       // 原有模型
-      { id: 'openai/gpt-4o', name: 'GPT-4o', provider: 'OpenAI' },
-      { id: 'openai/gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'OpenAI' },
-      { id: 'anthropic/claude-3-opus', name: 'Claude 3 Opus', provider: 'Anthropic' },
-      { id: 'anthropic/claude-3-sonnet', name: 'Claude 3 Sonnet', provider: 'Anthropic' },
-      { id: 'anthropic/claude-3-haiku', name: 'Claude 3 Haiku', provider: 'Anthropic' },
-      { id: 'google/gemini-pro', name: 'Gemini Pro', provider: 'Google' },
-      { id: 'meta-llama/llama-2-70b-chat', name: 'Llama 2 70B', provider: 'Meta' },
+      { id: 'openai/gpt-4o', name: 'GPT-4o', provider: 'OpenAI', contextLength: 128000 },
+      { id: 'openai/gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'OpenAI', contextLength: 16385 },
+      { id: 'anthropic/claude-3-opus', name: 'Claude 3 Opus', provider: 'Anthropic', contextLength: 200000 },
+      { id: 'anthropic/claude-3-sonnet', name: 'Claude 3 Sonnet', provider: 'Anthropic', contextLength: 200000 },
+      { id: 'anthropic/claude-3-haiku', name: 'Claude 3 Haiku', provider: 'Anthropic', contextLength: 200000 },
+      { id: 'google/gemini-pro', name: 'Gemini Pro', provider: 'Google', contextLength: 32760 },
+      { id: 'meta-llama/llama-2-70b-chat', name: 'Llama 2 70B', provider: 'Meta', contextLength: 4096 },
     ];
   }
 }
@@ -154,6 +248,14 @@ export async function chatCompletion(request: ChatCompletionRequest): Promise<Ch
   return service.chatCompletion(request);
 }
 
+/**
+ * 便捷函数：以流式方式调用聊天完成API
+ */
+export function chatCompletionStream(request: ChatCompletionRequest, signal?: AbortSignal): AsyncGenerator<ChatCompletionChunk> {
+  const service = getOpenRouterService();
+  return service.chatCompletionStream(request, signal);
+}
+
 /**
  * 便捷函数：获取可用模型列表
  */
@@ -162,6 +264,15 @@ export function getAvailableModels(): ModelInfo[] {
   return service.getAvailableModels();
 }
 
+/**
+ * 获取模型的上下文窗口大小，未知模型返回 DEFAULT_CONTEXT_LENGTH
+ * @param modelId 模型ID
+ */
+export function getModelContextLength(modelId: string): number {
+  const model = getAvailableModels().find(item => item.id === modelId);
+  return model?.contextLength || DEFAULT_CONTEXT_LENGTH;
+}
+
 
 
 /**
@@ -0,0 +1,181 @@
+/**
+ * 查询改写服务
+ * 检索前结合对话历史把最后一个问题改写为独立的检索查询，可选：
+ * - subQueries：把复合问题拆分为多个子查询分别检索
+ * - hyde：生成一段假设性回答（HyDE），用其文本参与检索
+ * 改写失败时回退为原始问题，不影响正常回答
+ */
+import { chatCompletion, ChatMessage } from './openrouterService.js';
+
+/**
+ * 查询改写选项
+ */
+export interface QueryRewriteOptions {
+  /** 是否结合对话历史改写问题（默认 QUERY_REWRITE 环境变量，未配置时开启） */
+  enabled?: boolean;
+  /** 最多拆分的子查询数量（默认 QUERY_REWRITE_SUB_QUERIES，未配置时为 0） */
+  subQueries?: number;
+  /** 是否生成假设性回答参与检索（默认 QUERY_REWRITE_HYDE，未配置时关闭） */
+  hyde?: boolean;
+  /** 改写使用的模型 */
+  model?: string;
+}
+
+/**
+ * 改写结果
+ */
+export interface RewrittenQuery {
+  /** 用户原始问题 */
+  original: string;
+  /** 结合上下文改写后的独立查询 */
+  standalone: string;
+  /** 拆分出的子查询 */
+  subQueries: string[];
+  /** 假设性回答（未开启 HyDE 时为 null） */
+  hyde: string | null;
+  /** 是否经过了大模型改写 */
+  rewritten: boolean;
+}
+
+/**
+ * 参与改写的历史消息数量上限
+ */
+const MAX_HISTORY_MESSAGES = 6;
+
+/**
+ * 每条历史消息截取的最大字符数
+ */
+const MAX_HISTORY_CHARS = 500;
+
+/**
+ * 子查询数量上限
+ */
+const MAX_SUB_QUERIES = 4;
+
+/**
+ * 读取布尔型环境变量
+ */
+function readBoolean(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+  return value === 'true' || value === '1';
+}
+
+/**
+ * 合并请求选项与环境变量默认值
+ */
+function resolveOptions(options: QueryRewriteOptions) {
+  const subQueries = options.subQueries ?? parseInt(process.env.QUERY_REWRITE_SUB_QUERIES || '0', 10);
+  return {
+    enabled: options.enabled ?? readBoolean('QUERY_REWRITE', true),
+    subQueries: Number.isFinite(subQueries) ? Math.max(0, Math.min(subQueries, MAX_SUB_QUERIES)) : 0,
+    hyde: options.hyde ?? readBoolean('QUERY_REWRITE_HYDE', false),
+    model: options.model || process.env.QUERY_REWRITE_MODEL || 'openai/gpt-4o-mini'
+  };
+}
+
+/**
+ * 将历史消息格式化为改写提示中的对话记录
+ */
+function formatHistory(history: ChatMessage[]): string {
+  return history
+    .filter(message => message.role !== 'system')
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(message => `${message.role === 'user' ? '用户' : '助手'}：${message.content.substring(0, MAX_HISTORY_CHARS)}`)
+    .join('\n');
+}
+
+/**
+ * 结合对话历史改写检索查询
+ * @param messages 完整的对话消息（最后一条用户消息为当前问题）
+ * @param options 改写选项（可选）
+ * @returns 改写结果
+ */
+export async function rewriteQuery(messages: ChatMessage[], options: QueryRewriteOptions = {}): Promise<RewrittenQuery> {
+  const lastUserIndex = messages.map(message => message.role).lastIndexOf('user');
+  const original = lastUserIndex >= 0 ? messages[lastUserIndex].content : '';
+  const fallback: RewrittenQuery = { original, standalone: original, subQueries: [], hyde: null, rewritten: false };
+
+  const resolved = resolveOptions(options);
+  const history = formatHistory(messages.slice(0, Math.max(lastUserIndex, 0)));
+
+  // 没有历史且不需要子查询或 HyDE 时，原问题就是独立查询
+  if (!original.trim() || !resolved.enabled || (!history && resolved.subQueries === 0 && !resolved.hyde)) {
+    return fallback;
+  }
+
+  console.log(`✏️ 改写检索查询: 历史 ${history ? history.split('\n').length : 0} 条，子查询 ${resolved.subQueries} 个，HyDE ${resolved.hyde ? '开启' : '关闭'}`);
+  const startTime = Date.now();
+
+  const tasks = [
+    '1. standalone：把“当前问题”改写为不依赖对话历史、可以直接用于文档检索的完整问题。补全代词和省略的主语（例如“第二个呢？”要写明具体指什么）；问题本身已经完整时原样返回。使用与当前问题相同的语言。'
+  ];
+  if (resolved.subQueries > 0) {
+    tasks.push(`2. sub_queries：问题包含多个方面时，拆分为最多 ${resolved.subQueries} 个独立的检索子查询；问题只有一个方面时返回空数组。`);
+  }
+  if (resolved.hyde) {
+    tasks.push(`${tasks.length + 1}. hypothetical_answer：假设文档中存在答案，写一段 100-200 字、像文档原文一样的回答。`);
+  }
+
+  try {
+    const response = await chatCompletion({
+      model: resolved.model,
+      messages: [
+        {
+          role: 'system',
+          content: `你是一个检索查询改写助手。请根据对话历史完成以下任务：
+${tasks.join('\n')}
+只返回 JSON 对象，不要添加任何解释，格式：{"standalone": "...", "sub_queries": ["..."], "hypothetical_answer": "..."}`
+        },
+        {
+          role: 'user',
+          content: `${history ? `对话历史：\n${history}\n\n` : ''}当前问题：${original}`
+        }
+      ],
+      temperature: 0,
+      max_tokens: resolved.hyde ? 600 : 300
+    });
+
+    const text = response.choices[0]?.message?.content || '';
+    const json = text.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) {
+      throw new Error(`改写结果格式异常: ${text.substring(0, 100)}`);
+    }
+
+    const parsed = JSON.parse(json) as { standalone?: unknown; sub_queries?: unknown; hypothetical_answer?: unknown };
+    const standalone = typeof parsed.standalone === 'string' && parsed.standalone.trim() ? parsed.standalone.trim() : original;
+    const subQueries = resolved.subQueries > 0 && Array.isArray(parsed.sub_queries)
+      ? [...new Set(parsed.sub_queries
+          .filter((query): query is string => typeof query === 'string' && query.trim().length > 0)
+          .map(query => query.trim())
+          .filter(query => query !== standalone))]
+          .slice(0, resolved.subQueries)
+      : [];
+    const hyde = resolved.hyde && typeof parsed.hypothetical_answer === 'string' && parsed.hypothetical_answer.trim()
+      ? parsed.hypothetical_answer.trim()
+      : null;
+
+    console.log(`✅ 查询改写完成，耗时 ${Date.now() - startTime}ms`);
+    console.log('- 独立查询:', standalone);
+    if (subQueries.length > 0) console.log('- 子查询:', subQueries);
+    if (hyde) console.log('- 假设性回答长度:', hyde.length);
+
+    return { original, standalone, subQueries, hyde, rewritten: true };
+  } catch (error) {
+    console.error('❌ 查询改写失败，使用原始问题:', error instanceof Error ? error.message : String(error));
+    return fallback;
+  }
+}
+
+/**
+ * 获取改写结果中需要执行检索的全部查询（独立查询在前）
+ * @param rewritten 改写结果
+ * @returns 去重后的查询数组
+ */
+export function getRetrievalQueries(rewritten: RewrittenQuery): string[] {
+  const queries = [rewritten.standalone, ...rewritten.subQueries];
+  if (rewritten.hyde) {
+    queries.push(rewritten.hyde);
+  }
+  return [...new Set(queries)];
+}
\ No newline at end of file
@@ -0,0 +1,345 @@
+/**
+ * 重新向量化服务
+ * 更换嵌入模型后，后台将用户文档块逐页重新生成向量。
+ * 任务按文档块ID升序推进并把游标写入 reembedding_jobs，服务重启后从游标处继续。
+ */
+import { supabaseAdmin } from '../lib/supabase.js';
+import {
+  generateEmbeddingsInBatches,
+  getEmbeddingSignature,
+  toEmbeddingColumns,
+  EmbeddingSignature,
+  QUERY_EMBEDDING_INSTRUCT
+} from './embeddingService.js';
+
+/**
+ * 重新向量化任务状态
+ */
+export type ReembeddingJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+/**
+ * 重新向量化任务记录
+ */
+export interface ReembeddingJob {
+  id: string;
+  user_id: string;
+  requested_by: string | null;
+  target_model: string;
+  target_version: string;
+  target_dimensions: number;
+  status: ReembeddingJobStatus;
+  total_chunks: number | null;
+  processed_chunks: number;
+  failed_chunks: number;
+  last_chunk_id: string | null;
+  error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 每页处理的文档块数量
+ */
+const PAGE_SIZE = 50;
+
+/**
+ * 构造“向量与目标签名不一致”的 PostgREST 过滤条件
+ */
+function incompatibleFilter(signature: EmbeddingSignature): string {
+  return [
+    'embedding_model.is.null',
+    `embedding_model.neq."${signature.model}"`,
+    `embedding_version.neq."${signature.version}"`,
+    `embedding_dimensions.neq.${signature.dimensions}`
+  ].join(',');
+}
+
+/**
+ * 任务记录中的目标签名
+ */
+function jobSignature(job: ReembeddingJob): EmbeddingSignature {
+  return {
+    model: job.target_model,
+    version: job.target_version,
+    dimensions: job.target_dimensions
+  };
+}
+
+/**
+ * 进程内重新向量化任务队列（单工作者，按提交顺序处理）
+ */
+export class ReembeddingQueue {
+  private pending: string[] = [];
+  private running = false;
+
+  /**
+   * 将任务加入队列
+   * @param jobId 任务ID
+   */
+  enqueue(jobId: string) {
+    if (this.pending.includes(jobId)) return;
+    this.pending.push(jobId);
+    void this.drain();
+  }
+
+  /**
+   * 依次处理队列中的任务
+   */
+  private async drain() {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      while (this.pending.length > 0) {
+        const jobId = this.pending.shift()!;
+        await this.process(jobId);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * 处理单个任务，从记录的游标处继续
+   */
+  private async process(jobId: string) {
+    const { data: job, error } = await supabaseAdmin
+      .from('reembedding_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single();
+
+    if (error || !job) {
+      console.error('❌ 读取重新向量化任务失败:', jobId, error);
+      return;
+    }
+
+    const signature = jobSignature(job as ReembeddingJob);
+    const current = getEmbeddingSignature();
+
+    console.log('=== 重新向量化任务开始 ===', jobId);
+    console.log('- 目标用户:', job.user_id);
+    console.log('- 目标模型:', `${signature.model} / ${signature.version} / ${signature.dimensions}维`);
+
+    try {
+      // 当前提供方与任务目标不一致时生成的向量无法满足任务要求
+      if (current.model !== signature.model || current.version !== signature.version || current.dimensions !== signature.dimensions) {
+        throw new Error('当前嵌入模型与任务目标不一致，请重新发起任务');
+      }
+
+      let { total_chunks: totalChunks, processed_chunks: processed, failed_chunks: failed } = job as ReembeddingJob;
+      let cursor: string | null = job.last_chunk_id;
+
+      if (totalChunks === null) {
+        const { count, error: countError } = await supabaseAdmin
+          .from('document_chunks')
+          .select('id, documents!inner(user_id)', { count: 'exact', head: true })
+          .eq('documents.user_id', job.user_id)
+          .or(incompatibleFilter(signature));
+
+        if (countError) {
+          throw new Error(`统计文档块失败: ${countError.message}`);
+        }
+        totalChunks = count || 0;
+      }
+
+      await this.updateJob(jobId, {
+        status: 'running',
+        total_chunks: totalChunks,
+        started_at: job.started_at || new Date().toISOString()
+      });
+
+      for (;;) {
+        let query = supabaseAdmin
+          .from('document_chunks')
+          .select('id, content, documents!inner(user_id)')
+          .eq('documents.user_id', job.user_id)
+          .or(incompatibleFilter(signature))
+          .order('id', { ascending: true })
+          .limit(PAGE_SIZE);
+
+        if (cursor) {
+          query = query.gt('id', cursor);
+        }
+
+        const { data: chunks, error: chunkError } = await query;
+
+        if (chunkError) {
+          throw new Error(`读取文档块失败: ${chunkError.message}`);
+        }
+
+        if (!chunks || chunks.length === 0) break;
+
+        const { embeddings, failedIndexes } = await generateEmbeddingsInBatches(
+          chunks.map(chunk => chunk.content),
+          { instruct: QUERY_EMBEDDING_INSTRUCT }
+        );
+
+        const results = await Promise.all(chunks.map(async (chunk, i) => {
+          if (!embeddings[i]) return false;
+          const { error: updateError } = await supabaseAdmin
+            .from('document_chunks')
+            .update(toEmbeddingColumns(embeddings[i], signature))
+            .eq('id', chunk.id);
+          if (updateError) {
+            console.error('❌ 更新文档块向量失败:', chunk.id, updateError);
+          }
+          return !updateError;
+        }));
+
+        // 失败的文档块保留原向量，游标仍然前进，重新发起任务时会再次处理
+        const pageFailed = results.filter(ok => !ok).length;
+        processed += chunks.length;
+        failed += pageFailed;
+        cursor = chunks[chunks.length - 1].id;
+
+        await this.updateJob(jobId, {
+          processed_chunks: processed,
+          failed_chunks: failed,
+          last_chunk_id: cursor
+        });
+
+        console.log(`- 进度: ${processed}/${totalChunks}，失败 ${failed}（本页向量失败 ${failedIndexes.length}）`);
+      }
+
+      await this.updateJob(jobId, {
+        status: 'done',
+        error: failed > 0 ? `${failed} 个文档块重新向量化失败，可重新发起任务补齐` : null,
+        finished_at: new Date().toISOString()
+      });
+
+      console.log('🎉 重新向量化任务完成:', jobId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('💥 重新向量化任务失败:', jobId, message);
+
+      await this.updateJob(jobId, {
+        status: 'failed',
+        error: message,
+        finished_at: new Date().toISOString()
+      });
+    } finally {
+      console.log('=== 重新向量化任务结束 ===', jobId);
+    }
+  }
+
+  /**
+   * 更新任务记录，失败时只记录日志
+   */
+  private async updateJob(jobId: string, patch: Partial<ReembeddingJob>) {
+    const { error } = await supabaseAdmin
+      .from('reembedding_jobs')
+      .update(patch)
+      .eq('id', jobId);
+
+    if (error) {
+      console.error('❌ 更新重新向量化任务失败:', jobId, error);
+    }
+  }
+}
+
+// 创建单例实例
+let reembeddingQueueInstance: ReembeddingQueue | null = null;
+
+/**
+ * 获取重新向量化任务队列实例
+ */
+export function getReembeddingQueue(): ReembeddingQueue {
+  if (!reembeddingQueueInstance) {
+    reembeddingQueueInstance = new ReembeddingQueue();
+  }
+  return reembeddingQueueInstance;
+}
+
+/**
+ * 为用户发起重新向量化任务，目标为当前嵌入模型
+ * 同一用户已有同目标的未完成任务时直接返回该任务
+ * @param userId 目标用户ID
+ * @param requestedBy 发起任务的管理员ID
+ * @returns 任务记录及是否为新建任务
+ */
+export async function startReembedding(userId: string, requestedBy: string): Promise<{ job: ReembeddingJob; created: boolean }> {
+  const signature = getEmbeddingSignature();
+
+  const { data: existing } = await supabaseAdmin
+    .from('reembedding_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('target_model', signature.model)
+    .eq('target_version', signature.version)
+    .eq('target_dimensions', signature.dimensions)
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) {
+    getReembeddingQueue().enqueue(existing.id);
+    return { job: existing as ReembeddingJob, created: false };
+  }
+
+  const { data: job, error } = await supabaseAdmin
+    .from('reembedding_jobs')
+    .insert({
+      user_id: userId,
+      requested_by: requestedBy,
+      target_model: signature.model,
+      target_version: signature.version,
+      target_dimensions: signature.dimensions,
+      status: 'queued'
+    })
+    .select()
+    .single();
+
+  if (error || !job) {
+    console.error('❌ 创建重新向量化任务失败:', error);
+    throw new Error('创建重新向量化任务失败');
+  }
+
+  console.log('📥 重新向量化任务已入队:', job.id);
+  getReembeddingQueue().enqueue(job.id);
+
+  return { job: job as ReembeddingJob, created: true };
+}
+
+/**
+ * 获取重新向量化任务
+ * @param jobId 任务ID
+ * @returns 任务记录，不存在时返回 null
+ */
+export async function getReembeddingJob(jobId: string): Promise<ReembeddingJob | null> {
+  const { data: job, error } = await supabaseAdmin
+    .from('reembedding_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (error || !job) {
+    return null;
+  }
+
+  return job as ReembeddingJob;
+}
+
+/**
+ * 服务启动时继续处理未完成的重新向量化任务
+ */
+export async function resumeReembeddingJobs() {
+  const { data: jobs, error } = await supabaseAdmin
+    .from('reembedding_jobs')
+    .select('id')
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('❌ 读取未完成的重新向量化任务失败:', error);
+    return;
+  }
+
+  if (jobs && jobs.length > 0) {
+    console.log(`🔁 继续处理 ${jobs.length} 个未完成的重新向量化任务`);
+    jobs.forEach(job => getReembeddingQueue().enqueue(job.id));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,275 @@
+/**
+ * 重排序服务
+ * 在混合检索融合之后对候选文档块重新排序，支持：
+ * - mmr：基于 MMR 的多样性重排序
+ * - llm：通过 OpenRouter 调用大模型逐条判断相关性
+ * - external：调用外部 rerank 接口（Cohere / Jina / DashScope 兼容格式）
+ * 重排序后的文档块附带 rerank_score 与 rerank_strategy，保留原有 hybrid_score 便于对比
+ */
+import { diversityRerank } from './similarityService.js';
+import { chatCompletion, getAvailableModels } from './openrouterService.js';
+
+/**
+ * 重排序策略
+ */
+export type RerankStrategy = 'none' | 'mmr' | 'llm' | 'external';
+
+/**
+ * 重排序选项
+ */
+export interface RerankOptions {
+  /** 重排序策略 */
+  strategy?: RerankStrategy;
+  /** 保留的结果数量 */
+  topN?: number;
+  /** MMR 相关性权重 (0-1) */
+  lambda?: number;
+  /** LLM 判定使用的模型，只接受可用模型列表中的模型或 RERANK_LLM_MODEL */
+  model?: string;
+}
+
+/**
+ * 可重排序的文档块（检索结果的最小结构）
+ */
+export interface RerankableChunk {
+  id: string;
+  content: string;
+  hybrid_score?: number;
+  similarity?: number;
+  documents?: { title?: string } | null;
+}
+
+/**
+ * 重排序后附加的字段
+ */
+export interface RerankedFields {
+  rerank_score: number;
+  rerank_strategy: RerankStrategy;
+}
+
+/**
+ * 支持的重排序策略
+ */
+export const RERANK_STRATEGIES: RerankStrategy[] = ['none', 'mmr', 'llm', 'external'];
+
+/**
+ * 重排序时候选集相对最终结果数量的倍数
+ */
+export const RERANK_CANDIDATE_MULTIPLIER = 3;
+
+/**
+ * LLM 判定时每个候选文档块截取的最大字符数
+ */
+const LLM_CANDIDATE_MAX_CHARS = 600;
+
+/**
+ * 外部重排序接口的默认超时时间（毫秒），可通过 RERANK_TIMEOUT_MS 覆盖
+ */
+const DEFAULT_EXTERNAL_TIMEOUT_MS = 5000;
+
+/**
+ * 默认重排序策略（RERANK_STRATEGY 环境变量，默认不重排序）
+ */
+export function getDefaultRerankStrategy(): RerankStrategy {
+  const strategy = process.env.RERANK_STRATEGY as RerankStrategy | undefined;
+  return strategy && RERANK_STRATEGIES.includes(strategy) ? strategy : 'none';
+}
+
+/**
+ * LLM 判定默认使用的模型（RERANK_LLM_MODEL 环境变量，默认 openai/gpt-4o-mini）
+ */
+export function getDefaultRerankModel(): string {
+  return process.env.RERANK_LLM_MODEL || 'openai/gpt-4o-mini';
+}
+
+/**
+ * 判断是否为允许用于 LLM 判定的模型：可用模型列表中的模型或配置的默认模型
+ */
+export function isRerankModel(value: unknown): value is string {
+  return typeof value === 'string' &&
+    (value === getDefaultRerankModel() || getAvailableModels().some(model => model.id === value));
+}
+
+/**
+ * 外部重排序接口超时时间（RERANK_TIMEOUT_MS 环境变量，默认 5000ms）
+ */
+function getExternalRerankTimeout(): number {
+  const value = parseInt(process.env.RERANK_TIMEOUT_MS || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_EXTERNAL_TIMEOUT_MS;
+}
+
+/**
+ * 判断是否为支持的重排序策略
+ */
+export function isRerankStrategy(value: unknown): value is RerankStrategy {
+  return typeof value === 'string' && RERANK_STRATEGIES.includes(value as RerankStrategy);
+}
+
+/**
+ * 对候选文档块重排序，失败时回退为原始顺序
+ * @param query 查询文本
+ * @param chunks 融合后的候选文档块
+ * @param options 重排序选项
+ * @returns 重排序并截取后的文档块
+ */
+export async function rerankChunks<T extends RerankableChunk>(query: string, chunks: T[], options: RerankOptions = {}): Promise<(T & Partial<RerankedFields>)[]> {
+  const strategy = options.strategy || getDefaultRerankStrategy();
+  const topN = options.topN || chunks.length;
+
+  if (strategy === 'none' || chunks.length === 0) {
+    return chunks.slice(0, topN);
+  }
+
+  console.log(`🔀 开始重排序: 策略=${strategy}，候选 ${chunks.length} 个，保留 ${topN} 个`);
+  const startTime = Date.now();
+
+  try {
+    let reranked: (T & RerankedFields)[];
+    switch (strategy) {
+      case 'mmr':
+        reranked = rerankWithMMR(chunks, options.lambda ?? 0.7, topN);
+        break;
+      case 'llm':
+        reranked = await rerankWithLLM(query, chunks, topN, options.model);
+        break;
+      case 'external':
+        reranked = await rerankWithExternalService(query, chunks, topN);
+        break;
+      default:
+        throw new Error(`不支持的重排序策略: ${strategy}`);
+    }
+
+    console.log(`✅ 重排序完成，耗时 ${Date.now() - startTime}ms`);
+    reranked.forEach((chunk, index) => {
+      console.log(`  ${index + 1}. ${chunk.documents?.title || '未知文档'} (重排序分数: ${chunk.rerank_score.toFixed(4)}, 混合分数: ${(chunk.hybrid_score ?? 0).toFixed(4)})`);
+    });
+
+    return reranked;
+  } catch (error) {
+    console.error('❌ 重排序失败，使用原始顺序:', error instanceof Error ? error.message : String(error));
+    return chunks.slice(0, topN);
+  }
+}
+
+/**
+ * MMR 多样性重排序
+ */
+function rerankWithMMR<T extends RerankableChunk>(chunks: T[], lambda: number, topN: number): (T & RerankedFields)[] {
+  // 文档块未携带向量，多样性按文本相似度计算
+  const selected: (T & { mmr_score?: number })[] = diversityRerank(chunks, [], lambda, topN);
+  return selected.map(chunk => ({
+    ...chunk,
+    rerank_score: chunk.mmr_score ?? chunk.hybrid_score ?? chunk.similarity ?? 0,
+    rerank_strategy: 'mmr' as const
+  }));
+}
+
+/**
+ * 按重排序分数排序并截取
+ */
+function applyScores<T extends RerankableChunk>(chunks: T[], scores: Map<number, number>, strategy: RerankStrategy, topN: number): (T & RerankedFields)[] {
+  return chunks
+    .map((chunk, index) => ({
+      ...chunk,
+      rerank_score: scores.get(index) ?? 0,
+      rerank_strategy: strategy
+    }))
+    .sort((a, b) => b.rerank_score - a.rerank_score)
+    .slice(0, topN);
+}
+
+/**
+ * LLM 相关性判定重排序
+ */
+async function rerankWithLLM<T extends RerankableChunk>(query: string, chunks: T[], topN: number, model?: string): Promise<(T & RerankedFields)[]> {
+  const candidates = chunks
+    .map((chunk, index) => `[${index}] ${chunk.content.substring(0, LLM_CANDIDATE_MAX_CHARS)}`)
+    .join('\n\n');
+
+  const response = await chatCompletion({
+    // 不在允许列表中的模型改用默认模型，避免调用方指定任意（高价）模型
+    model: isRerankModel(model) ? model : getDefaultRerankModel(),
+    messages: [
+      {
+        role: 'system',
+        content: `你是一个检索结果相关性评估助手。请判断每个候选段落对回答用户问题的帮助程度，给出 0-10 的整数分数（10 表示直接回答了问题，0 表示完全无关）。
+只返回 JSON 数组，不要添加任何解释，格式：[{"index": 0, "score": 8}, {"index": 1, "score": 3}]`
+      },
+      {
+        role: 'user',
+        content: `问题：${query}\n\n候选段落：\n${candidates}`
+      }
+    ],
+    temperature: 0,
+    max_tokens: 40 * chunks.length + 50
+  });
+
+  const text = response.choices[0]?.message?.content || '';
+  const json = text.match(/\[[\s\S]*\]/)?.[0];
+  if (!json) {
+    throw new Error(`LLM 返回格式异常: ${text.substring(0, 100)}`);
+  }
+
+  const scores = new Map<number, number>();
+  for (const item of JSON.parse(json) as Array<{ index: number; score: number }>) {
+    if (Number.isInteger(item.index) && item.index >= 0 && item.index < chunks.length && typeof item.score === 'number') {
+      scores.set(item.index, Math.max(0, Math.min(item.score, 10)) / 10);
+    }
+  }
+
+  if (scores.size === 0) {
+    throw new Error('LLM 未返回有效的相关性分数');
+  }
+
+  return applyScores(chunks, scores, 'llm', topN);
+}
+
+/**
+ * 外部 rerank 接口重排序
+ * 请求体为 {model, query, documents, top_n}，兼容 Cohere / Jina 的 results 与 DashScope 的 output.results
+ */
+async function rerankWithExternalService<T extends RerankableChunk>(query: string, chunks: T[], topN: number): Promise<(T & RerankedFields)[]> {
+  const url = process.env.RERANK_API_URL;
+  if (!url) {
+    throw new Error('RERANK_API_URL 环境变量未设置');
+  }
+
+  const timeoutMs = getExternalRerankTimeout();
+  const response = await fetch(url, {
+    method: 'POST',
+    // 超时后抛出错误，由 rerankChunks 回退为原始顺序
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(process.env.RERANK_API_KEY ? { 'Authorization': `Bearer ${process.env.RERANK_API_KEY}` } : {})
+    },
+    body: JSON.stringify({
+      model: process.env.RERANK_MODEL,
+      query,
+      documents: chunks.map(chunk => chunk.content),
+      top_n: chunks.length
+    })
+  }).catch(error => {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`外部重排序接口超时 (${timeoutMs}ms)`);
+    }
+    throw error;
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`外部重排序接口错误: ${response.status} ${errorText.substring(0, 200)}`);
+  }
+
+  const data = await response.json();
+  const results: Array<{ index: number; relevance_score: number }> = data.results || data.output?.results || [];
+
+  if (results.length === 0) {
+    throw new Error('外部重排序接口未返回结果');
+  }
+
+  const scores = new Map<number, number>();
+  results.forEach(result => scores.set(result.index, result.relevance_score));
+
+  return applyScores(chunks, scores, 'external', topN);
+}
\ No newline at end of file
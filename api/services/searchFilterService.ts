@@ -0,0 +1,142 @@
+/**
+ * 检索过滤服务
+ * 校验聊天接口传入的元数据过滤条件，并转换为数据库检索函数的 filters 参数
+ * （由 chunk_matches_filters 在向量检索和关键词检索中统一应用）
+ */
+import { normalizeTags } from './tagService.js';
+
+/**
+ * 检索过滤条件（未指定的条件不过滤）
+ */
+export interface SearchFilters {
+  /** 只检索这些文档 */
+  documentIds?: string[];
+  /** 排除这些文档 */
+  excludeDocumentIds?: string[];
+  /** 文件类型（MIME） */
+  fileTypes?: string[];
+  /** 属于任一分类 */
+  categoryIds?: string[];
+  /** 带有任一标签 */
+  tags?: string[];
+  /** 文档创建时间下限（ISO 8601） */
+  createdAfter?: string;
+  /** 文档创建时间上限（ISO 8601） */
+  createdBefore?: string;
+  /** 起始页码（含），没有页码的文档块不匹配 */
+  pageFrom?: number;
+  /** 结束页码（含），没有页码的文档块不匹配 */
+  pageTo?: number;
+}
+
+/**
+ * 每个列表条件的最大数量
+ */
+const MAX_FILTER_VALUES = 100;
+
+/**
+ * 校验字符串列表条件
+ */
+function parseStringList(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_FILTER_VALUES || value.some(item => typeof item !== 'string' || !item.trim())) {
+    return null;
+  }
+  return Array.from(new Set((value as string[]).map(item => item.trim())));
+}
+
+/**
+ * 校验时间条件，返回 ISO 字符串
+ */
+function parseDate(value: unknown): string | null {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    return null;
+  }
+  return new Date(value).toISOString();
+}
+
+/**
+ * 校验页码条件
+ */
+function parsePage(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 ? value : null;
+}
+
+/**
+ * 校验并规范化检索过滤条件
+ * @param value 请求中的 filters 对象（未传入时视为不过滤）
+ * @returns 过滤条件，参数无效时返回 null
+ */
+export function parseSearchFilters(value: unknown): SearchFilters | null {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const input = value as Record<string, unknown>;
+  const filters: SearchFilters = {};
+
+  for (const key of ['documentIds', 'excludeDocumentIds', 'fileTypes', 'categoryIds'] as const) {
+    if (input[key] === undefined) continue;
+    const list = parseStringList(input[key]);
+    if (!list) return null;
+    filters[key] = list;
+  }
+
+  if (input.tags !== undefined) {
+    const tags = normalizeTags(input.tags);
+    if (!tags) return null;
+    filters.tags = tags;
+  }
+
+  for (const key of ['createdAfter', 'createdBefore'] as const) {
+    if (input[key] === undefined) continue;
+    const date = parseDate(input[key]);
+    if (!date) return null;
+    filters[key] = date;
+  }
+
+  for (const key of ['pageFrom', 'pageTo'] as const) {
+    if (input[key] === undefined) continue;
+    const page = parsePage(input[key]);
+    if (!page) return null;
+    filters[key] = page;
+  }
+
+  if (filters.createdAfter && filters.createdBefore && filters.createdAfter > filters.createdBefore) {
+    return null;
+  }
+  if (filters.pageFrom && filters.pageTo && filters.pageFrom > filters.pageTo) {
+    return null;
+  }
+
+  return filters;
+}
+
+/**
+ * 转换为数据库检索函数的 filters 参数（jsonb，键为下划线命名）
+ * @returns 没有任何过滤条件时返回 null
+ */
+export function toFilterParam(filters?: SearchFilters): Record<string, unknown> | null {
+  if (!filters) {
+    return null;
+  }
+
+  const param: Record<string, unknown> = {};
+  const setList = (key: string, list?: string[]) => {
+    if (list?.length) param[key] = list;
+  };
+
+  setList('document_ids', filters.documentIds);
+  setList('exclude_document_ids', filters.excludeDocumentIds);
+  setList('file_types', filters.fileTypes);
+  setList('category_ids', filters.categoryIds);
+  setList('tags', filters.tags);
+  if (filters.createdAfter) param.created_after = filters.createdAfter;
+  if (filters.createdBefore) param.created_before = filters.createdBefore;
+  if (filters.pageFrom) param.page_from = filters.pageFrom;
+  if (filters.pageTo) param.page_to = filters.pageTo;
+
+  return Object.keys(param).length > 0 ? param : null;
+}
\ No newline at end of file
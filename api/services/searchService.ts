@@ -1,6 +1,166 @@
 import { supabaseAdmin } from '../lib/supabase.js';
-import { generateQueryEmbedding } from './embeddingService.js';
+import { generateQueryEmbedding, getEmbeddingSignature } from './embeddingService.js';
 import { extractKeywords } from './keywordService.js';
+import { rerankChunks, getDefaultRerankStrategy, RerankOptions, RERANK_CANDIDATE_MULTIPLIER } from './rerankService.js';
+import { fuseSearchResults, FusionOptions } from './fusionService.js';
+import { expandWithNeighborChunks, getDefaultNeighborChunks } from './chunkExpansionService.js';
+import { toFilterParam, SearchFilters } from './searchFilterService.js';
+import { loadUserCategories, getCategorySubtreeIds } from './categoryService.js';
+
+export { fuseSearchResults };
+
+/**
+ * 检索模式
+ * - required：只根据知识库回答，未检索到内容时明确告知
+ * - optional：检索到内容时据此回答，否则说明后使用通用知识回答
+ * - none：不检索，直接对话
+ */
+export type RetrievalMode = 'required' | 'optional' | 'none';
+
+/**
+ * 支持的检索模式
+ */
+export const RETRIEVAL_MODES: RetrievalMode[] = ['required', 'optional', 'none'];
+
+/**
+ * 判断是否为支持的检索模式
+ */
+export function isRetrievalMode(value: unknown): value is RetrievalMode {
+  return typeof value === 'string' && RETRIEVAL_MODES.includes(value as RetrievalMode);
+}
+
+/**
+ * 默认检索模式（RETRIEVAL_MODE 环境变量，默认 optional）
+ */
+export function getDefaultRetrievalMode(): RetrievalMode {
+  const mode = process.env.RETRIEVAL_MODE;
+  return isRetrievalMode(mode) ? mode : 'optional';
+}
+
+/**
+ * 检索选项
+ */
+export interface SearchOptions {
+  /** 融合后的重排序阶段（不指定策略时使用 RERANK_STRATEGY 环境变量） */
+  rerank?: RerankOptions;
+  /** 向量与关键词结果的融合策略 */
+  fusion?: FusionOptions;
+  /** 每个命中块前后各扩展的相邻文档块数量（不指定时使用 SEARCH_NEIGHBOR_CHUNKS 环境变量） */
+  neighbors?: number;
+  /** 元数据过滤（文档、文件类型、分类、标签、时间与页码范围） */
+  filters?: SearchFilters;
+}
+
+/**
+ * 将分类过滤展开为包含子孙分类的 filters.categoryIds
+ * categoryId 与 filters.categoryIds 同时指定时取交集
+ * @returns 展开后的检索选项，分类范围为空（不可能有结果）时返回 null
+ */
+async function applyCategoryScope(userId: string, categoryId: string | undefined, options: SearchOptions): Promise<SearchOptions | null> {
+  const filterCategoryIds = options.filters?.categoryIds || [];
+  if (!categoryId && filterCategoryIds.length === 0) {
+    return options;
+  }
+
+  const categories = await loadUserCategories(userId);
+  let scope = filterCategoryIds.length > 0 ? getCategorySubtreeIds(categories, filterCategoryIds) : null;
+  if (categoryId) {
+    const subtree = getCategorySubtreeIds(categories, [categoryId]);
+    scope = scope ? scope.filter(id => subtree.includes(id)) : subtree;
+  }
+
+  if (scope.length === 0) {
+    return null;
+  }
+  return { ...options, filters: { ...options.filters, categoryIds: scope } };
+}
+
+/**
+ * 检索相关文档块：混合搜索 → 融合 →（可选）重排序 →（可选）扩展相邻块
+ * @param query 查询文本
+ * @param userId 用户ID
+ * @param limit 返回结果数量限制
+ * @param categoryId 分类ID（可选，包含子孙分类）
+ * @param options 检索选项（可选）
+ * @returns 搜索结果数组（扩展相邻块后每项为合并后的片段，附带 chunk_range 与 chunk_ids）
+ */
+export async function searchRelevantChunks(query: string, userId: string, limit: number = 5, categoryId?: string, options: SearchOptions = {}) {
+  const scoped = await applyCategoryScope(userId, categoryId, options);
+  if (!scoped) {
+    return [];
+  }
+
+  const results = await searchAndRerank(query, userId, limit, undefined, scoped);
+  return await expandWithNeighborChunks(results, options.neighbors ?? getDefaultNeighborChunks());
+}
+
+/**
+ * 混合搜索并按需重排序（不扩展相邻块）
+ */
+async function searchAndRerank(query: string, userId: string, limit: number, categoryId?: string, options: SearchOptions = {}) {
+  const strategy = options.rerank?.strategy || getDefaultRerankStrategy();
+  
+  if (strategy === 'none') {
+    return await hybridSearch(query, userId, limit, categoryId, options.fusion, options.filters);
+  }
+  
+  // 重排序需要更大的候选集
+  const candidates = await hybridSearch(query, userId, limit * RERANK_CANDIDATE_MULTIPLIER, categoryId, options.fusion, options.filters);
+  return await rerankChunks(query, candidates, { ...options.rerank, strategy, topN: limit });
+}
+
+/**
+ * 多查询合并时的 RRF 平滑常数
+ */
+const MULTI_QUERY_RRF_K = 60;
+
+/**
+ * 使用多个查询（改写后的独立查询、子查询、假设性回答）分别检索后合并
+ * 各查询的结果按倒数排名之和合并去重，被多个查询同时命中的文档块排在前面
+ * @param queries 查询数组（第一个为主查询）
+ * @param userId 用户ID
+ * @param limit 返回结果数量限制
+ * @param categoryId 分类ID（可选，包含子孙分类）
+ * @param options 检索选项（可选）
+ * @returns 合并后的搜索结果数组
+ */
+export async function searchRelevantChunksForQueries(queries: string[], userId: string, limit: number = 5, categoryId?: string, options: SearchOptions = {}) {
+  if (queries.length <= 1) {
+    return await searchRelevantChunks(queries[0] || '', userId, limit, categoryId, options);
+  }
+
+  const scoped = await applyCategoryScope(userId, categoryId, options);
+  if (!scoped) {
+    return [];
+  }
+
+  console.log(`🔍 多查询检索: ${queries.length} 个查询`);
+  // 先按命中块合并，再统一扩展相邻块，避免各查询的扩展窗口重复
+  const resultLists = await Promise.all(
+    queries.map(query => searchAndRerank(query, userId, limit, undefined, scoped))
+  );
+
+  const merged = new Map<string, { chunk: (typeof resultLists)[number][number]; score: number }>();
+  resultLists.forEach(results => {
+    results.forEach((chunk, index) => {
+      const score = 1 / (MULTI_QUERY_RRF_K + index + 1);
+      const existing = merged.get(chunk.id);
+      if (existing) {
+        existing.score += score;
+      } else {
+        merged.set(chunk.id, { chunk, score });
+      }
+    });
+  });
+
+  const results = Array.from(merged.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(item => item.chunk);
+
+  console.log(`✅ 多查询合并后返回 ${results.length} 个结果`);
+  return await expandWithNeighborChunks(results, options.neighbors ?? getDefaultNeighborChunks());
+}
 
 /**
  * 混合搜索：结合向量搜索和关键词搜索
@@ -8,9 +168,11 @@ import { extractKeywords } from './keywordService.js';
  * @param userId 用户ID
  * @param limit 返回结果数量限制
  * @param categoryId 分类ID（可选）
+ * @param fusion 融合选项（可选）
+ * @param filters 元数据过滤（可选）
  * @returns 搜索结果数组
  */
-export async function searchRelevantChunks(query: string, userId: string, limit: number = 5, categoryId?: string) {
+async function hybridSearch(query: string, userId: string, limit: number = 5, categoryId?: string, fusion?: FusionOptions, filters?: SearchFilters) {
   console.log('🔍 开始混合搜索...');
   
   // 提取查询关键词
@@ -22,14 +184,14 @@ export async function searchRelevantChunks(query: string, userId: string, limit:
   
   if (!queryEmbedding || queryEmbedding.length === 0) {
     console.log('⚠️ 向量生成失败，使用关键词搜索');
-    return await fallbackKeywordSearch(query, userId, limit, categoryId, keywords);
+    return await fallbackKeywordSearch(query, userId, limit, categoryId, keywords, filters);
   }
   
   // 如果关键词提取失败，直接使用向量搜索
   if (keywords.length === 0) {
     console.log('⚠️ 关键词提取失败，使用纯向量搜索');
     try {
-      const vectorResults = await performVectorSearchWithEmbedding(queryEmbedding, userId, limit, categoryId);
+      const vectorResults = await performVectorSearchWithEmbedding(queryEmbedding, userId, limit, categoryId, filters);
       console.log(`✅ 返回 ${vectorResults.length} 个结果`);
       return vectorResults;
     } catch (error) {
@@ -41,8 +203,8 @@ export async function searchRelevantChunks(query: string, userId: string, limit:
   try {
     // 同时执行向量搜索和关键词搜索（传递已生成的向量和关键词）
     const [vectorResults, keywordResults] = await Promise.allSettled([
-      performVectorSearchWithEmbedding(queryEmbedding, userId, limit * 2, categoryId),
-      fallbackKeywordSearch(query, userId, limit * 2, categoryId, keywords)
+      performVectorSearchWithEmbedding(queryEmbedding, userId, limit * 2, categoryId, filters),
+      fallbackKeywordSearch(query, userId, limit * 2, categoryId, keywords, filters)
     ]);
     
     // 获取搜索结果
@@ -70,7 +232,7 @@ export async function searchRelevantChunks(query: string, userId: string, limit:
         const title = chunk.documents?.title || '未知文档';
         const keywordScore = chunk.keyword_score || 0;
         const matchRatio = chunk.match_ratio || 0;
-        console.log(`  ${index + 1}. ${title} (关键词分数: ${keywordScore}, 匹配度: ${(matchRatio * 100).toFixed(1)}%)`);
+        console.log(`  ${index + 1}. ${title} (关键词分数: ${keywordScore.toFixed(4)}, 匹配度: ${(matchRatio * 100).toFixed(1)}%)`);
       });
     } else {
       console.log('🔍 关键词搜索未找到任何文档');
@@ -83,7 +245,7 @@ export async function searchRelevantChunks(query: string, userId: string, limit:
     }
     
     // 融合搜索结果
-    const hybridResults = fuseSearchResults(vectorChunks, keywordChunks, keywords, limit);
+    const hybridResults = fuseSearchResults(vectorChunks, keywordChunks, keywords, limit, fusion);
     
     console.log(`✅ 返回 ${hybridResults.length} 个混合结果`);
     
@@ -93,7 +255,7 @@ export async function searchRelevantChunks(query: string, userId: string, limit:
     console.error('💥 混合搜索错误:', error);
     // 如果混合搜索失败，回退到向量搜索
     try {
-      return await performVectorSearchWithEmbedding(queryEmbedding, userId, limit, categoryId);
+      return await performVectorSearchWithEmbedding(queryEmbedding, userId, limit, categoryId, filters);
     } catch (fallbackError) {
       console.error('💥 向量搜索回退失败:', fallbackError);
       return [];
@@ -107,9 +269,10 @@ export async function searchRelevantChunks(query: string, userId: string, limit:
  * @param userId 用户ID
  * @param limit 返回结果数量限制
  * @param categoryId 分类ID（可选）
+ * @param filters 元数据过滤（可选）
  * @returns 向量搜索结果数组
  */
-export async function performVectorSearch(query: string, userId: string, limit: number, categoryId?: string) {
+export async function performVectorSearch(query: string, userId: string, limit: number, categoryId?: string, filters?: SearchFilters) {
   console.log('🔍 执行向量搜索...');
   
   // 生成查询向量
@@ -119,7 +282,7 @@ export async function performVectorSearch(query: string, userId: string, limit:
     throw new Error('查询向量生成失败');
   }
   
-  return await performVectorSearchWithEmbedding(queryEmbedding, userId, limit, categoryId);
+  return await performVectorSearchWithEmbedding(queryEmbedding, userId, limit, categoryId, filters);
 }
 
 /**
@@ -128,16 +291,22 @@ export async function performVectorSearch(query: string, userId: string, limit:
  * @param userId 用户ID
  * @param limit 返回结果数量限制
  * @param categoryId 分类ID（可选）
+ * @param filters 元数据过滤（可选）
  * @returns 向量搜索结果数组
  */
-export async function performVectorSearchWithEmbedding(queryEmbedding: number[], userId: string, limit: number, categoryId?: string) {
+export async function performVectorSearchWithEmbedding(queryEmbedding: number[], userId: string, limit: number, categoryId?: string, filters?: SearchFilters) {
+  // 只比较与查询向量由同一模型、版本生成的文档块（维度在数据库函数中校验）
+  const signature = getEmbeddingSignature();
   const { data: chunks, error } = await supabaseAdmin
     .rpc('search_similar_chunks_with_category', {
       query_embedding: queryEmbedding,
       target_user_id: userId,
       match_threshold: 0.3,
       match_count: limit,
-      category_filter: categoryId || null
+      category_filter: categoryId || null,
+      embedding_model_filter: signature.model,
+      embedding_version_filter: signature.version,
+      filters: toFilterParam(filters)
     });
   
   if (error) {
@@ -165,141 +334,17 @@ export async function performVectorSearchWithEmbedding(queryEmbedding: number[],
 }
 
 /**
- * 融合向量搜索和关键词搜索的结果
- * @param vectorChunks 向量搜索结果
- * @param keywordChunks 关键词搜索结果
- * @param keywords 关键词数组
- * @param limit 返回结果数量限制
- * @returns 融合后的搜索结果数组
- */
-export function fuseSearchResults(vectorChunks: any[], keywordChunks: any[], keywords: string[], limit: number) {
-  // 创建结果映射，避免重复
-  const resultMap = new Map<string, any>();
-  
-  // 计算向量搜索分数的最大值和最小值，用于归一化
-  const vectorScores = vectorChunks.map(chunk => chunk.similarity || 0).filter(score => score > 0);
-  const maxVectorScore = vectorScores.length > 0 ? Math.max(...vectorScores) : 1;
-  const minVectorScore = vectorScores.length > 0 ? Math.min(...vectorScores) : 0;
-  
-  // 计算关键词搜索分数的最大值和最小值，用于归一化
-  const keywordScores = keywordChunks.map(chunk => chunk.keyword_score || 0).filter(score => score > 0);
-  const maxKeywordScore = keywordScores.length > 0 ? Math.max(...keywordScores) : 1;
-  const minKeywordScore = keywordScores.length > 0 ? Math.min(...keywordScores) : 0;
-  
-  // 处理向量搜索结果
-  vectorChunks.forEach(chunk => {
-    const chunkId = chunk.id;
-    if (!resultMap.has(chunkId)) {
-      resultMap.set(chunkId, {
-        ...chunk,
-        vector_score: chunk.similarity || 0,
-        keyword_score: 0,
-        hybrid_score: 0
-      });
-    }
-  });
-  
-  // 处理关键词搜索结果
-  keywordChunks.forEach(chunk => {
-    const chunkId = chunk.id;
-    if (resultMap.has(chunkId)) {
-      // 如果已存在，更新关键词分数
-      const existingChunk = resultMap.get(chunkId);
-      existingChunk.keyword_score = chunk.keyword_score || 0;
-    } else {
-      // 如果不存在，添加新的结果
-      resultMap.set(chunkId, {
-        ...chunk,
-        vector_score: 0,
-        keyword_score: chunk.keyword_score || 0,
-        hybrid_score: 0
-      });
-    }
-  });
-  
-  // 计算混合分数并排序
-  const fusedResults = Array.from(resultMap.values())
-    .map(chunk => {
-      // 改进的归一化方法
-      let normalizedVectorScore = 0;
-      if (chunk.vector_score > 0 && maxVectorScore > minVectorScore) {
-        normalizedVectorScore = (chunk.vector_score - minVectorScore) / (maxVectorScore - minVectorScore);
-      } else if (chunk.vector_score > 0) {
-        normalizedVectorScore = chunk.vector_score;
-      }
-      
-      let normalizedKeywordScore = 0;
-      if (chunk.keyword_score > 0 && maxKeywordScore > minKeywordScore) {
-        normalizedKeywordScore = (chunk.keyword_score - minKeywordScore) / (maxKeywordScore - minKeywordScore);
-      } else if (chunk.keyword_score > 0) {
-        normalizedKeywordScore = Math.min(chunk.keyword_score / 5, 1.0); // 关键词分数除以5进行归一化
-      }
-      
-      // 动态权重：如果关键词匹配度高，增加关键词权重
-      const keywordMatchRatio = keywords.length > 0 ? 
-        keywords.filter(keyword => 
-          chunk.content.toLowerCase().includes(keyword.toLowerCase())
-        ).length / keywords.length : 0;
-      
-      // 基础权重：向量0.6，关键词0.4
-      let vectorWeight = 0.6;
-      let keywordWeight = 0.4;
-      
-      // 如果关键词匹配度很高（>80%），增加关键词权重
-      if (keywordMatchRatio > 0.8) {
-        vectorWeight = 0.5;
-        keywordWeight = 0.5;
-      }
-      
-      // 计算基础混合分数
-      const hybridScore = (normalizedVectorScore * vectorWeight) + (normalizedKeywordScore * keywordWeight);
-      
-      // 额外加分机制
-      let bonus = 0;
-      
-      // 如果同时在两种搜索中出现，给予额外加分
-      if (chunk.vector_score > 0 && chunk.keyword_score > 0) {
-        bonus += 0.1;
-      }
-      
-      // 如果关键词匹配度很高，给予额外加分
-      if (keywordMatchRatio > 0.5) {
-        bonus += keywordMatchRatio * 0.1;
-      }
-      
-      const finalScore = Math.min(hybridScore + bonus, 1.0); // 确保分数不超过1
-      
-      return {
-        ...chunk,
-        hybrid_score: finalScore,
-        keyword_match_ratio: keywordMatchRatio,
-        normalized_vector_score: normalizedVectorScore,
-        normalized_keyword_score: normalizedKeywordScore
-      };
-    })
-    .sort((a, b) => {
-      // 首先按混合分数排序
-      if (Math.abs(a.hybrid_score - b.hybrid_score) > 0.01) {
-        return b.hybrid_score - a.hybrid_score;
-      }
-      // 如果混合分数相近，优先选择关键词匹配度高的
-      return b.keyword_match_ratio - a.keyword_match_ratio;
-    })
-    .slice(0, limit);
-  
-  return fusedResults;
-}
-
-/**
- * 关键字搜索回退方案 - 使用简单文本搜索
+ * 关键词搜索 - 调用数据库全文检索函数 search_chunks_by_keywords
+ * 排序与打分在数据库内完成（tsvector + ts_rank_cd，中文按 zhparser 或二元组匹配），不再逐块扫描
  * @param query 查询文本
  * @param userId 用户ID
  * @param limit 返回结果数量限制
  * @param categoryId 分类ID（可选）
  * @param keywords 预提取的关键词（可选）
+ * @param filters 元数据过滤（可选）
  * @returns 关键词搜索结果数组
  */
-export async function fallbackKeywordSearch(query: string, userId: string, limit: number = 5, categoryId?: string, keywords?: string[]) {
+export async function fallbackKeywordSearch(query: string, userId: string, limit: number = 5, categoryId?: string, keywords?: string[], filters?: SearchFilters) {
   console.log('🔍 执行关键词搜索...');
   
   try {
@@ -314,94 +359,21 @@ export async function fallbackKeywordSearch(query: string, userId: string, limit
     const searchTerms = searchKeywords.length > 0 ? searchKeywords : [query];
     console.log('🔎 使用搜索词:', searchTerms.join(', '));
     
-    // 构建查询条件
-    let queryBuilder = supabaseAdmin
-      .from('document_chunks')
-      .select(`
-        id,
-        document_id,
-        content,
-        chunk_index,
-        created_at,
-        metadata,
-        documents!inner(
-          id,
-          title,
-          user_id,
-          category_id
-        )
-      `)
-      .eq('documents.user_id', userId);
-    
-    // 添加分类过滤
-    if (categoryId) {
-      queryBuilder = queryBuilder.eq('documents.category_id', categoryId);
-    }
-    
-    // 构建文本搜索条件 - 使用 OR 连接多个关键词
-    const searchConditions = searchTerms.map(term => 
-      `content.ilike.%${term}%`
-    ).join(',');
-    
-    queryBuilder = queryBuilder.or(searchConditions);
-    
-    const { data: chunks, error } = await queryBuilder
-      .limit(limit * 2) // 获取更多结果用于排序
-      .order('created_at', { ascending: false });
+    const { data: chunks, error } = await supabaseAdmin
+      .rpc('search_chunks_by_keywords', {
+        search_terms: searchTerms,
+        target_user_id: userId,
+        match_count: limit,
+        category_filter: categoryId || null,
+        filters: toFilterParam(filters)
+      });
     
     if (error) {
-      console.error('❌ 文本搜索失败:', error);
+      console.error('❌ 全文检索失败:', error);
       return [];
     }
     
-    if (!chunks || chunks.length === 0) {
-      console.log('🔎 关键词搜索未找到任何匹配的文档块');
-      return [];
-    }
-    
-    console.log(`🔎 关键词搜索找到 ${chunks.length} 个文档块`);
-    
-    // 为结果添加关键词匹配分数并排序
-    const rankedChunks = chunks.map(chunk => {
-      const content = chunk.content.toLowerCase();
-      let keywordScore = 0;
-      let matchedKeywords = 0;
-      
-      // 计算关键词匹配分数
-      searchTerms.forEach(term => {
-        const termLower = term.toLowerCase();
-        if (content.includes(termLower)) {
-          matchedKeywords++;
-          // 计算词频
-          const regex = new RegExp(termLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
-          const matches = content.match(regex) || [];
-          keywordScore += matches.length;
-        }
-      });
-      
-      // 计算匹配度（匹配的关键词数量 / 总关键词数量）
-      const matchRatio = searchTerms.length > 0 ? matchedKeywords / searchTerms.length : 0;
-      
-      return {
-        ...chunk,
-        keyword_score: keywordScore,
-        match_ratio: matchRatio,
-        matched_keywords: matchedKeywords
-      };
-    })
-    .sort((a, b) => {
-      // 首先按匹配度排序
-      if (a.match_ratio !== b.match_ratio) {
-        return b.match_ratio - a.match_ratio;
-      }
-      // 然后按关键词分数排序
-      if (a.keyword_score !== b.keyword_score) {
-        return b.keyword_score - a.keyword_score;
-      }
-      // 最后按创建时间排序
-      return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-    })
-    .slice(0, limit);
+    const rankedChunks = chunks || [];
     
     // 打印关键词搜索的详细结果
     if (rankedChunks.length > 0) {
@@ -412,12 +384,12 @@ export async function fallbackKeywordSearch(query: string, userId: string, limit
         const matchRatio = chunk.match_ratio || 0;
         const matchedKeywords = chunk.matched_keywords || 0;
         console.log(`  ${index + 1}. 文档: ${title}`);
-        console.log(`     关键词分数: ${keywordScore}`);
+        console.log(`     关键词分数: ${keywordScore.toFixed(4)}`);
         console.log(`     匹配度: ${(matchRatio * 100).toFixed(1)}% (${matchedKeywords}/${searchTerms.length} 个关键词)`);
         console.log(`     内容预览: ${chunk.content.substring(0, 100)}...`);
       });
     } else {
-      console.log('📋 关键词搜索处理后无结果');
+      console.log('🔎 关键词搜索未找到任何匹配的文档块');
     }
     
     return rankedChunks;
@@ -26,6 +26,30 @@ export function calculateCosineSimilarity(vecA: number[], vecB: number[]): numbe
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
+/**
+ * 简单分词：英文按空格切分，中文按相邻两字切分（中文没有空格，整句会被当作一个词）
+ * @param text 文本
+ * @returns 词集合
+ */
+function tokenizeForSimilarity(text: string): Set<string> {
+  const tokens = new Set<string>();
+  const normalized = text.toLowerCase();
+
+  normalized
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1)
+    .forEach(word => tokens.add(word));
+
+  for (const run of normalized.match(/[\u4e00-\u9fa5]+/g) || []) {
+    for (let i = 0; i + 2 <= run.length; i++) {
+      tokens.add(run.slice(i, i + 2));
+    }
+  }
+
+  return tokens;
+}
+
 /**
  * 计算两个文本之间的Jaccard相似度（基于词汇重叠）
  * @param textA 文本A
@@ -33,9 +57,8 @@ export function calculateCosineSimilarity(vecA: number[], vecB: number[]): numbe
  * @returns Jaccard相似度值 (0-1)
  */
 export function calculateJaccardSimilarity(textA: string, textB: string): number {
-  // 简单的分词处理，转换为小写并去除标点
-  const wordsA = new Set(textA.toLowerCase().replace(/[^\w\s]/g, '').split(/\s+/).filter(word => word.length > 1));
-  const wordsB = new Set(textB.toLowerCase().replace(/[^\w\s]/g, '').split(/\s+/).filter(word => word.length > 1));
+  const wordsA = tokenizeForSimilarity(textA);
+  const wordsB = tokenizeForSimilarity(textB);
   
   const intersection = new Set([...wordsA].filter(word => wordsB.has(word)));
   const union = new Set([...wordsA, ...wordsB]);
@@ -43,8 +66,16 @@ export function calculateJaccardSimilarity(textA: string, textB: string): number
   return union.size === 0 ? 0 : intersection.size / union.size;
 }
 
+/**
+ * 文档块的相关性分数：优先使用混合搜索分数，其次为向量相似度
+ */
+function relevanceOf(chunk: { hybrid_score?: number; similarity?: number }): number {
+  return chunk.hybrid_score ?? chunk.similarity ?? 0;
+}
+
 /**
  * 基于MMR（Maximal Marginal Relevance）算法的多样性重排序
+ * 选中的文档块会附带 mmr_score
  * @param chunks 原始搜索结果
  * @param queryEmbedding 查询向量
  * @param lambda 平衡参数，控制相关性与多样性的权重 (0-1，越大越注重相关性)
@@ -75,14 +106,14 @@ export function diversityRerank(chunks: any[], queryEmbedding: number[], lambda:
   let bestScore = -1;
   
   for (let i = 0; i < remainingChunks.length; i++) {
-    const relevanceScore = remainingChunks[i].similarity || 0;
+    const relevanceScore = relevanceOf(remainingChunks[i]);
     if (relevanceScore > bestScore) {
       bestScore = relevanceScore;
       bestIndex = i;
     }
   }
   
-  selectedChunks.push(remainingChunks.splice(bestIndex, 1)[0]);
+  selectedChunks.push({ ...remainingChunks.splice(bestIndex, 1)[0], mmr_score: lambda * bestScore });
   console.log(`📌 选择初始文档块，相关性: ${bestScore.toFixed(4)}`);
   
   // 迭代选择剩余文档块
@@ -92,7 +123,7 @@ export function diversityRerank(chunks: any[], queryEmbedding: number[], lambda:
     
     for (let i = 0; i < remainingChunks.length; i++) {
       const candidate = remainingChunks[i];
-      const relevanceScore = candidate.similarity || 0;
+      const relevanceScore = relevanceOf(candidate);
       
       // 计算与已选择文档块的最大相似度（多样性惩罚）
       let maxSimilarity = 0;
@@ -122,11 +153,11 @@ export function diversityRerank(chunks: any[], queryEmbedding: number[], lambda:
     }
     
     if (bestMMRIndex >= 0) {
-      const selectedChunk = remainingChunks.splice(bestMMRIndex, 1)[0];
+      const selectedChunk = { ...remainingChunks.splice(bestMMRIndex, 1)[0], mmr_score: bestMMRScore };
       selectedChunks.push(selectedChunk);
       
       console.log(`📌 选择文档块 ${selectedChunks.length}:`);
-      console.log(`   - 相关性: ${(selectedChunk.similarity || 0).toFixed(4)}`);
+      console.log(`   - 相关性: ${relevanceOf(selectedChunk).toFixed(4)}`);
       console.log(`   - MMR评分: ${bestMMRScore.toFixed(4)}`);
       console.log(`   - 内容预览: ${selectedChunk.content.substring(0, 50)}...`);
     } else {
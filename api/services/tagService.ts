@@ -0,0 +1,112 @@
+/**
+ * 文档标签服务
+ * 标签按用户保存在 tags 表（同一用户下名称唯一），通过 document_tags 关联到文档
+ */
+import { supabaseAdmin } from '../lib/supabase.js';
+
+/**
+ * 单个标签的最大长度
+ */
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * 单个文档的最大标签数
+ */
+export const MAX_TAGS_PER_DOCUMENT = 20;
+
+/**
+ * 规范化标签列表：去掉首尾空白、空标签和重复标签
+ * 支持数组或逗号分隔的字符串（查询参数）
+ * @returns 标签列表，参数无效时返回 null
+ */
+export function normalizeTags(value: unknown): string[] | null {
+  const items = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) {
+    return null;
+  }
+
+  const tags = Array.from(new Set((items as string[]).map(item => item.trim()).filter(Boolean)));
+  if (tags.length > MAX_TAGS_PER_DOCUMENT || tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    return null;
+  }
+  return tags;
+}
+
+/**
+ * 获取用户的全部标签
+ * @returns 标签名称，按名称升序
+ */
+export async function listUserTags(userId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('tags')
+    .select('name')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []).map(tag => tag.name);
+}
+
+/**
+ * 替换文档的标签，不存在的标签自动创建
+ * @param userId 用户ID
+ * @param documentId 文档ID
+ * @param tags 规范化后的标签列表
+ */
+export async function setDocumentTags(userId: string, documentId: string, tags: string[]): Promise<void> {
+  let tagIds: string[] = [];
+
+  if (tags.length > 0) {
+    const { data, error } = await supabaseAdmin
+      .from('tags')
+      .upsert(tags.map(name => ({ user_id: userId, name })), { onConflict: 'user_id,name' })
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+    tagIds = (data || []).map(tag => tag.id);
+  }
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('document_tags')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (deleteError) {
+    throw deleteError;
+  }
+
+  if (tagIds.length > 0) {
+    const { error: insertError } = await supabaseAdmin
+      .from('document_tags')
+      .insert(tagIds.map(tagId => ({ document_id: documentId, tag_id: tagId })));
+
+    if (insertError) {
+      throw insertError;
+    }
+  }
+
+  console.log('🏷️ 文档标签已更新:', documentId, tags.join(', ') || '(无)');
+}
+
+/**
+ * 查找带有任一指定标签的文档
+ * @param userId 用户ID
+ * @param tags 标签列表
+ * @returns 文档ID列表
+ */
+export async function findDocumentIdsByTags(userId: string, tags: string[]): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('document_tags')
+    .select('document_id, tags!inner(name, user_id)')
+    .eq('tags.user_id', userId)
+    .in('tags.name', tags);
+
+  if (error) {
+    throw error;
+  }
+  return Array.from(new Set((data || []).map(row => row.document_id)));
+}
\ No newline at end of file
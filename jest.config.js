@@ -5,14 +5,17 @@ export default {
   roots: ['<rootDir>/tests'],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
   transform: {
-    '^.+\.ts$': 'ts-jest',
+    // api/ 中使用 dotenv 等 CommonJS 包的默认导入
+    '^.+\.ts$': ['ts-jest', { tsconfig: { esModuleInterop: true } }],
   },
   collectCoverageFrom: [
     'api/**/*.ts',
     '!api/**/*.d.ts',
   ],
   moduleNameMapper: {
-    '^@/(.*)$': '<rootDir>/src/$1'
+    '^@/(.*)$': '<rootDir>/src/$1',
+    // api/ 下的 ESM 相对导入带 .js 后缀，测试时指向 .ts 源文件
+    '^(\\.{1,2}/.*)\\.js$': '$1'
   },
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
   testTimeout: 30000,
@@ -95,7 +95,13 @@ async function regenerateVectors() {
         // 更新数据库
         const { error: updateError } = await supabaseAdmin
           .from('document_chunks')
-          .update({ embedding: embedding })
+          .update({
+            embedding: embedding,
+            // 记录向量签名，否则向量搜索会忽略这些文档块
+            embedding_model: process.env.ALIBABA_EMBEDDING_MODEL || 'text-embedding-v4',
+            embedding_version: 'dashscope',
+            embedding_dimensions: embedding.length
+          })
           .eq('id', chunk.id);
         
         if (updateError) {
@@ -0,0 +1,19 @@
+/**
+ * 后端API请求封装
+ */
+import { supabase } from './supabase';
+
+/**
+ * 携带当前会话访问令牌的 fetch
+ * 后端通过 Authorization: Bearer 头识别用户
+ */
+export const apiFetch = async (input: string, init: RequestInit = {}) => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  if (session?.access_token) {
+    headers.set('Authorization', `Bearer ${session.access_token}`);
+  }
+
+  return fetch(input, { ...init, headers });
+};
\ No newline at end of file
@@ -0,0 +1,83 @@
+/**
+ * 分类树工具
+ * 分类通过 parent_id 组成树，下拉框和列表按树的顺序展示并缩进子分类
+ */
+
+/**
+ * 分类树节点需要的字段
+ */
+export interface CategoryTreeItem {
+  id: string;
+  name: string;
+  parent_id?: string | null;
+  default_model?: string | null;
+}
+
+/**
+ * 按树的顺序展开分类（父分类在前，子分类紧随其后）
+ * 上级分类不在列表中的分类作为顶级分类展示
+ * @returns 分类及其层级深度（顶级为 0）
+ */
+export function flattenCategoryTree<T extends CategoryTreeItem>(categories: T[]): Array<{ category: T; depth: number }> {
+  const ids = new Set(categories.map(category => category.id));
+  const children = new Map<string | null, T[]>();
+  categories.forEach(category => {
+    const parentId = category.parent_id && ids.has(category.parent_id) ? category.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) || []), category]);
+  });
+
+  const result: Array<{ category: T; depth: number }> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (children.get(parentId) || [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(category => {
+        result.push({ category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return result;
+}
+
+/**
+ * 下拉框中按层级缩进的分类名称
+ */
+export function indentCategoryName(name: string, depth: number): string {
+  return `${'　'.repeat(depth)}${depth > 0 ? '└ ' : ''}${name}`;
+}
+
+/**
+ * 获取分类自身及全部子孙分类的ID
+ */
+export function getCategoryDescendantIds(categories: CategoryTreeItem[], categoryId: string): Set<string> {
+  const result = new Set<string>([categoryId]);
+  let added = true;
+  while (added) {
+    added = false;
+    categories.forEach(category => {
+      if (category.parent_id && result.has(category.parent_id) && !result.has(category.id)) {
+        result.add(category.id);
+        added = true;
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * 获取分类的默认模型：未设置时沿用最近的上级分类
+ * @returns 没有设置默认模型时返回 null
+ */
+export function getCategoryDefaultModel(categories: CategoryTreeItem[], categoryId: string): string | null {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const visited = new Set<string>();
+  let current = byId.get(categoryId);
+  while (current && !visited.has(current.id)) {
+    if (current.default_model) {
+      return current.default_model;
+    }
+    visited.add(current.id);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return null;
+}
\ No newline at end of file
@@ -1,6 +1,40 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Send, Bot, User, History, Trash2, Plus, FileText } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { flattenCategoryTree, indentCategoryName, getCategoryDefaultModel } from '../lib/categoryTree';
+import { Link } from 'react-router-dom';
+import { Send, Square, Bot, User, History, Trash2, Plus, FileText, Pencil, X, Funnel } from 'lucide-react';
+
+/**
+ * 引用接口定义（对应回答中的 [n] 标记）
+ */
+interface Citation {
+  index: number;
+  document_id: string;
+  title: string;
+  chunk_id: string;
+  chunk_index: number;
+  chunk_index_end?: number;
+  page_number: number | null;
+  section: string | null;
+  score: number;
+  rerank_score?: number | null;
+  content: string;
+}
+
+/**
+ * 检索模式：required 仅依据知识库，optional 无结果时使用通用知识，none 不检索
+ */
+type RetrievalMode = 'required' | 'optional' | 'none';
+
+/**
+ * 检索模式选项
+ */
+const RETRIEVAL_MODE_OPTIONS: Array<{ value: RetrievalMode; label: string }> = [
+  { value: 'optional', label: '知识库优先' },
+  { value: 'required', label: '仅知识库' },
+  { value: 'none', label: '通用对话' }
+];
 
 /**
  * 消息接口定义
@@ -11,6 +45,9 @@ interface Message {
   role: 'user' | 'assistant';
   timestamp: string;
   sources?: string[];
+  citations?: Citation[];
+  retrievalMode?: RetrievalMode | null;
+  grounded?: boolean | null;
 }
 
 /**
@@ -31,10 +68,186 @@ interface Category {
   id: string;
   name: string;
   description?: string;
+  /** 上级分类，空表示顶级分类 */
+  parent_id?: string | null;
+  /** 分类下问答的默认模型，未设置时沿用上级分类 */
+  default_model?: string | null;
   created_at: string;
   user_id?: string;
 }
 
+/**
+ * 检索筛选表单（日期为 YYYY-MM-DD，页码为输入框中的字符串）
+ */
+interface RetrievalFilterForm {
+  documentIds: string[];
+  fileTypes: string[];
+  tags: string[];
+  createdAfter: string;
+  createdBefore: string;
+  pageFrom: string;
+  pageTo: string;
+}
+
+const EMPTY_FILTER_FORM: RetrievalFilterForm = {
+  documentIds: [],
+  fileTypes: [],
+  tags: [],
+  createdAfter: '',
+  createdBefore: '',
+  pageFrom: '',
+  pageTo: ''
+};
+
+/**
+ * 可筛选的文件类型
+ */
+const FILE_TYPE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'application/pdf', label: 'PDF' },
+  { value: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', label: 'Word' },
+  { value: 'text/markdown', label: 'Markdown' },
+  { value: 'text/html', label: 'HTML' },
+  { value: 'text/csv', label: 'CSV' },
+  { value: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', label: 'Excel' },
+  { value: 'application/json', label: 'JSON' },
+  { value: 'text/plain', label: '文本' }
+];
+
+/**
+ * 将筛选表单转换为聊天接口的 filters 参数
+ * @returns 没有任何筛选条件时返回 undefined
+ */
+const buildSearchFilters = (form: RetrievalFilterForm) => {
+  const filters: Record<string, unknown> = {};
+  if (form.documentIds.length > 0) filters.documentIds = form.documentIds;
+  if (form.fileTypes.length > 0) filters.fileTypes = form.fileTypes;
+  if (form.tags.length > 0) filters.tags = form.tags;
+  // 日期按本地时间取整天
+  if (form.createdAfter) filters.createdAfter = new Date(`${form.createdAfter}T00:00:00`).toISOString();
+  if (form.createdBefore) filters.createdBefore = new Date(`${form.createdBefore}T23:59:59.999`).toISOString();
+  if (Number(form.pageFrom) >= 1) filters.pageFrom = Math.floor(Number(form.pageFrom));
+  if (Number(form.pageTo) >= 1) filters.pageTo = Math.floor(Number(form.pageTo));
+  return Object.keys(filters).length > 0 ? filters : undefined;
+};
+
+/**
+ * 切换多选列表中的一项
+ */
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+/**
+ * 流式问答事件数据（各事件只携带其中部分字段）
+ */
+interface StreamEventData {
+  sources?: string[];
+  citations?: Citation[];
+  content?: string;
+  model?: string;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  conversationId?: string;
+  retrievalMode?: RetrievalMode;
+  grounded?: boolean;
+  error?: string;
+  details?: string;
+}
+
+/**
+ * 逐个解析SSE响应流中的事件
+ * @param response fetch返回的流式响应
+ * @param onEvent 每收到一个完整事件时的回调
+ */
+const readSSEStream = async (
+  response: Response,
+  onEvent: (event: string, data: StreamEventData) => void
+) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // 事件之间以空行分隔，最后一段可能不完整，留到下次处理
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() || '';
+
+    for (const block of blocks) {
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data += line.slice(5).trim();
+        }
+      }
+      if (data) {
+        onEvent(event, JSON.parse(data));
+      }
+    }
+  }
+};
+
+/**
+ * 将回答中的 [n] 标记渲染为可点击的脚注
+ * @param content 回答文本
+ * @param citations 引用列表
+ * @param onCite 点击脚注时的回调
+ */
+const renderWithCitations = (
+  content: string,
+  citations: Citation[] | undefined,
+  onCite: (citation: Citation) => void
+) => {
+  if (!citations || citations.length === 0) {
+    return content;
+  }
+
+  return content.split(/(\[\d+\])/g).map((part, i) => {
+    const match = part.match(/^\[(\d+)\]$/);
+    const citation = match && citations.find(c => c.index === Number(match[1]));
+    if (!citation) {
+      return part;
+    }
+    return (
+      <button
+        key={i}
+        onClick={() => onCite(citation)}
+        title={`${citation.title}${citation.page_number ? ` · 第${citation.page_number}页` : ''}`}
+        className="align-super text-xs text-blue-600 hover:text-blue-800 hover:underline px-0.5"
+      >
+        [{citation.index}]
+      </button>
+    );
+  });
+};
+
+/**
+ * 回答来源标签：说明回答由哪种检索模式产生
+ * @param message 助手消息
+ * @returns 标签文字，早期消息没有记录时返回 null
+ */
+const getAnswerModeLabel = (message: Message): string | null => {
+  if (!message.retrievalMode) {
+    return null;
+  }
+  if (message.retrievalMode === 'none') {
+    return '通用对话';
+  }
+  if (message.grounded) {
+    return message.retrievalMode === 'required' ? '仅知识库' : '基于知识库';
+  }
+  return message.retrievalMode === 'required' ? '知识库无相关内容' : '知识库无结果 · 通用回答';
+};
+
 /**
  * AI问答页面组件
  * 包含对话界面、历史记录和消息管理
@@ -46,13 +259,26 @@ const Chat: React.FC = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [selectedModel, setSelectedModel] = useState('openai/gpt-5-mini'); // 设置默认模型为GPT-5 Mini
   const [availableModels, setAvailableModels] = useState<Array<{id: string, name: string, provider: string}>>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [selectedCategoryId, setSelectedCategoryId] = useState<string>('');
+  const [retrievalMode, setRetrievalMode] = useState<RetrievalMode>('optional');
+  // 检索筛选
+  const [showFilters, setShowFilters] = useState(false);
+  const [filterForm, setFilterForm] = useState<RetrievalFilterForm>(EMPTY_FILTER_FORM);
+  const [filterDocuments, setFilterDocuments] = useState<Array<{ id: string; title: string }>>([]);
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [documentQuery, setDocumentQuery] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 已设置的筛选条件数量
+  const activeFilterCount = Object.keys(buildSearchFilters(filterForm) || {}).length;
 
   /**
    * 滚动到消息底部
@@ -65,43 +291,128 @@ const Chat: React.FC = () => {
     scrollToBottom();
   }, [messages]);
 
+  const userId = user?.id;
+
+  /**
+   * 加载对话列表
+   */
+  const loadConversations = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const response = await apiFetch(`/api/conversations/list/${userId}`);
+      if (response.ok) {
+        const result = await response.json();
+        setConversations(result.conversations || []);
+      }
+    } catch (error) {
+      console.error('加载对话列表失败:', error);
+    }
+  }, [userId]);
+
   /**
    * 创建新对话
+   * 对话在发送第一条消息时由服务端创建
    */
   const createNewConversation = () => {
-    const newConversation: Conversation = {
-      id: Date.now().toString(),
-      title: '新对话',
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      message_count: 0
-    };
-    
-    setConversations(prev => [newConversation, ...prev]);
-    setCurrentConversation(newConversation.id);
+    setCurrentConversation(null);
     setMessages([]);
+    setShowHistory(false);
   };
 
   /**
    * 选择对话
    */
-  const selectConversation = (conversationId: string) => {
+  const selectConversation = async (conversationId: string) => {
+    if (!user || isLoading) return;
+
     setCurrentConversation(conversationId);
-    // TODO: 加载对话消息
     setMessages([]);
     setShowHistory(false);
+
+    try {
+      const response = await apiFetch(`/api/conversations/${conversationId}/messages?userId=${user.id}`);
+      if (!response.ok) {
+        throw new Error(`API请求失败: ${response.status}`);
+      }
+
+      const result = await response.json();
+      setMessages((result.messages || []).map((msg: { id: string; role: 'user' | 'assistant'; content: string; created_at: string; sources?: string[]; citations?: Citation[]; retrievalMode?: RetrievalMode | null; grounded?: boolean | null }) => ({
+        id: msg.id,
+        content: msg.content,
+        role: msg.role,
+        timestamp: msg.created_at,
+        sources: msg.sources || [],
+        citations: msg.citations || [],
+        retrievalMode: msg.retrievalMode,
+        grounded: msg.grounded
+      })));
+    } catch (error) {
+      console.error('加载对话消息失败:', error);
+    }
+  };
+
+  /**
+   * 重命名对话
+   */
+  const renameConversation = async (conversation: Conversation) => {
+    if (!user) return;
+
+    const title = prompt('请输入新的对话标题', conversation.title)?.trim();
+    if (!title || title === conversation.title) return;
+
+    try {
+      const response = await apiFetch(`/api/conversations/${conversation.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          title,
+          userId: user.id
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`API请求失败: ${response.status}`);
+      }
+
+      setConversations(prev => prev.map(conv => conv.id === conversation.id ? { ...conv, title } : conv));
+    } catch (error) {
+      console.error('重命名对话失败:', error);
+      alert('重命名对话失败');
+    }
   };
 
   /**
    * 删除对话
    */
-  const deleteConversation = (conversationId: string) => {
-    if (!confirm('确定要删除这个对话吗？')) return;
-    
-    setConversations(prev => prev.filter(conv => conv.id !== conversationId));
-    if (currentConversation === conversationId) {
-      setCurrentConversation(null);
-      setMessages([]);
+  const deleteConversation = async (conversationId: string) => {
+    if (!confirm('确定要删除这个对话吗？') || !user) return;
+
+    try {
+      const response = await apiFetch(`/api/conversations/${conversationId}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          userId: user.id
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`API请求失败: ${response.status}`);
+      }
+
+      setConversations(prev => prev.filter(conv => conv.id !== conversationId));
+      if (currentConversation === conversationId) {
+        setCurrentConversation(null);
+        setMessages([]);
+      }
+    } catch (error) {
+      console.error('删除对话失败:', error);
+      alert('删除对话失败');
     }
   };
 
@@ -110,7 +421,7 @@ const Chat: React.FC = () => {
    */
   const loadModels = async () => {
     try {
-      const response = await fetch('/api/chat/models');
+      const response = await apiFetch('/api/chat/models');
       if (response.ok) {
         const result = await response.json();
         setAvailableModels(result.data || []);
@@ -123,11 +434,11 @@ const Chat: React.FC = () => {
   /**
    * 加载分类列表
    */
-  const loadCategories = async () => {
-    if (!user) return;
+  const loadCategories = useCallback(async () => {
+    if (!userId) return;
     
     try {
-      const response = await fetch(`/api/documents/categories/${user.id}`);
+      const response = await apiFetch(`/api/documents/categories/${userId}`);
       if (response.ok) {
         const result = await response.json();
         setCategories(result.categories || []); // 修复：使用 result.categories
@@ -135,19 +446,56 @@ const Chat: React.FC = () => {
     } catch (error) {
       console.error('加载分类列表失败:', error);
     }
+  }, [userId]);
+
+  /**
+   * 切换知识类型，分类（或上级分类）设置了默认模型时自动切换模型
+   */
+  const handleCategoryChange = (categoryId: string) => {
+    setSelectedCategoryId(categoryId);
+    const defaultModel = categoryId ? getCategoryDefaultModel(categories, categoryId) : null;
+    if (defaultModel) {
+      setSelectedModel(defaultModel);
+    }
   };
 
+  /**
+   * 加载筛选面板中可选的文档和标签
+   */
+  const loadFilterOptions = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const [documentsResponse, tagsResponse] = await Promise.all([
+        apiFetch(`/api/documents/list/${userId}?limit=200`),
+        apiFetch(`/api/documents/tags/${userId}`)
+      ]);
+      if (documentsResponse.ok) {
+        const result = await documentsResponse.json();
+        setFilterDocuments((result.documents || []).map((doc: { id: string; title: string }) => ({ id: doc.id, title: doc.title })));
+      }
+      if (tagsResponse.ok) {
+        const result = await tagsResponse.json();
+        setFilterTags(result.tags || []);
+      }
+    } catch (error) {
+      console.error('加载筛选选项失败:', error);
+    }
+  }, [userId]);
+
   // 加载模型列表（只执行一次）
   useEffect(() => {
     loadModels();
   }, []);
   
-  // 加载分类列表（当用户ID变化时执行）
+  // 加载分类列表和对话列表（当用户ID变化时执行）
   useEffect(() => {
-    if (user?.id) {
+    if (userId) {
       loadCategories();
+      loadConversations();
+      loadFilterOptions();
     }
-  }, [user?.id]);
+  }, [userId, loadCategories, loadConversations, loadFilterOptions]);
 
   /**
    * 发送消息
@@ -162,15 +510,21 @@ const Chat: React.FC = () => {
       timestamp: new Date().toISOString()
     };
 
-    // 如果没有当前对话，创建新对话
-    if (!currentConversation) {
-      createNewConversation();
-    }
-
     setMessages(prev => [...prev, userMessage]);
     setInputMessage('');
     setIsLoading(true);
 
+    const aiMessageId = (Date.now() + 1).toString();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    /**
+     * 更新正在流式生成的助手消息
+     */
+    const updateAiMessage = (update: (message: Message) => Message) => {
+      setMessages(prev => prev.map(msg => msg.id === aiMessageId ? update(msg) : msg));
+    };
+
     try {
       // 准备消息历史
       const chatMessages = [...messages, userMessage].map(msg => ({
@@ -178,8 +532,8 @@ const Chat: React.FC = () => {
         content: msg.content
       }));
 
-      // 调用RAG聊天API
-      const response = await fetch('/api/chat/completions', {
+      // 调用RAG聊天API（流式）
+      const response = await apiFetch('/api/chat/completions', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -189,46 +543,95 @@ const Chat: React.FC = () => {
           model: selectedModel,
           conversationId: currentConversation,
           userId: user.id, // 添加用户ID
-          categoryId: selectedCategoryId || undefined
-        })
+          categoryId: selectedCategoryId || undefined,
+          retrievalMode,
+          filters: buildSearchFilters(filterForm),
+          stream: true
+        }),
+        signal: abortController.signal
       });
 
       if (!response.ok) {
-        throw new Error(`API请求失败: ${response.status}`);
+        let errorMessage = `API请求失败: ${response.status}`;
+        try {
+          const errorData = await response.json();
+          errorMessage = errorData.message || errorData.error || errorMessage;
+        } catch {
+          // 忽略无法解析的错误响应
+        }
+        throw new Error(errorMessage);
       }
 
-      const result = await response.json();
-      
-      if (result.success) {
-        const aiMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          content: result.data.message,
-          role: 'assistant',
-          timestamp: new Date().toISOString(),
-          sources: result.data.sources || [] // 使用API返回的来源
-        };
-        
-        setMessages(prev => [...prev, aiMessage]);
-      } else {
-        throw new Error(result.error || '未知错误');
-      }
+      // 收到响应后插入空的助手消息，随增量逐步填充
+      setMessages(prev => [...prev, {
+        id: aiMessageId,
+        content: '',
+        role: 'assistant',
+        timestamp: new Date().toISOString(),
+        sources: []
+      }]);
+      setStreamingMessageId(aiMessageId);
+
+      await readSSEStream(response, (event, data) => {
+        switch (event) {
+          case 'sources':
+            updateAiMessage(msg => ({
+              ...msg,
+              sources: data.sources || [],
+              citations: data.citations || [],
+              retrievalMode: data.retrievalMode,
+              grounded: data.grounded
+            }));
+            // 新对话由服务端创建，记录其ID以便后续消息归入同一对话
+            if (data.conversationId) {
+              setCurrentConversation(data.conversationId);
+            }
+            break;
+          case 'delta':
+            updateAiMessage(msg => ({ ...msg, content: msg.content + data.content }));
+            break;
+          case 'done':
+            console.log('流式响应完成:', data.model, data.usage);
+            break;
+          case 'error':
+            throw new Error(data.details || data.error || '未知错误');
+        }
+      });
     } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log('已停止生成');
+        updateAiMessage(msg => ({ ...msg, content: msg.content || '（已停止生成）' }));
+        return;
+      }
+
       console.error('发送消息失败:', error);
       
       // 显示错误消息
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: `抱歉，发生了错误：${error instanceof Error ? error.message : '未知错误'}`,
-        role: 'assistant',
-        timestamp: new Date().toISOString()
-      };
-      
-      setMessages(prev => [...prev, errorMessage]);
+      const errorContent = `抱歉，发生了错误：${error instanceof Error ? error.message : '未知错误'}`;
+      setMessages(prev => prev.some(msg => msg.id === aiMessageId)
+        ? prev.map(msg => msg.id === aiMessageId ? { ...msg, content: msg.content ? `${msg.content}\n\n${errorContent}` : errorContent } : msg)
+        : [...prev, {
+            id: aiMessageId,
+            content: errorContent,
+            role: 'assistant',
+            timestamp: new Date().toISOString()
+          }]
+      );
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
       setIsLoading(false);
+      loadConversations();
     }
   };
 
+  /**
+   * 停止生成，中止当前的流式请求
+   */
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   /**
    * 处理键盘事件
    */
@@ -301,15 +704,28 @@ const Chat: React.FC = () => {
                         {formatDate(conversation.updated_at)} · {conversation.message_count} 条消息
                       </p>
                     </div>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deleteConversation(conversation.id);
-                      }}
-                      className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-600"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    <div className="flex items-center opacity-0 group-hover:opacity-100">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          renameConversation(conversation);
+                        }}
+                        className="p-1 text-gray-400 hover:text-blue-600"
+                        title="重命名"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteConversation(conversation.id);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="删除"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
                   </div>
                 </div>
               ))}
@@ -353,17 +769,44 @@ const Chat: React.FC = () => {
                 <label className="text-sm text-gray-600">知识类型:</label>
                 <select
                   value={selectedCategoryId}
-                  onChange={(e) => setSelectedCategoryId(e.target.value)}
+                  onChange={(e) => handleCategoryChange(e.target.value)}
                   className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="">全部类型</option>
-                  {categories.map((category) => (
+                  {flattenCategoryTree(categories).map(({ category, depth }) => (
                     <option key={category.id} value={category.id}>
-                      {category.name}
+                      {indentCategoryName(category.name, depth)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
+              {/* 检索模式选择器 */}
+              <div className="flex items-center space-x-2">
+                <label className="text-sm text-gray-600">回答方式:</label>
+                <select
+                  value={retrievalMode}
+                  onChange={(e) => setRetrievalMode(e.target.value as RetrievalMode)}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {RETRIEVAL_MODE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
                     </option>
                   ))}
                 </select>
               </div>
+
+              {/* 检索筛选 */}
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className={`px-3 py-1 border rounded-md text-sm flex items-center space-x-1 ${
+                  activeFilterCount > 0 ? 'border-blue-500 text-blue-600 bg-blue-50' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                <Funnel className="w-4 h-4" />
+                <span>筛选{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}</span>
+              </button>
             </div>
             <button
               onClick={createNewConversation}
@@ -375,6 +818,126 @@ const Chat: React.FC = () => {
           </div>
         </div>
 
+        {/* 检索筛选面板 */}
+        {showFilters && (
+          <div className="bg-white border-b border-gray-200 p-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="font-medium text-gray-700 mb-2">
+                只检索这些文档{filterForm.documentIds.length > 0 ? `（已选 ${filterForm.documentIds.length} 个）` : ''}
+              </div>
+              <input
+                type="text"
+                placeholder="搜索文档..."
+                value={documentQuery}
+                onChange={(e) => setDocumentQuery(e.target.value)}
+                className="w-full px-3 py-1 border border-gray-300 rounded-md mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+                {filterDocuments
+                  .filter(doc => doc.title.toLowerCase().includes(documentQuery.toLowerCase()))
+                  .map(doc => (
+                    <label key={doc.id} className="flex items-center space-x-2 px-3 py-1.5 hover:bg-gray-50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={filterForm.documentIds.includes(doc.id)}
+                        onChange={() => setFilterForm(prev => ({ ...prev, documentIds: toggleValue(prev.documentIds, doc.id) }))}
+                      />
+                      <span className="truncate">{doc.title}</span>
+                    </label>
+                  ))}
+                {filterDocuments.length === 0 && (
+                  <div className="px-3 py-2 text-gray-500">知识库中还没有文档</div>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <div className="font-medium text-gray-700 mb-1">文件类型</div>
+                <div className="flex flex-wrap gap-2">
+                  {FILE_TYPE_OPTIONS.map(option => (
+                    <label key={option.value} className="flex items-center space-x-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={filterForm.fileTypes.includes(option.value)}
+                        onChange={() => setFilterForm(prev => ({ ...prev, fileTypes: toggleValue(prev.fileTypes, option.value) }))}
+                      />
+                      <span>{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {filterTags.length > 0 && (
+                <div>
+                  <div className="font-medium text-gray-700 mb-1">标签</div>
+                  <div className="flex flex-wrap gap-2">
+                    {filterTags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => setFilterForm(prev => ({ ...prev, tags: toggleValue(prev.tags, tag) }))}
+                        className={`px-2 py-0.5 rounded-full text-xs ${
+                          filterForm.tags.includes(tag) ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-700">上传日期</span>
+                <input
+                  type="date"
+                  value={filterForm.createdAfter}
+                  onChange={(e) => setFilterForm(prev => ({ ...prev, createdAfter: e.target.value }))}
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                />
+                <span className="text-gray-500">至</span>
+                <input
+                  type="date"
+                  value={filterForm.createdBefore}
+                  onChange={(e) => setFilterForm(prev => ({ ...prev, createdBefore: e.target.value }))}
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-700" title="只有 PDF 文档有页码，设置页码范围后只检索 PDF">页码</span>
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="起始页"
+                  value={filterForm.pageFrom}
+                  onChange={(e) => setFilterForm(prev => ({ ...prev, pageFrom: e.target.value }))}
+                  className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                />
+                <span className="text-gray-500">至</span>
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="结束页"
+                  value={filterForm.pageTo}
+                  onChange={(e) => setFilterForm(prev => ({ ...prev, pageTo: e.target.value }))}
+                  className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={() => setFilterForm(EMPTY_FILTER_FORM)}
+                  disabled={activeFilterCount === 0}
+                  className="text-gray-500 hover:text-gray-700 disabled:opacity-40"
+                >
+                  清除筛选
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* 消息区域 */}
         <div className="flex-1 overflow-y-auto p-4">
           {messages.length === 0 ? (
@@ -439,10 +1002,32 @@ const Chat: React.FC = () => {
                           ? 'bg-blue-600 text-white'
                           : 'bg-white border border-gray-200'
                       }`}>
-                        <p className="whitespace-pre-wrap">{message.content}</p>
+                        <p className="whitespace-pre-wrap">
+                          {message.role === 'assistant'
+                            ? renderWithCitations(message.content, message.citations, setActiveCitation)
+                            : message.content}
+                        </p>
                         
-                        {/* 来源文档 */}
-                        {message.sources && message.sources.length > 0 && (
+                        {/* 引用脚注 */}
+                        {message.citations && message.citations.length > 0 ? (
+                          <div className="mt-3 pt-3 border-t border-gray-200">
+                            <p className="text-xs text-gray-500 mb-2">参考来源：</p>
+                            <ol className="space-y-1">
+                              {message.citations.map((citation) => (
+                                <li key={citation.index}>
+                                  <button
+                                    onClick={() => setActiveCitation(citation)}
+                                    className="text-left text-xs text-gray-600 hover:text-blue-600"
+                                  >
+                                    [{citation.index}] {citation.title}
+                                    {citation.page_number ? ` · 第${citation.page_number}页` : ''}
+                                    {citation.section ? ` · ${citation.section}` : ''}
+                                  </button>
+                                </li>
+                              ))}
+                            </ol>
+                          </div>
+                        ) : message.sources && message.sources.length > 0 && (
                           <div className="mt-3 pt-3 border-t border-gray-200">
                             <p className="text-xs text-gray-500 mb-2">参考来源：</p>
                             <div className="flex flex-wrap gap-1">
@@ -460,14 +1045,21 @@ const Chat: React.FC = () => {
                       </div>
                       <p className="text-xs text-gray-500 mt-1">
                         {formatTime(message.timestamp)}
+                        {message.role === 'assistant' && getAnswerModeLabel(message) && (
+                          <span className={`ml-2 px-1.5 py-0.5 rounded ${
+                            message.grounded ? 'bg-blue-50 text-blue-600' : 'bg-gray-100 text-gray-500'
+                          }`}>
+                            {getAnswerModeLabel(message)}
+                          </span>
+                        )}
                       </p>
                     </div>
                   </div>
                 </div>
               ))}
               
-              {/* 加载指示器 */}
-              {isLoading && (
+              {/* 加载指示器（收到首个响应前显示） */}
+              {isLoading && !streamingMessageId && (
                 <div className="flex justify-start">
                   <div className="flex mr-3">
                     <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center">
@@ -505,13 +1097,23 @@ const Chat: React.FC = () => {
                   style={{ minHeight: '44px', maxHeight: '120px' }}
                 />
               </div>
-              <button
-                onClick={sendMessage}
-                disabled={!inputMessage.trim() || isLoading}
-                className="bg-blue-600 text-white p-3 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <Send className="w-5 h-5" />
-              </button>
+              {isLoading ? (
+                <button
+                  onClick={stopGeneration}
+                  title="停止生成"
+                  className="bg-red-600 text-white p-3 rounded-lg hover:bg-red-700"
+                >
+                  <Square className="w-5 h-5" />
+                </button>
+              ) : (
+                <button
+                  onClick={sendMessage}
+                  disabled={!inputMessage.trim()}
+                  className="bg-blue-600 text-white p-3 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              )}
             </div>
             <p className="text-xs text-gray-500 mt-2 text-center">
               按 Enter 发送，Shift + Enter 换行
@@ -519,6 +1121,54 @@ const Chat: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* 引用原文弹窗 */}
+      {activeCitation && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          onClick={() => setActiveCitation(null)}
+        >
+          <div
+            className="bg-white rounded-lg p-6 w-full max-w-2xl mx-4 max-h-[80vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">
+                  [{activeCitation.index}] {activeCitation.title}
+                </h3>
+                <p className="text-xs text-gray-500 mt-1">
+                  片段 #{activeCitation.chunk_index + 1}
+                  {activeCitation.chunk_index_end != null && activeCitation.chunk_index_end > activeCitation.chunk_index
+                    ? `–#${activeCitation.chunk_index_end + 1}`
+                    : ''}
+                  {activeCitation.page_number ? ` · 第${activeCitation.page_number}页` : ''}
+                  {activeCitation.section ? ` · ${activeCitation.section}` : ''}
+                  {` · 相关度 ${activeCitation.score.toFixed(3)}`}
+                  {activeCitation.rerank_score != null ? ` · 重排序 ${activeCitation.rerank_score.toFixed(3)}` : ''}
+                </p>
+              </div>
+              <button
+                onClick={() => setActiveCitation(null)}
+                className="p-1 text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="overflow-y-auto whitespace-pre-wrap text-sm text-gray-700 bg-gray-50 rounded p-4">
+              {activeCitation.content}
+            </div>
+            <div className="mt-3 text-right">
+              <Link
+                to={`/knowledge?document=${activeCitation.document_id}${activeCitation.page_number ? `&page=${activeCitation.page_number}` : ''}`}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                查看原文件{activeCitation.page_number ? `（第${activeCitation.page_number}页）` : ''}
+              </Link>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
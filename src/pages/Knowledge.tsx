@@ -1,7 +1,10 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Upload, FileText, Trash2, Eye, Download, Plus, Search, FolderPlus } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { flattenCategoryTree, indentCategoryName, getCategoryDescendantIds } from '../lib/categoryTree';
+import { Upload, FileText, Trash2, Eye, Download, Plus, Search, FolderPlus, RefreshCw, Copy, History, RotateCcw, GitCompare, Pencil } from 'lucide-react';
 import { toast } from 'sonner';
+import { useSearchParams } from 'react-router-dom';
 
 /**
  * 分类接口定义
@@ -10,6 +13,13 @@ interface Category {
   id: string;
   name: string;
   description?: string;
+  /** 上级分类，空表示顶级分类 */
+  parent_id?: string | null;
+  chunking_strategy?: ChunkingStrategy | null;
+  /** 分类下问答的附加系统提示词 */
+  system_prompt?: string | null;
+  /** 分类下问答的默认模型 */
+  default_model?: string | null;
   created_at: string;
   user_id?: string;
 }
@@ -21,14 +31,153 @@ interface Document {
   id: string;
   title: string;
   content?: string;
-  file_path?: string;
+  /** 原始文件在存储中的路径，未保存原始文件时为空 */
+  file_path?: string | null;
+  file_name?: string | null;
   file_size: number;
   file_type: string;
   upload_date: string;
   chunk_count: number;
   category_id?: string;
+  description?: string | null;
+  tags: string[];
 }
 
+/**
+ * 导入任务接口定义
+ */
+interface IngestionJob {
+  id: string;
+  document_id: string | null;
+  title: string;
+  status: 'queued' | 'extracting' | 'chunking' | 'embedding' | 'done' | 'failed';
+  progress: number;
+  total_chunks: number | null;
+  processed_chunks: number;
+  failed_chunk_indexes?: number[];
+  error: string | null;
+}
+
+/**
+ * 导入任务状态文案
+ */
+const JOB_STATUS_LABELS: Record<IngestionJob['status'], string> = {
+  queued: '排队中',
+  extracting: '提取内容',
+  chunking: '文档分块',
+  embedding: '生成向量',
+  done: '已完成',
+  failed: '失败'
+};
+
+/**
+ * 任务是否有向量生成失败的分块
+ */
+const hasFailedChunks = (job: IngestionJob) => (job.failed_chunk_indexes?.length ?? 0) > 0;
+
+/**
+ * 分块策略
+ */
+type ChunkingStrategy = 'recursive' | 'sentence' | 'heading' | 'token';
+
+const CHUNKING_STRATEGY_OPTIONS: { value: ChunkingStrategy; label: string }[] = [
+  { value: 'recursive', label: '按段落递归切分' },
+  { value: 'sentence', label: '按句子切分' },
+  { value: 'heading', label: '按标题章节切分' },
+  { value: 'token', label: '按 Token 数切分' }
+];
+
+/**
+ * 文档版本
+ */
+interface DocumentVersion {
+  id: string;
+  version_number: number;
+  title: string;
+  file_url: string | null;
+  file_name: string | null;
+  file_size: number | null;
+  chunk_count: number;
+  created_at: string;
+}
+
+/**
+ * 两个版本的内容差异
+ */
+interface VersionDiff {
+  from: DocumentVersion;
+  to: DocumentVersion;
+  changes: { type: 'added' | 'removed' | 'unchanged'; value: string; count: number }[];
+  stats: { added: number; removed: number; unchanged: number };
+}
+
+/**
+ * 打开或下载原始文件（PDF 可跳转到指定页）
+ * @param versionId 指定时打开该版本的原始文件，否则打开当前版本
+ * @param target 在新窗口中打开时预先打开的窗口（避免异步请求后被浏览器拦截），为空时在当前页打开
+ */
+async function openOriginalFile(documentId: string, options: { page?: number; download?: boolean; versionId?: string; target?: Window | null } = {}) {
+  const { page, download, versionId, target } = options;
+
+  try {
+    const params = new URLSearchParams();
+    if (download) params.set('download', '1');
+    if (versionId) params.set('versionId', versionId);
+    const query = params.toString();
+    const response = await apiFetch(`/api/documents/${documentId}/download${query ? `?${query}` : ''}`);
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || '获取原始文件失败');
+    }
+
+    const result = await response.json();
+    const url = result.fileType === 'application/pdf' && page ? `${result.url}#page=${page}` : result.url;
+    if (target) {
+      target.location.href = url;
+    } else {
+      window.location.assign(url);
+    }
+  } catch (error) {
+    target?.close();
+    console.error('获取原始文件失败:', error);
+    toast.error(`获取原始文件失败: ${error instanceof Error ? error.message : '请重试'}`);
+  }
+}
+
+/**
+ * 上传内容与已有文档重复时服务端返回的信息（409）
+ */
+interface DuplicateConflict {
+  error: string;
+  duplicates: { id: string; title: string; matchType: 'exact' | 'near'; matchRatio: number }[];
+}
+
+/**
+ * 疑似重复文档组
+ */
+interface DuplicateGroup {
+  matchType: 'exact' | 'near';
+  documents: { id: string; title: string; file_name: string | null; created_at: string }[];
+  matchRatio: number;
+}
+
+/**
+ * 询问重复文档的处理方式
+ * @returns replace 作为已有文档的新版本导入，keepBoth 保留两份，null 取消导入
+ */
+function askDuplicateAction(conflict: DuplicateConflict): 'replace' | 'keepBoth' | null {
+  const [first] = conflict.duplicates;
+  if (confirm(`${conflict.error}。\n\n点击"确定"作为《${first.title}》的新版本导入（旧版本保留，可回滚），点击"取消"查看其他选项`)) {
+    return 'replace';
+  }
+  return confirm('是否仍然作为新文档导入（保留两份）？') ? 'keepBoth' : null;
+}
+
+/**
+ * 导入任务轮询间隔（毫秒）
+ */
+const JOB_POLL_INTERVAL = 1000;
+
 /**
  * 知识库管理页面组件
  * 支持文件上传、文本输入和文档管理
@@ -38,7 +187,12 @@ const Knowledge: React.FC = () => {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [selectedCategoryId, setSelectedCategoryId] = useState<string>('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [selectedTag, setSelectedTag] = useState<string>('');
   const [isUploading, setIsUploading] = useState(false);
+  // 疑似重复文档报告，null 表示未检查
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[] | null>(null);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [dragActive, setDragActive] = useState(false);
   const [showTextInput, setShowTextInput] = useState(false);
@@ -47,8 +201,32 @@ const Knowledge: React.FC = () => {
   const [textTitle, setTextTitle] = useState('');
   const [newCategoryName, setNewCategoryName] = useState('');
   const [newCategoryDescription, setNewCategoryDescription] = useState('');
+  const [newCategoryChunkingStrategy, setNewCategoryChunkingStrategy] = useState<ChunkingStrategy | ''>('');
+  const [newCategoryParentId, setNewCategoryParentId] = useState('');
+  // 编辑分类设置（上级分类、分块策略、系统提示词、默认模型），空值表示沿用上级分类
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [categoryForm, setCategoryForm] = useState({
+    name: '',
+    description: '',
+    parentId: '',
+    chunkingStrategy: '' as ChunkingStrategy | '',
+    systemPrompt: '',
+    defaultModel: ''
+  });
+  // 本次上传使用的分块策略，空字符串表示跟随分类设置
+  const [chunkingStrategy, setChunkingStrategy] = useState<ChunkingStrategy | ''>('');
   const [searchQuery, setSearchQuery] = useState('');
+  const [jobs, setJobs] = useState<IngestionJob[]>([]);
+  // 版本历史
+  const [versionDocument, setVersionDocument] = useState<Document | null>(null);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [activeVersionId, setActiveVersionId] = useState<string | null>(null);
+  const [versionDiff, setVersionDiff] = useState<VersionDiff | null>(null);
+  // 编辑文档信息
+  const [editingDocument, setEditingDocument] = useState<Document | null>(null);
+  const [editForm, setEditForm] = useState({ title: '', categoryId: '', description: '', tags: '' });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const versionFileInputRef = useRef<HTMLInputElement>(null);
 
   /**
    * 处理文件拖拽进入
@@ -142,8 +320,10 @@ const Knowledge: React.FC = () => {
         console.log('- 最后修改:', new Date(file.lastModified).toISOString());
         
         // 验证文件类型
-        const allowedTypes = ['application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-        if (!allowedTypes.includes(file.type)) {
+        // 按扩展名判断：浏览器对 .md、.csv 等文件报告的 MIME 类型不统一
+        const allowedExtensions = ['pdf', 'txt', 'doc', 'docx', 'md', 'markdown', 'html', 'htm', 'csv', 'xlsx', 'json'];
+        const extension = file.name.split('.').pop()?.toLowerCase() || '';
+        if (!allowedExtensions.includes(extension)) {
           console.error('❌ 文件类型不支持:', file.type);
           alert(`不支持的文件类型: ${file.name}`);
           continue;
@@ -169,6 +349,9 @@ const Knowledge: React.FC = () => {
         if (selectedCategoryId) {
           formData.append('categoryId', selectedCategoryId);
         }
+        if (chunkingStrategy) {
+          formData.append('chunkingStrategy', chunkingStrategy);
+        }
         
         console.log('- 标题:', title);
         console.log('- 用户ID:', user.id);
@@ -178,11 +361,27 @@ const Knowledge: React.FC = () => {
         const uploadStartTime = Date.now();
         
         try {
-          const response = await fetch('/api/documents/upload', {
+          let response = await apiFetch('/api/documents/upload', {
             method: 'POST',
             body: formData
           });
           
+          // 与已有文档重复时由用户选择替换、保留两份或跳过
+          if (response.status === 409) {
+            const conflict: DuplicateConflict = await response.json();
+            console.log('🔁 发现重复文档:', conflict.duplicates);
+            const action = askDuplicateAction(conflict);
+            if (!action) {
+              console.log('⏭️ 跳过重复文档:', file.name);
+              continue;
+            }
+            formData.append('onDuplicate', action);
+            response = await apiFetch('/api/documents/upload', {
+              method: 'POST',
+              body: formData
+            });
+          }
+          
           const uploadTime = Date.now() - uploadStartTime;
           console.log('📡 收到响应:');
           console.log('- 状态码:', response.status);
@@ -211,35 +410,18 @@ const Knowledge: React.FC = () => {
           const result = await response.json();
           console.log('📄 响应数据:', result);
           
-          if (!result.document) {
-            console.error('❌ 响应数据格式异常: 缺少document字段');
+          if (!result.job) {
+            console.error('❌ 响应数据格式异常: 缺少job字段');
             throw new Error('服务器响应格式异常');
           }
           
           console.log('✅ 响应数据验证通过');
-          console.log('- 文档ID:', result.document.id);
-          console.log('- 文档标题:', result.document.title);
-          console.log('- 分块数量:', result.document.chunks_count);
-          
-          // 添加到文档列表
-          const newDoc: Document = {
-            id: result.document.id,
-            title: result.document.title,
-            file_path: result.document.file_url, // 修正：API返回的是 file_url
-            file_size: result.document.file_size,
-            file_type: result.document.file_type,
-            upload_date: result.document.created_at,
-            chunk_count: result.document.chunks_count
-          };
+          console.log('- 任务ID:', result.job.id);
           
-          console.log('📝 添加文档到列表:', newDoc);
-          setDocuments(prev => {
-            const updated = [...prev, newDoc];
-            console.log('✅ 文档列表已更新，当前数量:', updated.length);
-            return updated;
-          });
+          // 加入任务列表，处理完成后再刷新文档列表
+          setJobs(prev => [...prev, result.job]);
           
-          console.log('🎉 文件上传成功!');
+          console.log('🎉 文件已加入处理队列!');
           
         } catch (fetchError) {
           console.error('💥 上传请求异常:');
@@ -276,7 +458,7 @@ const Knowledge: React.FC = () => {
     }
 
     try {
-      const response = await fetch('/api/documents/text', {
+      const submit = (onDuplicate?: 'replace' | 'keepBoth') => apiFetch('/api/documents/text', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -285,10 +467,21 @@ const Knowledge: React.FC = () => {
           title: textTitle,
           content: textContent,
           userId: user.id,
-          categoryId: selectedCategoryId || null
+          categoryId: selectedCategoryId || null,
+          chunkingStrategy: chunkingStrategy || null,
+          onDuplicate
         })
       });
 
+      let response = await submit();
+
+      // 与已有文档重复时由用户选择替换、保留两份或取消
+      if (response.status === 409) {
+        const action = askDuplicateAction(await response.json());
+        if (!action) return;
+        response = await submit(action);
+      }
+
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || '保存失败');
@@ -296,18 +489,8 @@ const Knowledge: React.FC = () => {
 
       const result = await response.json();
       
-      // 添加到文档列表
-      const newDoc: Document = {
-        id: result.document.id,
-        title: result.document.title,
-        content: textContent,
-        file_size: result.document.file_size,
-        file_type: result.document.file_type,
-        upload_date: result.document.created_at,
-        chunk_count: result.document.chunks_count
-      };
-      
-      setDocuments(prev => [...prev, newDoc]);
+      // 加入任务列表，处理完成后再刷新文档列表
+      setJobs(prev => [...prev, result.job]);
       setTextTitle('');
       setTextContent('');
       setShowTextInput(false);
@@ -324,7 +507,7 @@ const Knowledge: React.FC = () => {
     if (!confirm('确定要删除这个文档吗？') || !user) return;
 
     try {
-      const response = await fetch(`/api/documents/${docId}`, {
+      const response = await apiFetch(`/api/documents/${docId}`, {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json'
@@ -340,12 +523,248 @@ const Knowledge: React.FC = () => {
       }
 
       setDocuments(prev => prev.filter(doc => doc.id !== docId));
+      setDuplicateGroups(prev => prev && prev
+        .map(group => ({ ...group, documents: group.documents.filter(doc => doc.id !== docId) }))
+        .filter(group => group.documents.length > 1));
     } catch (error) {
       console.error('删除文档失败:', error);
       alert(`删除文档失败: ${error instanceof Error ? error.message : '请重试'}`);
     }
   };
 
+  /**
+   * 检查疑似重复的文档
+   */
+  const checkDuplicates = async () => {
+    if (!user) return;
+
+    setIsCheckingDuplicates(true);
+    try {
+      const response = await apiFetch(`/api/documents/duplicates/${user.id}`);
+      if (!response.ok) {
+        throw new Error('获取重复文档失败');
+      }
+
+      const result = await response.json();
+      setDuplicateGroups(result.groups);
+      if (result.groups.length === 0) {
+        toast.success('没有发现重复文档');
+      }
+    } catch (error) {
+      console.error('检查重复文档失败:', error);
+      toast.error('检查重复文档失败');
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+  };
+
+  /**
+   * 打开文档信息编辑框
+   */
+  const openEditDocument = (doc: Document) => {
+    setEditingDocument(doc);
+    setEditForm({
+      title: doc.title,
+      categoryId: doc.category_id || '',
+      description: doc.description || '',
+      tags: doc.tags.join(', ')
+    });
+  };
+
+  /**
+   * 保存文档信息（标题、分类、描述与标签）
+   */
+  const handleSaveDocument = async () => {
+    if (!editingDocument || !editForm.title.trim()) return;
+
+    try {
+      const response = await apiFetch(`/api/documents/${editingDocument.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          title: editForm.title.trim(),
+          category_id: editForm.categoryId || null,
+          description: editForm.description,
+          tags: editForm.tags.split(/[,，]/).map(tag => tag.trim()).filter(Boolean)
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || '保存失败');
+      }
+
+      toast.success('文档信息已更新');
+      setEditingDocument(null);
+      loadDocuments();
+      loadTags();
+    } catch (error) {
+      console.error('更新文档失败:', error);
+      toast.error(`更新文档失败: ${error instanceof Error ? error.message : '请重试'}`);
+    }
+  };
+
+  /**
+   * 打开文档的版本历史
+   */
+  const openVersionHistory = async (doc: Document) => {
+    setVersionDocument(doc);
+    setVersions([]);
+    setVersionDiff(null);
+
+    try {
+      const response = await apiFetch(`/api/documents/${doc.id}/versions`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || '获取版本历史失败');
+      }
+
+      const result = await response.json();
+      setVersions(result.versions);
+      setActiveVersionId(result.activeVersionId);
+    } catch (error) {
+      console.error('获取版本历史失败:', error);
+      toast.error(`获取版本历史失败: ${error instanceof Error ? error.message : '请重试'}`);
+    }
+  };
+
+  /**
+   * 查看版本与上一个版本的差异
+   */
+  const handleShowVersionDiff = async (version: DocumentVersion) => {
+    if (!versionDocument) return;
+
+    try {
+      const response = await apiFetch(`/api/documents/${versionDocument.id}/versions/diff?to=${version.id}`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || '对比版本失败');
+      }
+
+      setVersionDiff(await response.json());
+    } catch (error) {
+      console.error('对比版本失败:', error);
+      toast.error(`对比版本失败: ${error instanceof Error ? error.message : '请重试'}`);
+    }
+  };
+
+  /**
+   * 回滚到指定版本
+   */
+  const handleRollbackVersion = async (version: DocumentVersion) => {
+    if (!versionDocument) return;
+    if (!confirm(`确定要回滚到版本 ${version.version_number} 吗？\n检索将改用该版本的内容，其他版本会保留。`)) return;
+
+    try {
+      const response = await apiFetch(`/api/documents/${versionDocument.id}/versions/${version.id}/rollback`, {
+        method: 'POST'
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || '回滚失败');
+      }
+
+      setActiveVersionId(version.id);
+      toast.success(`已回滚到版本 ${version.version_number}`);
+      loadDocuments();
+    } catch (error) {
+      console.error('回滚版本失败:', error);
+      toast.error(`回滚失败: ${error instanceof Error ? error.message : '请重试'}`);
+    }
+  };
+
+  /**
+   * 上传新版本（使用当前选择的分块策略，未选择时跟随分类设置）
+   */
+  const handleUploadVersion = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !versionDocument) return;
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (chunkingStrategy) {
+        formData.append('chunkingStrategy', chunkingStrategy);
+      }
+
+      const response = await apiFetch(`/api/documents/${versionDocument.id}/versions`, {
+        method: 'POST',
+        body: formData
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || '上传新版本失败');
+      }
+
+      const result = await response.json();
+      setJobs(prev => [...prev, result.job]);
+      toast.info(`《${versionDocument.title}》的新版本已加入处理队列`);
+      setVersionDocument(null);
+    } catch (error) {
+      console.error('上传新版本失败:', error);
+      toast.error(`上传新版本失败: ${error instanceof Error ? error.message : '请重试'}`);
+    }
+  };
+
+  /**
+   * 重新处理文档（使用当前选择的分块策略，未选择时跟随分类设置）
+   */
+  const handleReprocessDocument = async (doc: Document) => {
+    if (!confirm(`确定要重新分块并生成向量吗？\n《${doc.title}》`)) return;
+
+    try {
+      const response = await apiFetch(`/api/documents/${doc.id}/reprocess`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          chunkingStrategy: chunkingStrategy || null
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || '重新处理失败');
+      }
+
+      const result = await response.json();
+      setJobs(prev => [...prev, result.job]);
+      toast.info(`《${doc.title}》已加入重新处理队列`);
+    } catch (error) {
+      console.error('重新处理文档失败:', error);
+      toast.error(`重新处理文档失败: ${error instanceof Error ? error.message : '请重试'}`);
+    }
+  };
+
+  /**
+   * 为导入任务中向量生成失败的分块补齐向量
+   */
+  const handleRetryEmbeddings = async (job: IngestionJob) => {
+    if (!job.document_id) return;
+
+    try {
+      const response = await apiFetch(`/api/documents/${job.document_id}/retry-embeddings`, {
+        method: 'POST'
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || '补齐向量失败');
+      }
+
+      const result = await response.json();
+      setJobs(prev => [...prev.filter(item => item.id !== job.id), result.job]);
+      toast.info(`《${job.title}》已加入补齐向量队列`);
+    } catch (error) {
+      console.error('补齐向量失败:', error);
+      toast.error(`补齐向量失败: ${error instanceof Error ? error.message : '请重试'}`);
+    }
+  };
+
   /**
    * 格式化文件大小
    */
@@ -363,18 +782,22 @@ const Knowledge: React.FC = () => {
   const getFileIcon = (fileType: string) => {
     if (fileType.includes('pdf')) return '📄';
     if (fileType.includes('word')) return '📝';
+    if (fileType.includes('sheet') || fileType.includes('csv') || fileType.includes('excel')) return '📊';
+    if (fileType.includes('html')) return '🌐';
     if (fileType.includes('text')) return '📃';
     return '📄';
   };
 
+  const userId = user?.id;
+
   /**
    * 加载分类列表
    */
   const loadCategories = useCallback(async () => {
-    if (!user) return;
+    if (!userId) return;
     
     try {
-      const response = await fetch(`/api/documents/categories/${user.id}`);
+      const response = await apiFetch(`/api/documents/categories/${userId}`);
       
       if (!response.ok) {
         throw new Error('获取分类列表失败');
@@ -385,13 +808,33 @@ const Knowledge: React.FC = () => {
     } catch (error) {
       console.error('加载分类列表失败:', error);
     }
-  }, [user?.id]);
+  }, [userId]);
+
+  /**
+   * 加载标签列表
+   */
+  const loadTags = useCallback(async () => {
+    if (!userId) return;
+    
+    try {
+      const response = await apiFetch(`/api/documents/tags/${userId}`);
+      
+      if (!response.ok) {
+        throw new Error('获取标签列表失败');
+      }
+      
+      const result = await response.json();
+      setTags(result.tags || []);
+    } catch (error) {
+      console.error('加载标签列表失败:', error);
+    }
+  }, [userId]);
 
   /**
    * 加载用户文档列表
    */
   const loadDocuments = useCallback(async () => {
-    if (!user) return;
+    if (!userId) return;
     
     try {
       setIsLoading(true);
@@ -399,8 +842,11 @@ const Knowledge: React.FC = () => {
       if (selectedCategoryId) {
         params.append('categoryId', selectedCategoryId);
       }
+      if (selectedTag) {
+        params.append('tags', selectedTag);
+      }
       
-      const response = await fetch(`/api/documents/list/${user.id}?${params}`);
+      const response = await apiFetch(`/api/documents/list/${userId}?${params}`);
       
       if (!response.ok) {
         throw new Error('获取文档列表失败');
@@ -411,12 +857,15 @@ const Knowledge: React.FC = () => {
         id: doc.id,
         title: doc.title,
         file_path: doc.file_url,
+        file_name: doc.file_name,
         content: doc.content,
         file_size: doc.file_size,
         file_type: doc.file_type,
         upload_date: doc.created_at,
         chunk_count: doc.chunks_count || 0,
-        category_id: doc.category_id
+        category_id: doc.category_id,
+        description: doc.description,
+        tags: doc.tags || []
       }));
       
       setDocuments(docs);
@@ -425,7 +874,7 @@ const Knowledge: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [user?.id, selectedCategoryId]); // 修复：只依赖user.id而不是整个user对象
+  }, [userId, selectedCategoryId, selectedTag]); // 修复：只依赖user.id而不是整个user对象
 
   /**
    * 创建新分类
@@ -434,7 +883,7 @@ const Knowledge: React.FC = () => {
     if (!user || !newCategoryName.trim()) return;
     
     try {
-      const response = await fetch('/api/documents/categories', {
+      const response = await apiFetch('/api/documents/categories', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -442,6 +891,8 @@ const Knowledge: React.FC = () => {
         body: JSON.stringify({
           name: newCategoryName.trim(),
           description: newCategoryDescription.trim() || null,
+          chunkingStrategy: newCategoryChunkingStrategy || null,
+          parentId: newCategoryParentId || null,
           userId: user.id
         })
       });
@@ -456,6 +907,8 @@ const Knowledge: React.FC = () => {
       // 清空表单
       setNewCategoryName('');
       setNewCategoryDescription('');
+      setNewCategoryChunkingStrategy('');
+      setNewCategoryParentId('');
       setShowCategoryModal(false);
       
       toast.success('分类创建成功');
@@ -466,13 +919,65 @@ const Knowledge: React.FC = () => {
   };
 
   /**
-   * 删除分类
+   * 打开分类编辑框
+   */
+  const openEditCategory = (category: Category) => {
+    setEditingCategory(category);
+    setCategoryForm({
+      name: category.name,
+      description: category.description || '',
+      parentId: category.parent_id || '',
+      chunkingStrategy: category.chunking_strategy || '',
+      systemPrompt: category.system_prompt || '',
+      defaultModel: category.default_model || ''
+    });
+  };
+
+  /**
+   * 保存分类设置，修改上级分类时子分类随之移动
+   */
+  const saveCategory = async () => {
+    if (!editingCategory || !categoryForm.name.trim()) return;
+
+    try {
+      const response = await apiFetch(`/api/documents/categories/${editingCategory.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          name: categoryForm.name.trim(),
+          description: categoryForm.description.trim() || null,
+          parentId: categoryForm.parentId || null,
+          chunkingStrategy: categoryForm.chunkingStrategy || null,
+          systemPrompt: categoryForm.systemPrompt.trim() || null,
+          defaultModel: categoryForm.defaultModel.trim() || null
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || '保存失败');
+      }
+
+      toast.success('分类已更新');
+      setEditingCategory(null);
+      await loadCategories();
+      loadDocuments();
+    } catch (error) {
+      console.error('更新分类失败:', error);
+      toast.error(`更新分类失败: ${error instanceof Error ? error.message : '请重试'}`);
+    }
+  };
+
+  /**
+   * 删除分类，子分类和文档移到上级分类
    */
   const deleteCategory = async (categoryId: string) => {
     if (!user) return;
     
     try {
-      const response = await fetch(`/api/documents/categories/${categoryId}`, {
+      const response = await apiFetch(`/api/documents/categories/${categoryId}`, {
         method: 'DELETE'
       });
       
@@ -496,16 +1001,79 @@ const Knowledge: React.FC = () => {
     }
   };
 
-  // 页面加载时获取文档列表和分类列表
+  // 页面加载时获取分类列表和标签列表
   useEffect(() => {
-    loadDocuments();
     loadCategories();
-  }, [loadDocuments, loadCategories]);
+    loadTags();
+  }, [loadCategories, loadTags]);
+
+  // 从引用跳转过来时打开原始文件（?document=<id>&page=<n>）
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  useEffect(() => {
+    const documentId = searchParams.get('document');
+    if (!documentId) return;
+    const page = Number(searchParams.get('page')) || undefined;
+    setSearchParams({}, { replace: true });
+    openOriginalFile(documentId, { page });
+  }, [searchParams, setSearchParams]);
 
-  // 当选中分类改变时重新加载文档
+  // 页面加载及选中分类、标签改变时重新加载文档
   useEffect(() => {
     loadDocuments();
-  }, [selectedCategoryId]);
+  }, [loadDocuments]);
+
+  // 轮询进行中的导入任务
+  const activeJobIds = jobs
+    .filter(job => job.status !== 'done' && job.status !== 'failed')
+    .map(job => job.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!activeJobIds) return;
+
+    const timer = setInterval(async () => {
+      const updates = await Promise.all(
+        activeJobIds.split(',').map(async (jobId) => {
+          try {
+            const response = await apiFetch(`/api/documents/jobs/${jobId}`);
+            if (!response.ok) return null;
+            const result = await response.json();
+            return result.job as IngestionJob;
+          } catch (error) {
+            console.error('获取导入任务状态失败:', error);
+            return null;
+          }
+        })
+      );
+
+      let hasFinished = false;
+      for (const job of updates) {
+        if (!job) continue;
+        if (job.status === 'done') {
+          hasFinished = true;
+          if (job.failed_chunk_indexes?.length) {
+            toast.warning(`《${job.title}》处理完成，但 ${job.failed_chunk_indexes.length} 个分块向量生成失败，暂时无法被检索`);
+          } else {
+            toast.success(`《${job.title}》处理完成`);
+          }
+        } else if (job.status === 'failed') {
+          toast.error(`《${job.title}》处理失败: ${job.error || '请重试'}`);
+        }
+      }
+
+      setJobs(prev => prev
+        .map(job => updates.find(update => update?.id === job.id) || job)
+        // 已完成的任务从列表移除，失败和部分分块缺少向量的任务保留以便查看原因和补齐
+        .filter(job => job.status !== 'done' || hasFailedChunks(job)));
+
+      if (hasFinished) {
+        loadDocuments();
+      }
+    }, JOB_POLL_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [activeJobIds, loadDocuments]);
 
   // 过滤文档
   const filteredDocuments = documents.filter(doc =>
@@ -531,6 +1099,22 @@ const Knowledge: React.FC = () => {
           </div>
         </div>
 
+        {/* 分块策略（对文件上传和文本输入生效） */}
+        <div className="flex items-center justify-end gap-2 mb-3 text-sm">
+          <label htmlFor="chunking-strategy" className="text-gray-600">分块策略</label>
+          <select
+            id="chunking-strategy"
+            value={chunkingStrategy}
+            onChange={(e) => setChunkingStrategy(e.target.value as ChunkingStrategy | '')}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">跟随分类设置</option>
+            {CHUNKING_STRATEGY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
         {/* 上传区域 */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           {/* 文件上传 */}
@@ -551,7 +1135,7 @@ const Knowledge: React.FC = () => {
               拖拽文件到此处，或点击选择文件
             </p>
             <p className="text-sm text-gray-500 mb-4">
-              支持 PDF, Word, TXT 格式，最大 10MB
+              支持 PDF, Word, Markdown, HTML, CSV, Excel, JSON, TXT 格式，最大 10MB
             </p>
             <button
               onClick={() => fileInputRef.current?.click()}
@@ -564,7 +1148,7 @@ const Knowledge: React.FC = () => {
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".pdf,.txt,.doc,.docx"
+              accept=".pdf,.txt,.doc,.docx,.md,.markdown,.html,.htm,.csv,.xlsx,.json"
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -586,6 +1170,59 @@ const Knowledge: React.FC = () => {
           </div>
         </div>
 
+        {/* 导入任务进度 */}
+        {jobs.length > 0 && (
+          <div className="bg-white rounded-lg shadow mb-8 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">处理队列</h3>
+              {jobs.some(job => job.status === 'failed' || hasFailedChunks(job)) && (
+                <button
+                  onClick={() => setJobs(prev => prev.filter(job => job.status !== 'failed' && !hasFailedChunks(job)))}
+                  className="text-xs text-gray-500 hover:text-gray-700"
+                >
+                  清除失败任务
+                </button>
+              )}
+            </div>
+            {jobs.map(job => (
+              <div key={job.id}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="text-gray-900 truncate">{job.title}</span>
+                  <span className={job.status === 'failed' ? 'text-red-600' : 'text-gray-500'}>
+                    {JOB_STATUS_LABELS[job.status]}
+                    {job.status === 'embedding' && job.total_chunks
+                      ? ` (${job.processed_chunks}/${job.total_chunks})`
+                      : ''}
+                    {job.status !== 'failed' && ` ${job.progress}%`}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full transition-all ${job.status === 'failed' ? 'bg-red-500' : 'bg-blue-600'}`}
+                    style={{ width: `${job.status === 'failed' ? 100 : job.progress}%` }}
+                  />
+                </div>
+                {job.status === 'failed' && job.error && (
+                  <p className="text-xs text-red-600 mt-1">{job.error}</p>
+                )}
+                {job.status === 'done' && hasFailedChunks(job) && (
+                  <div className="flex items-center justify-between text-xs mt-1">
+                    <span className="text-yellow-700">
+                      {job.failed_chunk_indexes!.length}/{job.total_chunks} 个分块缺少向量，暂时无法被检索
+                    </span>
+                    <button
+                      onClick={() => handleRetryEmbeddings(job)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      补齐向量
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* 文本输入模态框 */}
         {showTextInput && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -644,13 +1281,28 @@ const Knowledge: React.FC = () => {
               className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="">所有分类</option>
-              {categories.map((category) => (
+              {flattenCategoryTree(categories).map(({ category, depth }) => (
                 <option key={category.id} value={category.id}>
-                  {category.name}
+                  {indentCategoryName(category.name, depth)}
                 </option>
               ))}
             </select>
             
+            {tags.length > 0 && (
+              <select
+                value={selectedTag}
+                onChange={(e) => setSelectedTag(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">所有标签</option>
+                {tags.map((tag) => (
+                  <option key={tag} value={tag}>
+                    {tag}
+                  </option>
+                ))}
+              </select>
+            )}
+            
             <button
               onClick={() => setShowCategoryModal(true)}
               className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
@@ -658,7 +1310,62 @@ const Knowledge: React.FC = () => {
               <FolderPlus className="w-4 h-4" />
               管理分类
             </button>
+
+            <button
+              onClick={checkDuplicates}
+              disabled={isCheckingDuplicates}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Copy className="w-4 h-4" />
+              {isCheckingDuplicates ? '检查中...' : '检查重复'}
+            </button>
           </div>
+
+          {/* 疑似重复文档报告 */}
+          {duplicateGroups && duplicateGroups.length > 0 && (
+            <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-medium text-yellow-800">
+                  发现 {duplicateGroups.length} 组疑似重复的文档
+                </h3>
+                <button
+                  onClick={() => setDuplicateGroups(null)}
+                  className="text-xs text-yellow-700 hover:text-yellow-900"
+                >
+                  关闭
+                </button>
+              </div>
+              <div className="space-y-3">
+                {duplicateGroups.map((group) => (
+                  <div key={group.documents.map(doc => doc.id).join(',')} className="bg-white rounded border border-yellow-100 p-3">
+                    <div className="text-xs text-gray-500 mb-2">
+                      {group.matchType === 'exact' ? '内容完全相同' : `内容高度相似（${Math.round(group.matchRatio * 100)}% 的片段重复）`}
+                    </div>
+                    <ul className="space-y-1">
+                      {group.documents.map((doc, index) => (
+                        <li key={doc.id} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-800 truncate">
+                            {doc.title}
+                            <span className="text-xs text-gray-400 ml-2">
+                              {new Date(doc.created_at).toLocaleDateString()}
+                              {index === 0 ? ' · 最早上传' : ''}
+                            </span>
+                          </span>
+                          <button
+                            onClick={() => handleDeleteDocument(doc.id)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="删除该文档"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* 分类管理模态框 */}
@@ -684,6 +1391,28 @@ const Knowledge: React.FC = () => {
                   rows={2}
                   className="w-full p-3 border border-gray-300 rounded-lg mb-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
+                <select
+                  value={newCategoryParentId}
+                  onChange={(e) => setNewCategoryParentId(e.target.value)}
+                  className="w-full p-3 border border-gray-300 rounded-lg mb-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">上级分类：无（顶级分类）</option>
+                  {flattenCategoryTree(categories).map(({ category, depth }) => (
+                    <option key={category.id} value={category.id}>
+                      {indentCategoryName(category.name, depth)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={newCategoryChunkingStrategy}
+                  onChange={(e) => setNewCategoryChunkingStrategy(e.target.value as ChunkingStrategy | '')}
+                  className="w-full p-3 border border-gray-300 rounded-lg mb-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">分块策略：默认</option>
+                  {CHUNKING_STRATEGY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>分块策略：{option.label}</option>
+                  ))}
+                </select>
                 <button
                   onClick={createCategory}
                   disabled={!newCategoryName.trim()}
@@ -700,24 +1429,37 @@ const Knowledge: React.FC = () => {
                   {categories.length === 0 ? (
                     <p className="text-gray-500 text-sm">暂无分类</p>
                   ) : (
-                    categories.map((category) => (
-                      <div key={category.id} className="flex items-center justify-between p-2 border border-gray-200 rounded mb-2">
+                    flattenCategoryTree(categories).map(({ category, depth }) => (
+                      <div
+                        key={category.id}
+                        className="flex items-center justify-between p-2 border border-gray-200 rounded mb-2"
+                        style={{ marginLeft: depth * 16 }}
+                      >
                         <div>
                           <div className="font-medium">{category.name}</div>
                           {category.description && (
                             <div className="text-sm text-gray-500">{category.description}</div>
                           )}
                         </div>
-                        <button
-                          onClick={() => {
-                            if (confirm(`确定要删除分类 "${category.name}" 吗？`)) {
-                              deleteCategory(category.id);
-                            }
-                          }}
-                          className="text-red-600 hover:text-red-800 p-1"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
+                        <div className="flex items-center">
+                          <button
+                            onClick={() => openEditCategory(category)}
+                            className="text-gray-600 hover:text-gray-800 p-1"
+                            title="编辑分类"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => {
+                              if (confirm(`确定要删除分类 "${category.name}" 吗？子分类和文档将移到上级分类`)) {
+                                deleteCategory(category.id);
+                              }
+                            }}
+                            className="text-red-600 hover:text-red-800 p-1"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
                       </div>
                     ))
                   )}
@@ -769,22 +1511,63 @@ const Knowledge: React.FC = () => {
                           <span>{new Date(doc.upload_date).toLocaleDateString()}</span>
                           <span>{doc.chunk_count} 个片段</span>
                         </div>
-                        {doc.category_id && (
-                          <div className="text-sm">
-                            <span className="inline-block bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs">
-                              {categories.find(cat => cat.id === doc.category_id)?.name || '未知分类'}
-                            </span>
+                        {doc.description && (
+                          <p className="text-sm text-gray-600 mb-1">{doc.description}</p>
+                        )}
+                        {(doc.category_id || doc.tags.length > 0) && (
+                          <div className="text-sm flex flex-wrap gap-1">
+                            {doc.category_id && (
+                              <span className="inline-block bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs">
+                                {categories.find(cat => cat.id === doc.category_id)?.name || '未知分类'}
+                              </span>
+                            )}
+                            {doc.tags.map(tag => (
+                              <span key={tag} className="inline-block bg-gray-100 text-gray-700 px-2 py-1 rounded-full text-xs">
+                                #{tag}
+                              </span>
+                            ))}
                           </div>
                         )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <button className="p-2 text-gray-400 hover:text-blue-600">
+                      <button
+                        onClick={() => openOriginalFile(doc.id, { target: window.open('', '_blank') })}
+                        disabled={!doc.file_path}
+                        title={doc.file_path ? '查看原文件' : '该文档没有保存原始文件'}
+                        className="p-2 text-gray-400 hover:text-blue-600 disabled:opacity-40 disabled:hover:text-gray-400"
+                      >
                         <Eye className="w-5 h-5" />
                       </button>
-                      <button className="p-2 text-gray-400 hover:text-green-600">
+                      <button
+                        onClick={() => openOriginalFile(doc.id, { download: true })}
+                        disabled={!doc.file_path}
+                        title={doc.file_path ? '下载原文件' : '该文档没有保存原始文件'}
+                        className="p-2 text-gray-400 hover:text-green-600 disabled:opacity-40 disabled:hover:text-gray-400"
+                      >
                         <Download className="w-5 h-5" />
                       </button>
+                      <button
+                        onClick={() => openEditDocument(doc)}
+                        title="编辑文档信息"
+                        className="p-2 text-gray-400 hover:text-blue-600"
+                      >
+                        <Pencil className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => openVersionHistory(doc)}
+                        title="版本历史"
+                        className="p-2 text-gray-400 hover:text-purple-600"
+                      >
+                        <History className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handleReprocessDocument(doc)}
+                        title="重新分块"
+                        className="p-2 text-gray-400 hover:text-blue-600"
+                      >
+                        <RefreshCw className="w-5 h-5" />
+                      </button>
                       <button
                         onClick={() => handleDeleteDocument(doc.id)}
                         className="p-2 text-gray-400 hover:text-red-600"
@@ -800,6 +1583,248 @@ const Knowledge: React.FC = () => {
         </div>
       </div>
 
+      {/* 编辑分类模态框（在分类管理模态框之上） */}
+      {editingCategory && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg mx-4">
+            <h3 className="text-lg font-semibold mb-4">编辑分类</h3>
+            <div className="space-y-4">
+              <input
+                type="text"
+                placeholder="分类名称"
+                value={categoryForm.name}
+                onChange={(e) => setCategoryForm(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <textarea
+                placeholder="分类描述（可选）"
+                value={categoryForm.description}
+                onChange={(e) => setCategoryForm(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <select
+                value={categoryForm.parentId}
+                onChange={(e) => setCategoryForm(prev => ({ ...prev, parentId: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">上级分类：无（顶级分类）</option>
+                {/* 不能移动到自身或子分类下 */}
+                {flattenCategoryTree(categories)
+                  .filter(({ category }) => !getCategoryDescendantIds(categories, editingCategory.id).has(category.id))
+                  .map(({ category, depth }) => (
+                    <option key={category.id} value={category.id}>
+                      {indentCategoryName(category.name, depth)}
+                    </option>
+                  ))}
+              </select>
+              <select
+                value={categoryForm.chunkingStrategy}
+                onChange={(e) => setCategoryForm(prev => ({ ...prev, chunkingStrategy: e.target.value as ChunkingStrategy | '' }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">分块策略：沿用上级分类</option>
+                {CHUNKING_STRATEGY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>分块策略：{option.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="默认模型，如 openai/gpt-4o（留空沿用上级分类）"
+                value={categoryForm.defaultModel}
+                onChange={(e) => setCategoryForm(prev => ({ ...prev, defaultModel: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <textarea
+                placeholder="系统提示词，问答时附加在提示词前（留空沿用上级分类）"
+                value={categoryForm.systemPrompt}
+                onChange={(e) => setCategoryForm(prev => ({ ...prev, systemPrompt: e.target.value }))}
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="flex justify-end space-x-3 mt-6">
+              <button
+                onClick={() => setEditingCategory(null)}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                取消
+              </button>
+              <button
+                onClick={saveCategory}
+                disabled={!categoryForm.name.trim()}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 编辑文档信息模态框 */}
+      {editingDocument && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg mx-4">
+            <h3 className="text-lg font-semibold mb-4">编辑文档信息</h3>
+            <div className="space-y-4">
+              <input
+                type="text"
+                placeholder="文档标题"
+                value={editForm.title}
+                onChange={(e) => setEditForm(prev => ({ ...prev, title: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <select
+                value={editForm.categoryId}
+                onChange={(e) => setEditForm(prev => ({ ...prev, categoryId: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">未分类</option>
+                {flattenCategoryTree(categories).map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>
+                    {indentCategoryName(category.name, depth)}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                placeholder="文档描述（可选）"
+                value={editForm.description}
+                onChange={(e) => setEditForm(prev => ({ ...prev, description: e.target.value }))}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="text"
+                placeholder="标签，用逗号分隔"
+                value={editForm.tags}
+                onChange={(e) => setEditForm(prev => ({ ...prev, tags: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="flex justify-end space-x-3 mt-6">
+              <button
+                onClick={() => setEditingDocument(null)}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                取消
+              </button>
+              <button
+                onClick={handleSaveDocument}
+                disabled={!editForm.title.trim()}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 版本历史模态框 */}
+      {versionDocument && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-3xl mx-4 max-h-[85vh] flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">《{versionDocument.title}》版本历史</h3>
+              <button
+                onClick={() => versionFileInputRef.current?.click()}
+                className="bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 text-sm flex items-center gap-1"
+              >
+                <Upload className="w-4 h-4" />
+                上传新版本
+              </button>
+              <input
+                ref={versionFileInputRef}
+                type="file"
+                accept=".pdf,.txt,.doc,.docx,.md,.markdown,.html,.htm,.csv,.xlsx,.json"
+                onChange={handleUploadVersion}
+                className="hidden"
+              />
+            </div>
+
+            <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg overflow-y-auto max-h-64">
+              {versions.map(version => (
+                <div key={version.id} className="p-3 flex items-center justify-between text-sm">
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      版本 {version.version_number}
+                      {version.id === activeVersionId && (
+                        <span className="ml-2 bg-green-100 text-green-800 px-2 py-0.5 rounded-full text-xs">当前版本</span>
+                      )}
+                    </div>
+                    <div className="text-gray-500">
+                      {version.file_name || version.title} · {version.chunk_count} 个片段 · {new Date(version.created_at).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => handleShowVersionDiff(version)}
+                      disabled={version.version_number === 1}
+                      title="与上一个版本对比"
+                      className="p-2 text-gray-400 hover:text-blue-600 disabled:opacity-40 disabled:hover:text-gray-400"
+                    >
+                      <GitCompare className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => openOriginalFile(versionDocument.id, { download: true, versionId: version.id })}
+                      disabled={!version.file_url}
+                      title={version.file_url ? '下载该版本的原文件' : '该版本没有保存原始文件'}
+                      className="p-2 text-gray-400 hover:text-green-600 disabled:opacity-40 disabled:hover:text-gray-400"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRollbackVersion(version)}
+                      disabled={version.id === activeVersionId}
+                      title="回滚到该版本"
+                      className="p-2 text-gray-400 hover:text-orange-600 disabled:opacity-40 disabled:hover:text-gray-400"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {versionDiff && (
+              <div className="mt-4 flex flex-col min-h-0">
+                <div className="text-sm text-gray-600 mb-2">
+                  版本 {versionDiff.from.version_number} → 版本 {versionDiff.to.version_number}：
+                  <span className="text-green-700"> +{versionDiff.stats.added} 行</span>
+                  <span className="text-red-700"> -{versionDiff.stats.removed} 行</span>
+                </div>
+                <pre className="text-xs border border-gray-200 rounded-lg p-3 overflow-auto max-h-72 whitespace-pre-wrap">
+                  {versionDiff.changes.map((change, index) => (
+                    <span
+                      key={index}
+                      className={
+                        change.type === 'added'
+                          ? 'bg-green-100 text-green-800'
+                          : change.type === 'removed'
+                            ? 'bg-red-100 text-red-800 line-through'
+                            : 'text-gray-500'
+                      }
+                    >
+                      {change.value}
+                    </span>
+                  ))}
+                </pre>
+              </div>
+            )}
+
+            <div className="flex justify-end mt-4">
+              <button
+                onClick={() => setVersionDocument(null)}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                关闭
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* 分类管理模态框 */}
       {showCategoryModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -822,6 +1847,28 @@ const Knowledge: React.FC = () => {
                 onChange={(e) => setNewCategoryDescription(e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded mb-3 h-20 resize-none"
               />
+              <select
+                value={newCategoryParentId}
+                onChange={(e) => setNewCategoryParentId(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded mb-3"
+              >
+                <option value="">上级分类：无（顶级分类）</option>
+                {flattenCategoryTree(categories).map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>
+                    {indentCategoryName(category.name, depth)}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={newCategoryChunkingStrategy}
+                onChange={(e) => setNewCategoryChunkingStrategy(e.target.value as ChunkingStrategy | '')}
+                className="w-full p-2 border border-gray-300 rounded mb-3"
+              >
+                <option value="">分块策略：默认</option>
+                {CHUNKING_STRATEGY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>分块策略：{option.label}</option>
+                ))}
+              </select>
               <button
                 onClick={createCategory}
                 disabled={!newCategoryName.trim()}
@@ -838,14 +1885,25 @@ const Knowledge: React.FC = () => {
                 {categories.length === 0 ? (
                   <p className="text-gray-500 text-sm">暂无分类</p>
                 ) : (
-                  categories.map((category) => (
-                    <div key={category.id} className="flex items-center justify-between p-2 border border-gray-200 rounded mb-2">
+                  flattenCategoryTree(categories).map(({ category, depth }) => (
+                    <div
+                      key={category.id}
+                      className="flex items-center justify-between p-2 border border-gray-200 rounded mb-2"
+                      style={{ marginLeft: depth * 16 }}
+                    >
                       <div className="flex-1">
                         <div className="font-medium">{category.name}</div>
                         {category.description && (
                           <div className="text-sm text-gray-600">{category.description}</div>
                         )}
                       </div>
+                      <button
+                        onClick={() => openEditCategory(category)}
+                        className="text-gray-500 hover:text-gray-700 p-1"
+                        title="编辑分类"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
                       <button
                         onClick={() => deleteCategory(category.id)}
                         className="text-red-500 hover:text-red-700 p-1"
@@ -866,6 +1924,7 @@ const Knowledge: React.FC = () => {
                   setShowCategoryModal(false);
                   setNewCategoryName('');
                   setNewCategoryDescription('');
+                  setNewCategoryParentId('');
                 }}
                 className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400"
               >
@@ -143,18 +143,21 @@ export interface Database {
           message_id: string;
           chunk_id: string;
           similarity_score: number;
+          citation_index: number | null;
         };
         Insert: {
           id?: string;
           message_id: string;
           chunk_id: string;
           similarity_score: number;
+          citation_index?: number | null;
         };
         Update: {
           id?: string;
           message_id?: string;
           chunk_id?: string;
           similarity_score?: number;
+          citation_index?: number | null;
         };
       };
     };
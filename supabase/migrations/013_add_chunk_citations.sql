@@ -0,0 +1,62 @@
+-- 支持回答中的分块级引用
+-- 1. 向量搜索函数返回 document_id 和 metadata，以便生成页码/章节引用
+-- 2. message_sources 记录引用编号，使历史消息中的 [n] 标记可以还原
+
+-- 返回列变化需要先删除旧函数
+DROP FUNCTION IF EXISTS search_similar_chunks_with_category(extensions.vector, uuid, double precision, integer, uuid);
+
+CREATE OR REPLACE FUNCTION search_similar_chunks_with_category(
+  query_embedding extensions.vector(1024),
+  target_user_id uuid,
+  match_threshold float DEFAULT 0.3,
+  match_count int DEFAULT 5,
+  category_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  chunk_index int,
+  metadata jsonb,
+  similarity float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.chunk_index,
+    dc.metadata,
+    -- 计算余弦相似度
+    1 - (dc.embedding <=> query_embedding) as similarity,
+    -- 返回文档信息作为JSON
+    jsonb_build_object(
+      'id', d.id,
+      'title', d.title,
+      'user_id', d.user_id,
+      'category_id', d.category_id
+    ) as documents
+  FROM document_chunks dc
+  INNER JOIN documents d ON dc.document_id = d.id
+  WHERE 
+    d.user_id = target_user_id
+    AND dc.embedding IS NOT NULL
+    AND (1 - (dc.embedding <=> query_embedding)) > match_threshold
+    AND (category_filter IS NULL OR d.category_id = category_filter)
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_similar_chunks_with_category IS '支持分类过滤的向量相似度搜索函数 - 返回分块元数据用于引用';
+
+-- 为消息来源添加引用编号（对应回答中的 [n] 标记）
+ALTER TABLE message_sources ADD COLUMN IF NOT EXISTS citation_index INTEGER;
+
+COMMENT ON COLUMN message_sources.citation_index IS '回答中引用标记 [n] 的编号，从1开始';
\ No newline at end of file
@@ -0,0 +1,11 @@
+-- 记录导入时向量生成失败的文档块
+-- 批量向量生成部分失败时保留文档，失败的分块以 embedding 为空的形式入库，等待补齐
+
+ALTER TABLE ingestion_jobs
+    ADD COLUMN IF NOT EXISTS failed_chunk_indexes INTEGER[] NOT NULL DEFAULT '{}';
+
+-- 便于查找尚未生成向量的文档块
+CREATE INDEX IF NOT EXISTS idx_document_chunks_missing_embedding
+    ON document_chunks(document_id) WHERE embedding IS NULL;
+
+COMMENT ON COLUMN ingestion_jobs.failed_chunk_indexes IS '向量生成失败、仍需补齐向量的分块序号（chunk_index）';
\ No newline at end of file
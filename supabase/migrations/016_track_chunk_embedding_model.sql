@@ -0,0 +1,120 @@
+-- 记录每个文档块的向量模型、版本和维度，支持更换嵌入模型后的渐进式重新向量化
+-- 1. document_chunks 增加 embedding_model / embedding_version / embedding_dimensions
+-- 2. embedding 列不再固定维度，向量搜索只比较与查询向量兼容的文档块
+-- 3. 新增重新向量化任务表，记录游标以便服务重启后继续处理
+
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding_version TEXT;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+
+-- 现有向量均由阿里云 text-embedding-v4 生成（见 012_update_vector_dimension_to_1024.sql）
+UPDATE document_chunks
+SET embedding_model = 'text-embedding-v4',
+    embedding_version = 'dashscope',
+    embedding_dimensions = 1024
+WHERE embedding IS NOT NULL
+  AND embedding_model IS NULL;
+
+-- 固定维度的向量索引无法容纳不同维度的向量，改为不限维度的列
+DROP INDEX IF EXISTS idx_document_chunks_embedding;
+ALTER TABLE document_chunks ALTER COLUMN embedding TYPE extensions.vector;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_signature
+    ON document_chunks(embedding_model, embedding_version, embedding_dimensions);
+
+-- 向量搜索函数增加模型/版本过滤
+DROP FUNCTION IF EXISTS search_similar_chunks_with_category(extensions.vector, uuid, double precision, integer, uuid);
+
+CREATE OR REPLACE FUNCTION search_similar_chunks_with_category(
+  query_embedding extensions.vector,
+  target_user_id uuid,
+  match_threshold float DEFAULT 0.3,
+  match_count int DEFAULT 5,
+  category_filter uuid DEFAULT NULL,
+  embedding_model_filter text DEFAULT NULL,
+  embedding_version_filter text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  chunk_index int,
+  metadata jsonb,
+  similarity float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  -- 先筛选出维度和模型兼容的文档块，再计算距离（不同维度的向量无法比较）
+  WITH compatible_chunks AS MATERIALIZED (
+    SELECT dc.id, dc.document_id, dc.content, dc.chunk_index, dc.metadata, dc.embedding,
+           d.title, d.user_id, d.category_id
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE 
+      d.user_id = target_user_id
+      AND dc.embedding IS NOT NULL
+      AND dc.embedding_dimensions = vector_dims(query_embedding)
+      AND (embedding_model_filter IS NULL OR dc.embedding_model = embedding_model_filter)
+      AND (embedding_version_filter IS NULL OR dc.embedding_version = embedding_version_filter)
+      AND (category_filter IS NULL OR d.category_id = category_filter)
+  )
+  SELECT 
+    c.id,
+    c.document_id,
+    c.content,
+    c.chunk_index,
+    c.metadata,
+    -- 计算余弦相似度
+    1 - (c.embedding <=> query_embedding) as similarity,
+    -- 返回文档信息作为JSON
+    jsonb_build_object(
+      'id', c.document_id,
+      'title', c.title,
+      'user_id', c.user_id,
+      'category_id', c.category_id
+    ) as documents
+  FROM compatible_chunks c
+  WHERE (1 - (c.embedding <=> query_embedding)) > match_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_similar_chunks_with_category IS '支持分类过滤的向量相似度搜索函数 - 只比较与查询向量模型、版本、维度一致的文档块';
+
+-- 重新向量化任务
+CREATE TABLE IF NOT EXISTS reembedding_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    target_model TEXT NOT NULL,
+    target_version TEXT NOT NULL,
+    target_dimensions INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'done', 'failed')),
+    total_chunks INTEGER,
+    processed_chunks INTEGER NOT NULL DEFAULT 0,
+    failed_chunks INTEGER NOT NULL DEFAULT 0,
+    last_chunk_id UUID,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reembedding_jobs_user_id ON reembedding_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_reembedding_jobs_status ON reembedding_jobs(status);
+
+-- 仅服务端（service role）访问
+ALTER TABLE reembedding_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_reembedding_jobs_updated_at BEFORE UPDATE ON reembedding_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN reembedding_jobs.last_chunk_id IS '已处理到的文档块ID（按ID升序），服务重启后从此处继续';
\ No newline at end of file
@@ -0,0 +1,196 @@
+-- 关键词检索改为数据库全文检索
+-- 1. document_chunks 增加 search_vector 生成列（GIN 索引），取代逐词 ILIKE 扫描
+-- 2. 中文分词：数据库安装了 zhparser 时使用 zhparser，否则使用 english 配置，
+--    并始终追加中文二元组（pg_bigm 风格），保证未安装分词插件时中文也能命中
+-- 3. 无法构造全文查询的短词（如单个汉字）走 pg_trgm 索引的 ILIKE 回退
+-- 4. 清理 003 / add_fulltext_search_columns.sql 遗留的未使用列和触发器
+
+-- 清理早期尝试遗留的全文检索对象
+DROP TRIGGER IF EXISTS update_document_chunks_multilingual_search ON document_chunks;
+DROP TRIGGER IF EXISTS update_multilingual_search_vectors_trigger ON document_chunks;
+DROP FUNCTION IF EXISTS update_multilingual_search_vectors();
+DROP FUNCTION IF EXISTS generate_multilingual_search_vectors(text);
+DROP FUNCTION IF EXISTS search_multilingual(text, uuid, integer);
+DROP INDEX IF EXISTS idx_document_chunks_search_simple;
+DROP INDEX IF EXISTS idx_document_chunks_search_english;
+DROP INDEX IF EXISTS idx_document_chunks_search_vector_simple;
+DROP INDEX IF EXISTS idx_document_chunks_search_vector_english;
+ALTER TABLE document_chunks DROP COLUMN IF EXISTS search_vector_simple;
+ALTER TABLE document_chunks DROP COLUMN IF EXISTS search_vector_english;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- 关键词检索使用的文本搜索配置
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'keyword_search') THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'zhparser') THEN
+    CREATE EXTENSION IF NOT EXISTS zhparser;
+    CREATE TEXT SEARCH CONFIGURATION public.keyword_search (PARSER = zhparser);
+    -- 名词、动词、形容词、成语、叹词、习用语、英文
+    ALTER TEXT SEARCH CONFIGURATION public.keyword_search ADD MAPPING FOR n, v, a, i, e, l, x WITH simple;
+    RAISE NOTICE 'keyword_search 使用 zhparser 分词';
+  ELSE
+    CREATE TEXT SEARCH CONFIGURATION public.keyword_search (COPY = english);
+    RAISE NOTICE 'keyword_search 使用 english 配置 + 中文二元组';
+  END IF;
+END
+$$;
+
+-- 将文本中的连续汉字（统一汉字、扩展A、兼容汉字）拆成二元组，单个汉字原样保留，以空格分隔
+CREATE OR REPLACE FUNCTION public.cjk_bigrams(input text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT coalesce(string_agg(
+    CASE
+      WHEN char_length(m.run[1]) = 1 THEN m.run[1]
+      ELSE (
+        SELECT string_agg(substr(m.run[1], i, 2), ' ' ORDER BY i)
+        FROM generate_series(1, char_length(m.run[1]) - 1) AS i
+      )
+    END, ' '), '')
+  FROM regexp_matches(coalesce(input, ''), '[㐀-䶿一-鿿豈-﫿]+', 'g') AS m(run)
+$$;
+
+-- 文档块内容的检索向量：分词结果 + 中文二元组
+CREATE OR REPLACE FUNCTION public.keyword_search_document(content text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT to_tsvector('public.keyword_search'::regconfig, coalesce(content, ''))
+      || to_tsvector('simple'::regconfig, public.cjk_bigrams(content))
+$$;
+
+-- 单个关键词的检索条件：分词结果或中文二元组任一路命中即可
+CREATE OR REPLACE FUNCTION public.keyword_search_query(term text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT plainto_tsquery('public.keyword_search'::regconfig, coalesce(term, ''))
+      || plainto_tsquery('simple'::regconfig, public.cjk_bigrams(term))
+$$;
+
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (public.keyword_search_document(content)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_search_vector
+    ON document_chunks USING GIN(search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_content_trgm
+    ON document_chunks USING GIN(content extensions.gin_trgm_ops);
+
+-- 关键词检索函数
+-- 返回字段与向量检索一致，另附 keyword_score（ts_rank_cd，权重均为 1，接近命中次数）、
+-- match_ratio（命中关键词数 / 关键词总数）和 matched_keywords
+CREATE OR REPLACE FUNCTION search_chunks_by_keywords(
+  search_terms text[],
+  target_user_id uuid,
+  match_count int DEFAULT 10,
+  category_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  chunk_index int,
+  metadata jsonb,
+  created_at timestamp with time zone,
+  keyword_score float,
+  match_ratio float,
+  matched_keywords int,
+  documents jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  term text;
+  term_query tsquery;
+  combined_query tsquery;
+  term_queries tsquery[] := '{}';
+  pattern_terms text[] := '{}';
+  term_count int := 0;
+BEGIN
+  FOREACH term IN ARRAY coalesce(search_terms, '{}') LOOP
+    term := btrim(term);
+    CONTINUE WHEN term = '';
+    term_count := term_count + 1;
+
+    term_query := keyword_search_query(term);
+    IF char_length(term) < 2 OR numnode(term_query) = 0 THEN
+      -- 无法构造全文查询的短词使用 ILIKE（转义通配符）
+      pattern_terms := pattern_terms || ('%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%');
+    ELSE
+      term_queries := term_queries || term_query;
+      combined_query := CASE WHEN combined_query IS NULL THEN term_query ELSE combined_query || term_query END;
+    END IF;
+  END LOOP;
+
+  IF term_count = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    scored.id,
+    scored.document_id,
+    scored.content,
+    scored.chunk_index,
+    scored.metadata,
+    scored.created_at,
+    scored.score,
+    scored.matched::float / term_count,
+    scored.matched,
+    scored.documents
+  FROM (
+    SELECT
+      dc.id,
+      dc.document_id,
+      dc.content,
+      dc.chunk_index,
+      dc.metadata,
+      dc.created_at,
+      (
+        CASE WHEN combined_query IS NULL THEN 0
+             ELSE ts_rank_cd('{1, 1, 1, 1}'::real[], dc.search_vector, combined_query) END
+        + (SELECT count(*) FROM unnest(pattern_terms) AS p(pattern) WHERE dc.content ILIKE p.pattern)
+      )::float AS score,
+      (
+        (SELECT count(*) FROM unnest(term_queries) AS q(query) WHERE dc.search_vector @@ q.query)
+        + (SELECT count(*) FROM unnest(pattern_terms) AS p(pattern) WHERE dc.content ILIKE p.pattern)
+      )::int AS matched,
+      jsonb_build_object(
+        'id', d.id,
+        'title', d.title,
+        'user_id', d.user_id,
+        'category_id', d.category_id
+      ) AS documents
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE
+      d.user_id = target_user_id
+      AND (category_filter IS NULL OR d.category_id = category_filter)
+      AND (
+        (combined_query IS NOT NULL AND dc.search_vector @@ combined_query)
+        OR dc.content ILIKE ANY (pattern_terms)
+      )
+  ) AS scored
+  ORDER BY scored.matched DESC, scored.score DESC, scored.created_at DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_chunks_by_keywords IS '关键词全文检索函数 - tsvector/ts_rank_cd 排序，中文使用 zhparser 或二元组，短词回退为 pg_trgm ILIKE';
+COMMENT ON COLUMN document_chunks.search_vector IS '关键词检索向量（keyword_search 分词 + 中文二元组），由 content 自动生成';
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- 记录助手回答使用的检索模式，以及回答是否基于知识库内容
+-- retrieval_mode: required（仅依据知识库）/ optional（无结果时使用通用知识）/ none（不检索）
+-- 早期消息两列均为 NULL
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS retrieval_mode TEXT
+    CHECK (retrieval_mode IN ('required', 'optional', 'none'));
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS grounded BOOLEAN;
+
+COMMENT ON COLUMN messages.retrieval_mode IS '生成该回答时的检索模式（仅助手消息）';
+COMMENT ON COLUMN messages.grounded IS '回答是否基于检索到的知识库内容（仅助手消息）';
\ No newline at end of file
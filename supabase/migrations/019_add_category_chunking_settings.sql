@@ -0,0 +1,14 @@
+-- 分类级别的分块设置，导入文档时上传参数优先，其次使用所属分类的设置，最后使用服务端默认配置
+-- chunking_strategy: recursive（递归分隔符）/ sentence（按句）/ heading（按标题章节）/ token（按 token 数）
+-- 三列均为 NULL 表示沿用默认配置
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS chunking_strategy TEXT
+    CHECK (chunking_strategy IN ('recursive', 'sentence', 'heading', 'token'));
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS chunk_size INTEGER
+    CHECK (chunk_size BETWEEN 100 AND 8000);
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS chunk_overlap INTEGER
+    CHECK (chunk_overlap >= 0);
+
+COMMENT ON COLUMN categories.chunking_strategy IS '该分类下文档的分块策略';
+COMMENT ON COLUMN categories.chunk_size IS '分块大小（token 策略为 token 数，其余为字符数）';
+COMMENT ON COLUMN categories.chunk_overlap IS '相邻分块的重叠大小，单位同 chunk_size';
\ No newline at end of file
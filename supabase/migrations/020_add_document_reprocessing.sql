@@ -0,0 +1,76 @@
+-- 支持对已有文档重新分块和向量化
+-- 1. replace_document_chunks 在一个事务中用新分块替换文档的全部分块，文档ID保持不变
+-- 2. 历史消息的引用按相对位置改挂到新分块，避免随旧分块级联删除
+
+CREATE OR REPLACE FUNCTION replace_document_chunks(
+  target_document_id uuid,
+  new_chunks jsonb,
+  new_content text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  old_ids uuid[];
+  old_count integer;
+  new_count integer;
+BEGIN
+  -- 锁定文档，避免并发替换
+  PERFORM 1 FROM documents WHERE id = target_document_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'document % not found', target_document_id;
+  END IF;
+
+  new_count := jsonb_array_length(new_chunks);
+  IF new_count = 0 THEN
+    RAISE EXCEPTION 'new_chunks must not be empty';
+  END IF;
+
+  SELECT array_agg(id), count(*) INTO old_ids, old_count
+  FROM document_chunks
+  WHERE document_id = target_document_id;
+
+  INSERT INTO document_chunks (
+    document_id, content, chunk_index, embedding,
+    embedding_model, embedding_version, embedding_dimensions, metadata
+  )
+  SELECT
+    target_document_id,
+    c->>'content',
+    (c->>'chunk_index')::integer,
+    (c->>'embedding')::extensions.vector,
+    c->>'embedding_model',
+    c->>'embedding_version',
+    (c->>'embedding_dimensions')::integer,
+    c->'metadata'
+  FROM jsonb_array_elements(new_chunks) AS c;
+
+  IF old_count > 0 THEN
+    -- 引用改挂到相对位置相同的新分块
+    UPDATE message_sources ms
+    SET chunk_id = nc.id
+    FROM document_chunks oc, document_chunks nc
+    WHERE ms.chunk_id = oc.id
+      AND oc.id = ANY(old_ids)
+      AND nc.document_id = target_document_id
+      AND NOT (nc.id = ANY(old_ids))
+      AND nc.chunk_index = LEAST(oc.chunk_index * new_count / old_count, new_count - 1);
+
+    DELETE FROM document_chunks WHERE id = ANY(old_ids);
+  END IF;
+
+  UPDATE documents
+  SET content = COALESCE(new_content, content),
+      updated_at = NOW()
+  WHERE id = target_document_id;
+
+  RETURN new_count;
+END;
+$$;
+
+COMMENT ON FUNCTION replace_document_chunks IS '原子替换文档的全部分块（重新处理文档），历史引用按相对位置改挂到新分块';
+
+-- 仅服务端（service role）调用
+REVOKE EXECUTE ON FUNCTION replace_document_chunks(uuid, jsonb, text) FROM PUBLIC, anon, authenticated;
\ No newline at end of file
@@ -0,0 +1,18 @@
+-- 保存上传的原始文件
+-- 1. 创建私有存储桶 documents，仅服务端读写，下载使用签名链接
+-- 2. documents.file_url 改为存储桶中的对象路径，原文件名单独保存在 file_name
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS file_name TEXT;
+
+-- 已有文档只记录了原文件名，没有保存原始文件
+UPDATE documents
+SET file_name = file_url,
+    file_url = NULL
+WHERE file_name IS NULL;
+
+COMMENT ON COLUMN documents.file_name IS '上传时的原文件名（文本文档为 标题.txt）';
+COMMENT ON COLUMN documents.file_url IS '原始文件在存储中的路径（用户ID/随机ID.扩展名），未保存原始文件时为空';
\ No newline at end of file
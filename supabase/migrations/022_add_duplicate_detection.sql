@@ -0,0 +1,73 @@
+-- 重复文档检测
+-- 1. documents.content_hash 记录上传文件（或规范化文本）的 SHA-256，用于发现完全重复的文档
+-- 2. find_similar_documents 按分块向量两两比较用户的文档，找出高度相似的文档对
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_user_content_hash ON documents(user_id, content_hash);
+
+COMMENT ON COLUMN documents.content_hash IS '上传文件或规范化文本的 SHA-256，用于重复检测（早期文档为空）';
+
+-- 对用户的全部分块做两两比较，适用于个人知识库规模的数据量
+CREATE OR REPLACE FUNCTION find_similar_documents(
+  target_user_id uuid,
+  match_threshold float DEFAULT 0.92,
+  min_match_ratio float DEFAULT 0.6
+)
+RETURNS TABLE (
+  document_id uuid,
+  other_document_id uuid,
+  match_ratio float,
+  similarity float
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH user_chunks AS MATERIALIZED (
+    SELECT dc.id, dc.document_id, dc.embedding, dc.embedding_model, dc.embedding_version
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE d.user_id = target_user_id
+      AND dc.embedding IS NOT NULL
+  ),
+  chunk_counts AS (
+    SELECT uc.document_id, count(*) AS total
+    FROM user_chunks uc
+    GROUP BY uc.document_id
+  ),
+  -- 不同维度的向量无法比较，在 CASE 中先判断维度
+  chunk_pairs AS (
+    SELECT a.document_id, b.document_id AS other_document_id, a.id AS chunk_id,
+           CASE WHEN vector_dims(a.embedding) = vector_dims(b.embedding)
+                THEN 1 - (a.embedding <=> b.embedding)
+           END AS similarity
+    FROM user_chunks a
+    INNER JOIN user_chunks b
+      ON a.document_id <> b.document_id
+     AND a.embedding_model IS NOT DISTINCT FROM b.embedding_model
+     AND a.embedding_version IS NOT DISTINCT FROM b.embedding_version
+  ),
+  -- 每个分块在其他文档中是否存在近乎相同的分块
+  chunk_matches AS (
+    SELECT p.document_id, p.other_document_id, p.chunk_id, max(p.similarity) AS similarity
+    FROM chunk_pairs p
+    WHERE p.similarity >= match_threshold
+    GROUP BY p.document_id, p.other_document_id, p.chunk_id
+  )
+  SELECT m.document_id,
+         m.other_document_id,
+         count(*)::float / c.total AS match_ratio,
+         avg(m.similarity)::float AS similarity
+  FROM chunk_matches m
+  INNER JOIN chunk_counts c ON c.document_id = m.document_id
+  GROUP BY m.document_id, m.other_document_id, c.total
+  HAVING count(*)::float / c.total >= min_match_ratio;
+END;
+$$;
+
+COMMENT ON FUNCTION find_similar_documents IS '找出用户文档中高度相似的文档对：document_id 中命中比例达到 min_match_ratio 的分块在 other_document_id 中存在相似度不低于 match_threshold 的分块';
+
+REVOKE EXECUTE ON FUNCTION find_similar_documents(uuid, float, float) FROM PUBLIC, anon, authenticated;
\ No newline at end of file
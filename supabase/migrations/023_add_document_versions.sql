@@ -0,0 +1,423 @@
+-- 文档版本
+-- 1. document_versions 记录每个版本的内容与原始文件，每个版本有自己的文档块（document_chunks.version_id）
+-- 2. documents.active_version_id 指向当前版本，documents 的内容与文件信息始终与当前版本一致
+-- 3. document_chunks.is_active 标记当前版本的文档块，检索、相似文档检测和重新处理只使用当前版本
+-- 4. activate_document_version 切换当前版本（上传新版本、回滚）
+
+CREATE TABLE IF NOT EXISTS document_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    content TEXT,
+    file_url TEXT,
+    file_name TEXT,
+    file_type TEXT,
+    file_size BIGINT,
+    content_hash TEXT,
+    chunk_count INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (document_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document_id ON document_versions(document_id);
+
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "用户只能查看自己文档的版本" ON document_versions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM documents
+            WHERE documents.id = document_versions.document_id
+            AND documents.user_id = (SELECT auth.uid())
+        )
+    );
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS active_version_id UUID REFERENCES document_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES document_versions(id) ON DELETE CASCADE;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_version_id ON document_chunks(version_id);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_active ON document_chunks(document_id) WHERE is_active;
+
+COMMENT ON COLUMN documents.active_version_id IS '当前版本，检索只使用该版本的文档块';
+COMMENT ON COLUMN document_chunks.is_active IS '是否属于文档的当前版本（由 activate_document_version 维护）';
+
+-- 已有文档作为第 1 版
+INSERT INTO document_versions (document_id, version_number, title, content, file_url, file_name, file_type, file_size, content_hash, chunk_count, created_by, created_at)
+SELECT d.id, 1, d.title, d.content, d.file_url, d.file_name, d.file_type, d.file_size, d.content_hash,
+       (SELECT count(*) FROM document_chunks dc WHERE dc.document_id = d.id),
+       d.user_id, d.created_at
+FROM documents d
+WHERE NOT EXISTS (SELECT 1 FROM document_versions v WHERE v.document_id = d.id);
+
+UPDATE documents d
+SET active_version_id = v.id
+FROM document_versions v
+WHERE v.document_id = d.id
+  AND v.version_number = 1
+  AND d.active_version_id IS NULL;
+
+UPDATE document_chunks dc
+SET version_id = d.active_version_id
+FROM documents d
+WHERE dc.document_id = d.id
+  AND dc.version_id IS NULL;
+
+-- 切换文档的当前版本，同步文档信息
+CREATE OR REPLACE FUNCTION activate_document_version(
+  target_document_id uuid,
+  target_version_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  target_version document_versions%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM documents WHERE id = target_document_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'document % not found', target_document_id;
+  END IF;
+
+  SELECT * INTO target_version
+  FROM document_versions
+  WHERE id = target_version_id AND document_id = target_document_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'version % not found for document %', target_version_id, target_document_id;
+  END IF;
+
+  UPDATE document_chunks
+  SET is_active = (version_id = target_version_id)
+  WHERE document_id = target_document_id
+    AND is_active IS DISTINCT FROM (version_id = target_version_id);
+
+  UPDATE documents
+  SET active_version_id = target_version.id,
+      title = target_version.title,
+      content = target_version.content,
+      file_url = target_version.file_url,
+      file_name = target_version.file_name,
+      file_type = target_version.file_type,
+      file_size = target_version.file_size,
+      content_hash = target_version.content_hash,
+      updated_at = NOW()
+  WHERE id = target_document_id;
+END;
+$$;
+
+COMMENT ON FUNCTION activate_document_version IS '切换文档的当前版本（上传新版本或回滚），同步文档内容与文件信息';
+
+REVOKE EXECUTE ON FUNCTION activate_document_version(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 重新处理只替换当前版本的文档块
+CREATE OR REPLACE FUNCTION replace_document_chunks(
+  target_document_id uuid,
+  new_chunks jsonb,
+  new_content text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  target_version_id uuid;
+  old_ids uuid[];
+  old_count integer;
+  new_count integer;
+BEGIN
+  -- 锁定文档，避免并发替换
+  SELECT active_version_id INTO target_version_id FROM documents WHERE id = target_document_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'document % not found', target_document_id;
+  END IF;
+
+  new_count := jsonb_array_length(new_chunks);
+  IF new_count = 0 THEN
+    RAISE EXCEPTION 'new_chunks must not be empty';
+  END IF;
+
+  SELECT array_agg(id), count(*) INTO old_ids, old_count
+  FROM document_chunks
+  WHERE document_id = target_document_id
+    AND is_active;
+
+  INSERT INTO document_chunks (
+    document_id, version_id, is_active, content, chunk_index, embedding,
+    embedding_model, embedding_version, embedding_dimensions, metadata
+  )
+  SELECT
+    target_document_id,
+    target_version_id,
+    TRUE,
+    c->>'content',
+    (c->>'chunk_index')::integer,
+    (c->>'embedding')::extensions.vector,
+    c->>'embedding_model',
+    c->>'embedding_version',
+    (c->>'embedding_dimensions')::integer,
+    c->'metadata'
+  FROM jsonb_array_elements(new_chunks) AS c;
+
+  IF old_count > 0 THEN
+    -- 引用改挂到相对位置相同的新分块
+    UPDATE message_sources ms
+    SET chunk_id = nc.id
+    FROM document_chunks oc, document_chunks nc
+    WHERE ms.chunk_id = oc.id
+      AND oc.id = ANY(old_ids)
+      AND nc.document_id = target_document_id
+      AND nc.is_active
+      AND NOT (nc.id = ANY(old_ids))
+      AND nc.chunk_index = LEAST(oc.chunk_index * new_count / old_count, new_count - 1);
+
+    DELETE FROM document_chunks WHERE id = ANY(old_ids);
+  END IF;
+
+  UPDATE document_versions
+  SET content = COALESCE(new_content, content),
+      chunk_count = new_count
+  WHERE id = target_version_id;
+
+  UPDATE documents
+  SET content = COALESCE(new_content, content),
+      updated_at = NOW()
+  WHERE id = target_document_id;
+
+  RETURN new_count;
+END;
+$$;
+
+-- 检索函数只返回当前版本的文档块
+CREATE OR REPLACE FUNCTION search_similar_chunks_with_category(
+  query_embedding extensions.vector,
+  target_user_id uuid,
+  match_threshold float DEFAULT 0.3,
+  match_count int DEFAULT 5,
+  category_filter uuid DEFAULT NULL,
+  embedding_model_filter text DEFAULT NULL,
+  embedding_version_filter text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  chunk_index int,
+  metadata jsonb,
+  similarity float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  -- 先筛选出维度和模型兼容的文档块，再计算距离（不同维度的向量无法比较）
+  WITH compatible_chunks AS MATERIALIZED (
+    SELECT dc.id, dc.document_id, dc.content, dc.chunk_index, dc.metadata, dc.embedding,
+           d.title, d.user_id, d.category_id
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE 
+      d.user_id = target_user_id
+      AND dc.is_active
+      AND dc.embedding IS NOT NULL
+      AND dc.embedding_dimensions = vector_dims(query_embedding)
+      AND (embedding_model_filter IS NULL OR dc.embedding_model = embedding_model_filter)
+      AND (embedding_version_filter IS NULL OR dc.embedding_version = embedding_version_filter)
+      AND (category_filter IS NULL OR d.category_id = category_filter)
+  )
+  SELECT 
+    c.id,
+    c.document_id,
+    c.content,
+    c.chunk_index,
+    c.metadata,
+    -- 计算余弦相似度
+    1 - (c.embedding <=> query_embedding) as similarity,
+    -- 返回文档信息作为JSON
+    jsonb_build_object(
+      'id', c.document_id,
+      'title', c.title,
+      'user_id', c.user_id,
+      'category_id', c.category_id
+    ) as documents
+  FROM compatible_chunks c
+  WHERE (1 - (c.embedding <=> query_embedding)) > match_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_similar_chunks_with_category IS '支持分类过滤的向量相似度搜索函数 - 只比较当前版本中与查询向量模型、版本、维度一致的文档块';
+
+CREATE OR REPLACE FUNCTION search_chunks_by_keywords(
+  search_terms text[],
+  target_user_id uuid,
+  match_count int DEFAULT 10,
+  category_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  chunk_index int,
+  metadata jsonb,
+  created_at timestamp with time zone,
+  keyword_score float,
+  match_ratio float,
+  matched_keywords int,
+  documents jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  term text;
+  term_query tsquery;
+  combined_query tsquery;
+  term_queries tsquery[] := '{}';
+  pattern_terms text[] := '{}';
+  term_count int := 0;
+BEGIN
+  FOREACH term IN ARRAY coalesce(search_terms, '{}') LOOP
+    term := btrim(term);
+    CONTINUE WHEN term = '';
+    term_count := term_count + 1;
+
+    term_query := keyword_search_query(term);
+    IF char_length(term) < 2 OR numnode(term_query) = 0 THEN
+      -- 无法构造全文查询的短词使用 ILIKE（转义通配符）
+      pattern_terms := pattern_terms || ('%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%');
+    ELSE
+      term_queries := term_queries || term_query;
+      combined_query := CASE WHEN combined_query IS NULL THEN term_query ELSE combined_query || term_query END;
+    END IF;
+  END LOOP;
+
+  IF term_count = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    scored.id,
+    scored.document_id,
+    scored.content,
+    scored.chunk_index,
+    scored.metadata,
+    scored.created_at,
+    scored.score,
+    scored.matched::float / term_count,
+    scored.matched,
+    scored.documents
+  FROM (
+    SELECT
+      dc.id,
+      dc.document_id,
+      dc.content,
+      dc.chunk_index,
+      dc.metadata,
+      dc.created_at,
+      (
+        CASE WHEN combined_query IS NULL THEN 0
+             ELSE ts_rank_cd('{1, 1, 1, 1}'::real[], dc.search_vector, combined_query) END
+        + (SELECT count(*) FROM unnest(pattern_terms) AS p(pattern) WHERE dc.content ILIKE p.pattern)
+      )::float AS score,
+      (
+        (SELECT count(*) FROM unnest(term_queries) AS q(query) WHERE dc.search_vector @@ q.query)
+        + (SELECT count(*) FROM unnest(pattern_terms) AS p(pattern) WHERE dc.content ILIKE p.pattern)
+      )::int AS matched,
+      jsonb_build_object(
+        'id', d.id,
+        'title', d.title,
+        'user_id', d.user_id,
+        'category_id', d.category_id
+      ) AS documents
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE
+      d.user_id = target_user_id
+      AND dc.is_active
+      AND (category_filter IS NULL OR d.category_id = category_filter)
+      AND (
+        (combined_query IS NOT NULL AND dc.search_vector @@ combined_query)
+        OR dc.content ILIKE ANY (pattern_terms)
+      )
+  ) AS scored
+  ORDER BY scored.matched DESC, scored.score DESC, scored.created_at DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_chunks_by_keywords IS '关键词全文检索函数 - 只检索当前版本的文档块，tsvector/ts_rank_cd 排序，中文使用 zhparser 或二元组，短词回退为 pg_trgm ILIKE';
+
+CREATE OR REPLACE FUNCTION find_similar_documents(
+  target_user_id uuid,
+  match_threshold float DEFAULT 0.92,
+  min_match_ratio float DEFAULT 0.6
+)
+RETURNS TABLE (
+  document_id uuid,
+  other_document_id uuid,
+  match_ratio float,
+  similarity float
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH user_chunks AS MATERIALIZED (
+    SELECT dc.id, dc.document_id, dc.embedding, dc.embedding_model, dc.embedding_version
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE d.user_id = target_user_id
+      AND dc.is_active
+      AND dc.embedding IS NOT NULL
+  ),
+  chunk_counts AS (
+    SELECT uc.document_id, count(*) AS total
+    FROM user_chunks uc
+    GROUP BY uc.document_id
+  ),
+  -- 不同维度的向量无法比较，在 CASE 中先判断维度
+  chunk_pairs AS (
+    SELECT a.document_id, b.document_id AS other_document_id, a.id AS chunk_id,
+           CASE WHEN vector_dims(a.embedding) = vector_dims(b.embedding)
+                THEN 1 - (a.embedding <=> b.embedding)
+           END AS similarity
+    FROM user_chunks a
+    INNER JOIN user_chunks b
+      ON a.document_id <> b.document_id
+     AND a.embedding_model IS NOT DISTINCT FROM b.embedding_model
+     AND a.embedding_version IS NOT DISTINCT FROM b.embedding_version
+  ),
+  -- 每个分块在其他文档中是否存在近乎相同的分块
+  chunk_matches AS (
+    SELECT p.document_id, p.other_document_id, p.chunk_id, max(p.similarity) AS similarity
+    FROM chunk_pairs p
+    WHERE p.similarity >= match_threshold
+    GROUP BY p.document_id, p.other_document_id, p.chunk_id
+  )
+  SELECT m.document_id,
+         m.other_document_id,
+         count(*)::float / c.total AS match_ratio,
+         avg(m.similarity)::float AS similarity
+  FROM chunk_matches m
+  INNER JOIN chunk_counts c ON c.document_id = m.document_id
+  GROUP BY m.document_id, m.other_document_id, c.total
+  HAVING count(*)::float / c.total >= min_match_ratio;
+END;
+$$;
+
+COMMENT ON FUNCTION find_similar_documents IS '找出用户文档中高度相似的文档对（只比较当前版本）：document_id 中命中比例达到 min_match_ratio 的分块在 other_document_id 中存在相似度不低于 match_threshold 的分块';
\ No newline at end of file
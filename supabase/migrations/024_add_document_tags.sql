@@ -0,0 +1,240 @@
+-- 文档元数据：描述与标签
+-- 1. documents.description 保存文档描述
+-- 2. tags 为用户的标签（同一用户下名称唯一），document_tags 关联文档与标签
+-- 3. 检索函数增加 tag_filter，只返回带有任一指定标签的文档块
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS description TEXT;
+
+CREATE TABLE IF NOT EXISTS tags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS document_tags (
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (document_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tags_user_id ON tags(user_id);
+CREATE INDEX IF NOT EXISTS idx_document_tags_tag_id ON document_tags(tag_id);
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "用户只能查看自己的标签" ON tags
+    FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "用户只能创建自己的标签" ON tags
+    FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "用户只能删除自己的标签" ON tags
+    FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "用户只能查看自己文档的标签" ON document_tags
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM documents
+            WHERE documents.id = document_tags.document_id
+            AND documents.user_id = (SELECT auth.uid())
+        )
+    );
+
+CREATE POLICY "用户只能管理自己文档的标签" ON document_tags
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM documents
+            WHERE documents.id = document_tags.document_id
+            AND documents.user_id = (SELECT auth.uid())
+        )
+    );
+
+COMMENT ON COLUMN documents.description IS '文档描述';
+COMMENT ON TABLE tags IS '用户的文档标签';
+COMMENT ON TABLE document_tags IS '文档与标签的关联';
+
+-- 检索函数增加标签过滤（参数列表变化，先删除旧函数）
+DROP FUNCTION IF EXISTS search_similar_chunks_with_category(extensions.vector, uuid, double precision, integer, uuid, text, text);
+DROP FUNCTION IF EXISTS search_chunks_by_keywords(text[], uuid, integer, uuid);
+
+CREATE OR REPLACE FUNCTION search_similar_chunks_with_category(
+  query_embedding extensions.vector,
+  target_user_id uuid,
+  match_threshold float DEFAULT 0.3,
+  match_count int DEFAULT 5,
+  category_filter uuid DEFAULT NULL,
+  embedding_model_filter text DEFAULT NULL,
+  embedding_version_filter text DEFAULT NULL,
+  tag_filter text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  chunk_index int,
+  metadata jsonb,
+  similarity float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  -- 先筛选出维度和模型兼容的文档块，再计算距离（不同维度的向量无法比较）
+  WITH compatible_chunks AS MATERIALIZED (
+    SELECT dc.id, dc.document_id, dc.content, dc.chunk_index, dc.metadata, dc.embedding,
+           d.title, d.user_id, d.category_id
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE 
+      d.user_id = target_user_id
+      AND dc.is_active
+      AND dc.embedding IS NOT NULL
+      AND dc.embedding_dimensions = vector_dims(query_embedding)
+      AND (embedding_model_filter IS NULL OR dc.embedding_model = embedding_model_filter)
+      AND (embedding_version_filter IS NULL OR dc.embedding_version = embedding_version_filter)
+      AND (category_filter IS NULL OR d.category_id = category_filter)
+      AND (tag_filter IS NULL OR EXISTS (
+        SELECT 1 FROM document_tags dt
+        INNER JOIN tags t ON t.id = dt.tag_id
+        WHERE dt.document_id = d.id AND t.name = ANY(tag_filter)
+      ))
+  )
+  SELECT 
+    c.id,
+    c.document_id,
+    c.content,
+    c.chunk_index,
+    c.metadata,
+    -- 计算余弦相似度
+    1 - (c.embedding <=> query_embedding) as similarity,
+    -- 返回文档信息作为JSON
+    jsonb_build_object(
+      'id', c.document_id,
+      'title', c.title,
+      'user_id', c.user_id,
+      'category_id', c.category_id
+    ) as documents
+  FROM compatible_chunks c
+  WHERE (1 - (c.embedding <=> query_embedding)) > match_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_similar_chunks_with_category IS '支持分类与标签过滤的向量相似度搜索函数 - 只比较当前版本中与查询向量模型、版本、维度一致的文档块';
+
+CREATE OR REPLACE FUNCTION search_chunks_by_keywords(
+  search_terms text[],
+  target_user_id uuid,
+  match_count int DEFAULT 10,
+  category_filter uuid DEFAULT NULL,
+  tag_filter text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  chunk_index int,
+  metadata jsonb,
+  created_at timestamp with time zone,
+  keyword_score float,
+  match_ratio float,
+  matched_keywords int,
+  documents jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  term text;
+  term_query tsquery;
+  combined_query tsquery;
+  term_queries tsquery[] := '{}';
+  pattern_terms text[] := '{}';
+  term_count int := 0;
+BEGIN
+  FOREACH term IN ARRAY coalesce(search_terms, '{}') LOOP
+    term := btrim(term);
+    CONTINUE WHEN term = '';
+    term_count := term_count + 1;
+
+    term_query := keyword_search_query(term);
+    IF char_length(term) < 2 OR numnode(term_query) = 0 THEN
+      -- 无法构造全文查询的短词使用 ILIKE（转义通配符）
+      pattern_terms := pattern_terms || ('%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%');
+    ELSE
+      term_queries := term_queries || term_query;
+      combined_query := CASE WHEN combined_query IS NULL THEN term_query ELSE combined_query || term_query END;
+    END IF;
+  END LOOP;
+
+  IF term_count = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    scored.id,
+    scored.document_id,
+    scored.content,
+    scored.chunk_index,
+    scored.metadata,
+    scored.created_at,
+    scored.score,
+    scored.matched::float / term_count,
+    scored.matched,
+    scored.documents
+  FROM (
+    SELECT
+      dc.id,
+      dc.document_id,
+      dc.content,
+      dc.chunk_index,
+      dc.metadata,
+      dc.created_at,
+      (
+        CASE WHEN combined_query IS NULL THEN 0
+             ELSE ts_rank_cd('{1, 1, 1, 1}'::real[], dc.search_vector, combined_query) END
+        + (SELECT count(*) FROM unnest(pattern_terms) AS p(pattern) WHERE dc.content ILIKE p.pattern)
+      )::float AS score,
+      (
+        (SELECT count(*) FROM unnest(term_queries) AS q(query) WHERE dc.search_vector @@ q.query)
+        + (SELECT count(*) FROM unnest(pattern_terms) AS p(pattern) WHERE dc.content ILIKE p.pattern)
+      )::int AS matched,
+      jsonb_build_object(
+        'id', d.id,
+        'title', d.title,
+        'user_id', d.user_id,
+        'category_id', d.category_id
+      ) AS documents
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE
+      d.user_id = target_user_id
+      AND dc.is_active
+      AND (category_filter IS NULL OR d.category_id = category_filter)
+      AND (tag_filter IS NULL OR EXISTS (
+        SELECT 1 FROM document_tags dt
+        INNER JOIN tags t ON t.id = dt.tag_id
+        WHERE dt.document_id = d.id AND t.name = ANY(tag_filter)
+      ))
+      AND (
+        (combined_query IS NOT NULL AND dc.search_vector @@ combined_query)
+        OR dc.content ILIKE ANY (pattern_terms)
+      )
+  ) AS scored
+  ORDER BY scored.matched DESC, scored.score DESC, scored.created_at DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_chunks_by_keywords IS '关键词全文检索函数 - 支持分类与标签过滤，只检索当前版本的文档块，tsvector/ts_rank_cd 排序，中文使用 zhparser 或二元组，短词回退为 pg_trgm ILIKE';
\ No newline at end of file
@@ -0,0 +1,232 @@
+-- 检索元数据过滤
+-- chunk_matches_filters 按 filters（jsonb）过滤文档块，向量检索与关键词检索使用同一套条件：
+--   document_ids / exclude_document_ids  只检索 / 排除指定文档
+--   file_types                           文件类型（MIME）
+--   category_ids                         多个分类（任一）
+--   tags                                 标签（任一）
+--   created_after / created_before       文档创建时间范围
+--   page_from / page_to                  分块元数据中的页码范围（没有页码的分块不匹配）
+-- 未出现的键不过滤；检索函数的 tag_filter 参数合并到 filters.tags
+
+CREATE OR REPLACE FUNCTION chunk_matches_filters(
+  doc documents,
+  chunk_metadata jsonb,
+  filters jsonb
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT filters IS NULL OR (
+    (NOT filters ? 'document_ids'
+      OR doc.id::text IN (SELECT jsonb_array_elements_text(filters->'document_ids')))
+    AND (NOT filters ? 'exclude_document_ids'
+      OR doc.id::text NOT IN (SELECT jsonb_array_elements_text(filters->'exclude_document_ids')))
+    AND (NOT filters ? 'file_types'
+      OR doc.file_type IN (SELECT jsonb_array_elements_text(filters->'file_types')))
+    AND (NOT filters ? 'category_ids'
+      OR doc.category_id::text IN (SELECT jsonb_array_elements_text(filters->'category_ids')))
+    AND (NOT filters ? 'tags' OR EXISTS (
+      SELECT 1 FROM document_tags dt
+      INNER JOIN tags t ON t.id = dt.tag_id
+      WHERE dt.document_id = doc.id
+        AND t.name IN (SELECT jsonb_array_elements_text(filters->'tags'))
+    ))
+    AND (NOT filters ? 'created_after' OR doc.created_at >= (filters->>'created_after')::timestamptz)
+    AND (NOT filters ? 'created_before' OR doc.created_at <= (filters->>'created_before')::timestamptz)
+    AND (
+      NOT (filters ? 'page_from' OR filters ? 'page_to')
+      OR (
+        SELECT page IS NOT NULL
+          AND (NOT filters ? 'page_from' OR page >= (filters->>'page_from')::int)
+          AND (NOT filters ? 'page_to' OR page <= (filters->>'page_to')::int)
+        FROM (
+          SELECT CASE WHEN m->>'page_number' ~ '^[0-9]+$' THEN (m->>'page_number')::int END AS page
+          FROM (
+            -- 分块元数据入库时可能是 JSON 字符串
+            SELECT CASE WHEN jsonb_typeof(chunk_metadata) = 'string'
+                        THEN (chunk_metadata #>> '{}')::jsonb
+                        ELSE chunk_metadata END AS m
+          ) AS normalized
+        ) AS chunk_page
+      )
+    )
+  );
+$$;
+
+COMMENT ON FUNCTION chunk_matches_filters IS '检索元数据过滤：文档ID允许/排除列表、文件类型、多分类、标签、创建时间范围、页码范围';
+
+-- 检索函数的标签过滤改为通用过滤（参数列表变化，先删除旧函数）
+DROP FUNCTION IF EXISTS search_similar_chunks_with_category(extensions.vector, uuid, double precision, integer, uuid, text, text, text[]);
+DROP FUNCTION IF EXISTS search_chunks_by_keywords(text[], uuid, integer, uuid, text[]);
+
+CREATE OR REPLACE FUNCTION search_similar_chunks_with_category(
+  query_embedding extensions.vector,
+  target_user_id uuid,
+  match_threshold float DEFAULT 0.3,
+  match_count int DEFAULT 5,
+  category_filter uuid DEFAULT NULL,
+  embedding_model_filter text DEFAULT NULL,
+  embedding_version_filter text DEFAULT NULL,
+  filters jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  chunk_index int,
+  metadata jsonb,
+  similarity float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  -- 先筛选出维度和模型兼容的文档块，再计算距离（不同维度的向量无法比较）
+  WITH compatible_chunks AS MATERIALIZED (
+    SELECT dc.id, dc.document_id, dc.content, dc.chunk_index, dc.metadata, dc.embedding,
+           d.title, d.user_id, d.category_id
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE 
+      d.user_id = target_user_id
+      AND dc.is_active
+      AND dc.embedding IS NOT NULL
+      AND dc.embedding_dimensions = vector_dims(query_embedding)
+      AND (embedding_model_filter IS NULL OR dc.embedding_model = embedding_model_filter)
+      AND (embedding_version_filter IS NULL OR dc.embedding_version = embedding_version_filter)
+      AND (category_filter IS NULL OR d.category_id = category_filter)
+      AND chunk_matches_filters(d, dc.metadata, filters)
+  )
+  SELECT 
+    c.id,
+    c.document_id,
+    c.content,
+    c.chunk_index,
+    c.metadata,
+    -- 计算余弦相似度
+    1 - (c.embedding <=> query_embedding) as similarity,
+    -- 返回文档信息作为JSON
+    jsonb_build_object(
+      'id', c.document_id,
+      'title', c.title,
+      'user_id', c.user_id,
+      'category_id', c.category_id
+    ) as documents
+  FROM compatible_chunks c
+  WHERE (1 - (c.embedding <=> query_embedding)) > match_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_similar_chunks_with_category IS '支持分类与元数据过滤（chunk_matches_filters）的向量相似度搜索函数 - 只比较当前版本中与查询向量模型、版本、维度一致的文档块';
+
+CREATE OR REPLACE FUNCTION search_chunks_by_keywords(
+  search_terms text[],
+  target_user_id uuid,
+  match_count int DEFAULT 10,
+  category_filter uuid DEFAULT NULL,
+  filters jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  chunk_index int,
+  metadata jsonb,
+  created_at timestamp with time zone,
+  keyword_score float,
+  match_ratio float,
+  matched_keywords int,
+  documents jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  term text;
+  term_query tsquery;
+  combined_query tsquery;
+  term_queries tsquery[] := '{}';
+  pattern_terms text[] := '{}';
+  term_count int := 0;
+BEGIN
+  FOREACH term IN ARRAY coalesce(search_terms, '{}') LOOP
+    term := btrim(term);
+    CONTINUE WHEN term = '';
+    term_count := term_count + 1;
+
+    term_query := keyword_search_query(term);
+    IF char_length(term) < 2 OR numnode(term_query) = 0 THEN
+      -- 无法构造全文查询的短词使用 ILIKE（转义通配符）
+      pattern_terms := pattern_terms || ('%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%');
+    ELSE
+      term_queries := term_queries || term_query;
+      combined_query := CASE WHEN combined_query IS NULL THEN term_query ELSE combined_query || term_query END;
+    END IF;
+  END LOOP;
+
+  IF term_count = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    scored.id,
+    scored.document_id,
+    scored.content,
+    scored.chunk_index,
+    scored.metadata,
+    scored.created_at,
+    scored.score,
+    scored.matched::float / term_count,
+    scored.matched,
+    scored.documents
+  FROM (
+    SELECT
+      dc.id,
+      dc.document_id,
+      dc.content,
+      dc.chunk_index,
+      dc.metadata,
+      dc.created_at,
+      (
+        CASE WHEN combined_query IS NULL THEN 0
+             ELSE ts_rank_cd('{1, 1, 1, 1}'::real[], dc.search_vector, combined_query) END
+        + (SELECT count(*) FROM unnest(pattern_terms) AS p(pattern) WHERE dc.content ILIKE p.pattern)
+      )::float AS score,
+      (
+        (SELECT count(*) FROM unnest(term_queries) AS q(query) WHERE dc.search_vector @@ q.query)
+        + (SELECT count(*) FROM unnest(pattern_terms) AS p(pattern) WHERE dc.content ILIKE p.pattern)
+      )::int AS matched,
+      jsonb_build_object(
+        'id', d.id,
+        'title', d.title,
+        'user_id', d.user_id,
+        'category_id', d.category_id
+      ) AS documents
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE
+      d.user_id = target_user_id
+      AND dc.is_active
+      AND (category_filter IS NULL OR d.category_id = category_filter)
+      AND chunk_matches_filters(d, dc.metadata, filters)
+      AND (
+        (combined_query IS NOT NULL AND dc.search_vector @@ combined_query)
+        OR dc.content ILIKE ANY (pattern_terms)
+      )
+  ) AS scored
+  ORDER BY scored.matched DESC, scored.score DESC, scored.created_at DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_chunks_by_keywords IS '关键词全文检索函数 - 支持分类与元数据过滤（chunk_matches_filters），只检索当前版本的文档块，tsvector/ts_rank_cd 排序，中文使用 zhparser 或二元组，短词回退为 pg_trgm ILIKE';
\ No newline at end of file
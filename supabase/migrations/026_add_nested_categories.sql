@@ -0,0 +1,48 @@
+-- 分类层级与分类级默认设置
+-- 1. categories.parent_id 组成分类树，选择父分类检索时包含全部子孙分类
+-- 2. system_prompt / default_model 为分类下问答的默认设置，与分块设置一样未设置时沿用上级分类
+-- 3. 触发器阻止把分类移动到自身或子孙分类下（形成环）
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS system_prompt TEXT;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS default_model TEXT;
+
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_parent_not_self;
+ALTER TABLE categories ADD CONSTRAINT categories_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+COMMENT ON COLUMN categories.parent_id IS '上级分类，NULL 表示顶级分类';
+COMMENT ON COLUMN categories.system_prompt IS '该分类下问答的附加系统提示词（未设置时沿用上级分类）';
+COMMENT ON COLUMN categories.default_model IS '该分类下问答的默认模型（未设置时沿用上级分类）';
+
+CREATE OR REPLACE FUNCTION prevent_category_cycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id FROM categories c
+      INNER JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'category % cannot be moved under its own descendant %', NEW.id, NEW.parent_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS categories_prevent_cycle ON categories;
+CREATE TRIGGER categories_prevent_cycle
+    BEFORE INSERT OR UPDATE OF parent_id ON categories
+    FOR EACH ROW EXECUTE FUNCTION prevent_category_cycle();
\ No newline at end of file
@@ -0,0 +1,138 @@
+-- 相似文档对改为导入时预先计算
+-- 1. find_similar_documents 对用户全部分块两两比较（O(n²)），文档多时会超时，改为 document_similarities 表保存相似文档对
+-- 2. refresh_document_similarities 在文档的当前版本变化后（导入、上传新版本、重新处理、回滚）重新计算该文档相关的文档对：
+--    每个文档只均匀抽取少量分块（与上传时的相似检测相同），比较量为 O(抽样数 × 分块数)
+-- 3. 疑似重复文档报告直接读取 document_similarities
+
+CREATE TABLE IF NOT EXISTS document_similarities (
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    other_document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    match_ratio FLOAT NOT NULL,
+    similarity FLOAT NOT NULL,
+    computed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (document_id, other_document_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_similarities_user_id ON document_similarities(user_id);
+CREATE INDEX IF NOT EXISTS idx_document_similarities_other_document_id ON document_similarities(other_document_id);
+
+COMMENT ON TABLE document_similarities IS '高度相似的文档对：document_id 的抽样分块中命中比例达到阈值的分块在 other_document_id 中存在近乎相同的分块';
+
+ALTER TABLE document_similarities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "用户只能查看自己的相似文档对" ON document_similarities
+    FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+CREATE OR REPLACE FUNCTION refresh_document_similarities(
+  target_document_id uuid,
+  match_threshold float DEFAULT 0.92,
+  min_match_ratio float DEFAULT 0.6,
+  sample_size int DEFAULT 5
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  target_user_id uuid;
+BEGIN
+  SELECT d.user_id INTO target_user_id FROM documents d WHERE d.id = target_document_id;
+
+  DELETE FROM document_similarities ds
+  WHERE ds.document_id = target_document_id OR ds.other_document_id = target_document_id;
+
+  IF target_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_similarities (document_id, other_document_id, user_id, match_ratio, similarity)
+  WITH user_chunks AS MATERIALIZED (
+    SELECT dc.id, dc.document_id, dc.chunk_index, dc.embedding,
+           dc.embedding_model, dc.embedding_version, dc.embedding_dimensions
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE d.user_id = target_user_id
+      AND dc.is_active
+      AND dc.embedding IS NOT NULL
+  ),
+  numbered AS (
+    SELECT uc.*,
+           row_number() OVER (PARTITION BY uc.document_id ORDER BY uc.chunk_index) AS rn,
+           count(*) OVER (PARTITION BY uc.document_id) AS total
+    FROM user_chunks uc
+  ),
+  -- 每个文档按固定间隔均匀抽取不超过 sample_size 个分块
+  spaced AS (
+    SELECT n.*, ceil(n.total::float / sample_size)::int AS step
+    FROM numbered n
+  ),
+  samples AS MATERIALIZED (
+    SELECT sp.id, sp.document_id, sp.embedding, sp.embedding_model, sp.embedding_version, sp.embedding_dimensions,
+           ceil(sp.total::float / sp.step)::int AS sample_total
+    FROM spaced sp
+    WHERE (sp.rn - 1) % sp.step = 0
+  ),
+  -- 只比较与目标文档相关的组合（两个方向分开连接，保证每次连接的一侧只有目标文档）
+  target_pairs AS (
+    SELECT s.id AS sample_id, s.document_id, s.sample_total, c.document_id AS other_document_id,
+           s.embedding AS sample_embedding, c.embedding AS chunk_embedding,
+           s.embedding_dimensions = c.embedding_dimensions AS comparable
+    FROM samples s
+    INNER JOIN user_chunks c
+      ON c.document_id <> target_document_id
+     AND s.embedding_model IS NOT DISTINCT FROM c.embedding_model
+     AND s.embedding_version IS NOT DISTINCT FROM c.embedding_version
+    WHERE s.document_id = target_document_id
+    UNION ALL
+    SELECT s.id, s.document_id, s.sample_total, c.document_id,
+           s.embedding, c.embedding,
+           s.embedding_dimensions = c.embedding_dimensions
+    FROM samples s
+    INNER JOIN user_chunks c
+      ON c.document_id = target_document_id
+     AND s.embedding_model IS NOT DISTINCT FROM c.embedding_model
+     AND s.embedding_version IS NOT DISTINCT FROM c.embedding_version
+    WHERE s.document_id <> target_document_id
+  ),
+  -- 不同维度的向量无法比较，在 CASE 中先判断维度
+  chunk_pairs AS (
+    SELECT p.document_id, p.other_document_id, p.sample_id, p.sample_total,
+           CASE WHEN p.comparable THEN 1 - (p.sample_embedding <=> p.chunk_embedding) END AS similarity
+    FROM target_pairs p
+  ),
+  -- 每个抽样分块在其他文档中是否存在近乎相同的分块
+  sample_matches AS (
+    SELECT p.document_id, p.other_document_id, p.sample_id, p.sample_total, max(p.similarity) AS similarity
+    FROM chunk_pairs p
+    WHERE p.similarity >= match_threshold
+    GROUP BY p.document_id, p.other_document_id, p.sample_id, p.sample_total
+  )
+  SELECT m.document_id,
+         m.other_document_id,
+         target_user_id,
+         count(*)::float / m.sample_total AS match_ratio,
+         avg(m.similarity)::float AS similarity
+  FROM sample_matches m
+  GROUP BY m.document_id, m.other_document_id, m.sample_total
+  HAVING count(*)::float / m.sample_total >= min_match_ratio;
+END;
+$$;
+
+COMMENT ON FUNCTION refresh_document_similarities IS '重新计算与指定文档相关的相似文档对（只比较当前版本的抽样分块），在文档当前版本变化后调用';
+
+REVOKE EXECUTE ON FUNCTION refresh_document_similarities(uuid, float, float, int) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS find_similar_documents(uuid, float, float);
+
+-- 为已有文档计算一次相似文档对
+DO $$
+DECLARE
+  doc record;
+BEGIN
+  FOR doc IN SELECT id FROM documents LOOP
+    PERFORM refresh_document_similarities(doc.id);
+  END LOOP;
+END;
+$$;
\ No newline at end of file
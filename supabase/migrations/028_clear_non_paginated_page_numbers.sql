@@ -0,0 +1,47 @@
+-- 非分页格式的文档块不再记录页码
+-- 本地解析器此前为 Markdown、HTML、DOCX、CSV、JSON、纯文本写入 page_number = 1，为 XLSX 写入工作表序号，
+-- 导致页码范围过滤命中没有页码的文档块、引用跳转到错误的页码。新导入的文档块 page_number 为 null，XLSX 的工作表名称写入 sheet_name
+-- 1. 纯文本、Markdown、HTML、CSV、JSON、XLSX 文档的文档块去掉 page_number（工作表名称已包含在 section 中）
+-- 2. Word 文档可能由 RAG 分块服务解析出真实页码，只在全部文档块都是第 1 页时去掉 page_number
+
+WITH chunk_metadata AS (
+  SELECT dc.id, dc.document_id, d.file_type,
+         -- 分块元数据入库时可能是 JSON 字符串
+         CASE WHEN jsonb_typeof(dc.metadata) = 'string'
+              THEN (dc.metadata #>> '{}')::jsonb
+              ELSE dc.metadata END AS m
+  FROM document_chunks dc
+  INNER JOIN documents d ON dc.document_id = d.id
+  WHERE dc.metadata IS NOT NULL
+),
+single_page_word_documents AS (
+  SELECT cm.document_id
+  FROM chunk_metadata cm
+  WHERE cm.file_type IN (
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  )
+  GROUP BY cm.document_id
+  HAVING bool_and(cm.m->>'page_number' IS NULL OR cm.m->>'page_number' = '1')
+)
+UPDATE document_chunks dc
+SET metadata = cm.m - 'page_number'
+FROM chunk_metadata cm
+WHERE dc.id = cm.id
+  AND cm.m ? 'page_number'
+  AND (
+    cm.file_type IS NULL
+    OR cm.file_type IN (
+      'text/plain',
+      'text/markdown',
+      'text/x-markdown',
+      'text/html',
+      'text/csv',
+      'application/vnd.ms-excel',
+      'application/json',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      -- 浏览器无法识别扩展名（如 .md）时的类型
+      'application/octet-stream'
+    )
+    OR cm.document_id IN (SELECT document_id FROM single_page_word_documents)
+  );
\ No newline at end of file
@@ -0,0 +1,110 @@
+-- 恢复向量索引
+-- 016 把 embedding 改为不限维度的列后删除了向量索引，所有向量检索都是顺序扫描。
+-- 不限维度的列无法直接建 HNSW 索引，改为按向量维度建部分索引（表达式中转换为固定维度）：
+-- 1. 为当前使用的 1024 维向量（text-embedding-v4）建 HNSW 部分索引
+-- 2. 检索函数在查询向量为 1024 维时使用与索引相同的表达式排序，由索引返回最近的文档块
+-- 其他维度的向量仍然顺序扫描；更换为其他维度的嵌入模型后，按同样的方式为该维度增加部分索引和检索分支
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_1024
+    ON document_chunks USING hnsw ((embedding::extensions.vector(1024)) extensions.vector_cosine_ops)
+    WHERE embedding_dimensions = 1024;
+
+CREATE OR REPLACE FUNCTION search_similar_chunks_with_category(
+  query_embedding extensions.vector,
+  target_user_id uuid,
+  match_threshold float DEFAULT 0.3,
+  match_count int DEFAULT 5,
+  category_filter uuid DEFAULT NULL,
+  embedding_model_filter text DEFAULT NULL,
+  embedding_version_filter text DEFAULT NULL,
+  filters jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  chunk_index int,
+  metadata jsonb,
+  similarity float,
+  documents jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+-- 索引扫描后再按用户和过滤条件筛选，结果不足时继续扫描（pgvector 0.8 及以上）
+SET hnsw.iterative_scan = 'relaxed_order'
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF vector_dims(query_embedding) = 1024 THEN
+    -- 表达式与 idx_document_chunks_embedding_1024 一致，按距离排序时使用索引
+    RETURN QUERY
+    SELECT
+      dc.id,
+      dc.document_id,
+      dc.content,
+      dc.chunk_index,
+      dc.metadata,
+      1 - (dc.embedding::vector(1024) <=> query_embedding::vector(1024)) as similarity,
+      jsonb_build_object(
+        'id', dc.document_id,
+        'title', d.title,
+        'user_id', d.user_id,
+        'category_id', d.category_id
+      ) as documents
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE
+      dc.embedding_dimensions = 1024
+      AND d.user_id = target_user_id
+      AND dc.is_active
+      AND dc.embedding IS NOT NULL
+      AND (embedding_model_filter IS NULL OR dc.embedding_model = embedding_model_filter)
+      AND (embedding_version_filter IS NULL OR dc.embedding_version = embedding_version_filter)
+      AND (category_filter IS NULL OR d.category_id = category_filter)
+      AND chunk_matches_filters(d, dc.metadata, filters)
+      AND (1 - (dc.embedding::vector(1024) <=> query_embedding::vector(1024))) > match_threshold
+    ORDER BY dc.embedding::vector(1024) <=> query_embedding::vector(1024)
+    LIMIT match_count;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  -- 没有索引的维度：先筛选出维度和模型兼容的文档块，再计算距离（不同维度的向量无法比较）
+  WITH compatible_chunks AS MATERIALIZED (
+    SELECT dc.id, dc.document_id, dc.content, dc.chunk_index, dc.metadata, dc.embedding,
+           d.title, d.user_id, d.category_id
+    FROM document_chunks dc
+    INNER JOIN documents d ON dc.document_id = d.id
+    WHERE
+      d.user_id = target_user_id
+      AND dc.is_active
+      AND dc.embedding IS NOT NULL
+      AND dc.embedding_dimensions = vector_dims(query_embedding)
+      AND (embedding_model_filter IS NULL OR dc.embedding_model = embedding_model_filter)
+      AND (embedding_version_filter IS NULL OR dc.embedding_version = embedding_version_filter)
+      AND (category_filter IS NULL OR d.category_id = category_filter)
+      AND chunk_matches_filters(d, dc.metadata, filters)
+  )
+  SELECT
+    c.id,
+    c.document_id,
+    c.content,
+    c.chunk_index,
+    c.metadata,
+    -- 计算余弦相似度
+    1 - (c.embedding <=> query_embedding) as similarity,
+    -- 返回文档信息作为JSON
+    jsonb_build_object(
+      'id', c.document_id,
+      'title', c.title,
+      'user_id', c.user_id,
+      'category_id', c.category_id
+    ) as documents
+  FROM compatible_chunks c
+  WHERE (1 - (c.embedding <=> query_embedding)) > match_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_similar_chunks_with_category IS '支持分类与元数据过滤（chunk_matches_filters）的向量相似度搜索函数 - 只比较当前版本中与查询向量模型、版本、维度一致的文档块，1024 维向量使用 HNSW 部分索引';
@@ -0,0 +1,83 @@
+/// <reference types="jest" />
+import {
+  getCategorySubtreeIds,
+  isCategoryInSubtree,
+  resolveCategorySettings,
+  CategoryNode
+} from '../api/services/categoryService';
+
+const category = (id: string, parentId: string | null, settings: Partial<CategoryNode> = {}): CategoryNode => ({
+  id,
+  parent_id: parentId,
+  chunking_strategy: null,
+  chunk_size: null,
+  chunk_overlap: null,
+  system_prompt: null,
+  default_model: null,
+  ...settings
+});
+
+// root ─┬─ a ── a1
+//       └─ b
+const categories = [
+  category('root', null, { chunking_strategy: 'sentence', chunk_size: 800, system_prompt: '根提示词', default_model: 'openai/gpt-4o' }),
+  category('a', 'root', { chunk_size: 400, system_prompt: '' }),
+  category('a1', 'a', { default_model: 'openai/gpt-4o-mini' }),
+  category('b', 'root'),
+  category('other', null)
+];
+
+describe('getCategorySubtreeIds', () => {
+  it('包含根分类及全部子孙分类', () => {
+    expect(getCategorySubtreeIds(categories, ['root']).sort()).toEqual(['a', 'a1', 'b', 'root']);
+    expect(getCategorySubtreeIds(categories, ['a', 'a1'])).toEqual(['a', 'a1']);
+  });
+
+  it('分类之间有循环时不会无限展开', () => {
+    const cyclic = [category('x', 'y'), category('y', 'x')];
+    expect(getCategorySubtreeIds(cyclic, ['x']).sort()).toEqual(['x', 'y']);
+  });
+});
+
+describe('isCategoryInSubtree', () => {
+  it('判断分类是否为自身或子孙分类', () => {
+    expect(isCategoryInSubtree(categories, 'root', 'a1')).toBe(true);
+    expect(isCategoryInSubtree(categories, 'a', 'a')).toBe(true);
+    expect(isCategoryInSubtree(categories, 'a', 'b')).toBe(false);
+    expect(isCategoryInSubtree(categories, 'a1', 'root')).toBe(false);
+  });
+
+  it('分类之间有循环时正常结束', () => {
+    const cyclic = [category('x', 'y'), category('y', 'x')];
+    expect(isCategoryInSubtree(cyclic, 'y', 'x')).toBe(true);
+    expect(isCategoryInSubtree(cyclic, 'z', 'x')).toBe(false);
+  });
+});
+
+describe('resolveCategorySettings', () => {
+  it('每项设置取自身或最近的上级分类中已设置的值，空提示词视为未设置', () => {
+    expect(resolveCategorySettings(categories, 'a1')).toEqual({
+      chunking: { strategy: 'sentence', chunkSize: 400, chunkOverlap: undefined },
+      systemPrompt: '根提示词',
+      defaultModel: 'openai/gpt-4o-mini'
+    });
+  });
+
+  it('无效的分块策略被忽略', () => {
+    const settings = resolveCategorySettings([category('c', null, { chunking_strategy: 'unknown' })], 'c');
+    expect(settings.chunking.strategy).toBeUndefined();
+  });
+
+  it('分类不存在时没有任何设置', () => {
+    expect(resolveCategorySettings(categories, 'missing')).toEqual({
+      chunking: { strategy: undefined, chunkSize: undefined, chunkOverlap: undefined },
+      systemPrompt: null,
+      defaultModel: null
+    });
+  });
+
+  it('分类之间有循环时正常结束', () => {
+    const cyclic = [category('x', 'y'), category('y', 'x', { default_model: 'openai/gpt-4o' })];
+    expect(resolveCategorySettings(cyclic, 'x').defaultModel).toBe('openai/gpt-4o');
+  });
+});
@@ -0,0 +1,140 @@
+/// <reference types="jest" />
+import {
+  chunkDocument,
+  chunkPlainText,
+  resolveChunkingConfig,
+  splitSentences,
+  MAX_CHUNK_SIZE,
+  MIN_CHUNK_SIZE
+} from '../api/services/chunkingService';
+import { countTokens } from '../api/services/contextBuilderService';
+import type { ChunkData } from '../api/services/documentProcessingService';
+
+const page = (text: string, pageNumber: number | null, section: string | null = null): ChunkData => ({
+  text,
+  metadata: { source: 'test.pdf', page_number: pageNumber, section }
+});
+
+describe('resolveChunkingConfig', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.CHUNKING_STRATEGY;
+    delete process.env.CHUNK_SIZE;
+    delete process.env.CHUNK_OVERLAP;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('靠前的选项优先，未设置的字段使用默认值', () => {
+    expect(resolveChunkingConfig({ chunkSize: 500 }, { strategy: 'sentence', chunkSize: 800 }, null)).toEqual({
+      strategy: 'sentence',
+      chunkSize: 500,
+      chunkOverlap: 128
+    });
+  });
+
+  it('默认值读取环境变量，无效的策略回退为 recursive', () => {
+    process.env.CHUNKING_STRATEGY = 'unknown';
+    process.env.CHUNK_SIZE = '600';
+    process.env.CHUNK_OVERLAP = '50';
+
+    expect(resolveChunkingConfig()).toEqual({ strategy: 'recursive', chunkSize: 600, chunkOverlap: 50 });
+  });
+
+  it('分块大小限制在取值范围内，重叠不超过分块大小的一半', () => {
+    expect(resolveChunkingConfig({ chunkSize: 10, chunkOverlap: 90 })).toMatchObject({ chunkSize: MIN_CHUNK_SIZE, chunkOverlap: 50 });
+    expect(resolveChunkingConfig({ chunkSize: 100000 }).chunkSize).toBe(MAX_CHUNK_SIZE);
+    expect(resolveChunkingConfig({ chunkOverlap: -5 }).chunkOverlap).toBe(0);
+  });
+});
+
+describe('splitSentences', () => {
+  it('按中英文句末标点和换行切句，标点保留在句末', () => {
+    expect(splitSentences('第一句。第二句！“第三句？”\nThe value is 3.14. Next one')).toEqual([
+      '第一句。',
+      '第二句！',
+      '“第三句？”',
+      '\n',
+      'The value is 3.14.',
+      ' Next one'
+    ]);
+  });
+});
+
+describe('chunkDocument', () => {
+  const paragraph = (label: string) => `${label}${'检索增强生成把相关片段放入提示词。'.repeat(4)}`;
+
+  it('recursive 策略按段落切分，分块不超过指定大小', () => {
+    const text = ['一', '二', '三', '四'].map(paragraph).join('\n\n');
+    const chunks = chunkPlainText(text, 'test.txt', resolveChunkingConfig({ strategy: 'recursive', chunkSize: 150, chunkOverlap: 0 }));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(150);
+      expect(chunk.metadata).toMatchObject({ source: 'test.txt', page_number: null, chunking_strategy: 'recursive' });
+    });
+    expect(chunks.map(chunk => chunk.text).join('').replace(/\s/g, '')).toBe(text.replace(/\s/g, ''));
+  });
+
+  it('相邻分块保留末尾片段作为重叠', () => {
+    const text = Array.from({ length: 12 }, (_, i) => `第${i + 1}句话的内容比较长一些。`).join('');
+    const chunks = chunkPlainText(text, 'test.txt', resolveChunkingConfig({ strategy: 'sentence', chunkSize: 100, chunkOverlap: 30 }));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (let i = 1; i < chunks.length; i++) {
+      // 后一块开头与前一块末尾相同的最长部分
+      const previous = chunks[i - 1].text;
+      let overlap = '';
+      for (let length = 1; length <= chunks[i].text.length; length++) {
+        const prefix = chunks[i].text.slice(0, length);
+        if (previous.endsWith(prefix)) overlap = prefix;
+      }
+      expect(overlap.length).toBeGreaterThan(0);
+      expect(overlap.length).toBeLessThanOrEqual(30);
+      expect(splitSentences(overlap).every(sentence => sentence.endsWith('。'))).toBe(true);
+    }
+  });
+
+  it('文档块不跨页，小页面不与其他页合并', () => {
+    const chunks = chunkDocument(
+      [page('第一页内容。', 1), page('第二页内容。', 2), page('   ', 3)],
+      resolveChunkingConfig({ chunkSize: 500 })
+    );
+
+    expect(chunks.map(chunk => [chunk.text, chunk.metadata.page_number])).toEqual([
+      ['第一页内容。', 1],
+      ['第二页内容。', 2]
+    ]);
+  });
+
+  it('同一页相邻的小章节合并，沿用第一段的章节', () => {
+    const chunks = chunkDocument(
+      [page('简介内容。', null, '简介'), page('安装内容。', null, '安装')],
+      resolveChunkingConfig({ strategy: 'recursive', chunkSize: 500 })
+    );
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe('简介内容。\n\n安装内容。');
+    expect(chunks[0].metadata.section).toBe('简介');
+  });
+
+  it('heading 策略按 Markdown 标题拆分章节并记录标题路径', () => {
+    const markdown = '# 指南\n概述。\n## 安装\n安装步骤。\n## 配置\n配置说明。';
+    const chunks = chunkPlainText(markdown, 'guide.md', resolveChunkingConfig({ strategy: 'heading', chunkSize: 500 }));
+
+    expect(chunks.map(chunk => chunk.metadata.section)).toEqual(['指南', '指南 > 安装', '指南 > 配置']);
+    expect(chunks[1].text).toBe('## 安装\n安装步骤。');
+  });
+
+  it('token 策略按 token 数计量分块大小', () => {
+    const text = 'Retrieval augmented generation combines search with language models. '.repeat(40);
+    const chunks = chunkPlainText(text, 'test.txt', resolveChunkingConfig({ strategy: 'token', chunkSize: 100, chunkOverlap: 0 }));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(countTokens(chunk.text)).toBeLessThanOrEqual(100));
+    expect(chunks[0].text.length).toBeGreaterThan(100);
+  });
+});
@@ -0,0 +1,158 @@
+/// <reference types="jest" />
+import {
+  buildChatContext,
+  countTokens,
+  countMessageTokens,
+  joinAdjacentContent,
+  mergeAdjacentChunks,
+  truncateToTokens,
+  ContextChunk
+} from '../api/services/contextBuilderService';
+import { getModelContextLength, ChatMessage } from '../api/services/openrouterService';
+
+const MODEL = 'openai/gpt-3.5-turbo';
+
+/**
+ * 按 buildChatContext 的规则（预留 15% 余量）计算使输入预算恰好为 inputBudget 的 maxTokens
+ */
+const maxTokensFor = (inputBudget: number) => Math.floor(getModelContextLength(MODEL) * 0.85) - inputBudget;
+
+const chunk = (id: string, documentId: string, chunkIndex: number, content: string): ContextChunk => ({
+  id,
+  content,
+  document_id: documentId,
+  chunk_index: chunkIndex,
+  documents: { id: documentId, title: `文档${documentId}` }
+});
+
+const ids = (chunks: Array<{ id: string }>) => chunks.map(item => item.id);
+
+const systemPrompt = (contextText: string) => `请根据以下内容回答：\n${contextText}`;
+
+describe('mergeAdjacentChunks', () => {
+  it('同一文档的连续文档块不论检索顺序都合并为一段', () => {
+    const passages = mergeAdjacentChunks([
+      chunk('c1', 'd1', 1, '第一段'),
+      chunk('c3', 'd1', 3, '第三段'),
+      chunk('c2', 'd1', 2, '第二段')
+    ]);
+
+    expect(passages).toHaveLength(1);
+    expect(ids(passages[0].chunks)).toEqual(['c1', 'c2', 'c3']);
+    expect(passages[0].content).toBe('第一段\n第二段\n第三段');
+  });
+
+  it('不连续或不同文档的文档块保持独立，片段按排名最靠前的文档块排序', () => {
+    const passages = mergeAdjacentChunks([
+      chunk('a5', 'd1', 5, 'A5'),
+      chunk('b1', 'd2', 1, 'B1'),
+      chunk('a1', 'd1', 1, 'A1'),
+      chunk('b2', 'd2', 2, 'B2')
+    ]);
+
+    expect(passages.map(passage => ids(passage.chunks))).toEqual([['a5'], ['b1', 'b2'], ['a1']]);
+  });
+
+  it('扩展过相邻块的片段按 chunk_range 判断是否连续', () => {
+    const passages = mergeAdjacentChunks([
+      { ...chunk('w2', 'd1', 5, '窗口二'), chunk_range: { start: 4, end: 6 } },
+      { ...chunk('w1', 'd1', 2, '窗口一'), chunk_range: { start: 1, end: 3 } }
+    ]);
+
+    expect(passages).toHaveLength(1);
+    expect(ids(passages[0].chunks)).toEqual(['w1', 'w2']);
+  });
+});
+
+describe('joinAdjacentContent', () => {
+  it('去掉分块重叠部分', () => {
+    const overlap = '这是两个文档块之间重叠的一段比较长的文字内容';
+    expect(joinAdjacentContent(`开头。${overlap}`, `${overlap}结尾。`)).toBe(`开头。${overlap}结尾。`);
+  });
+
+  it('没有重叠时换行拼接', () => {
+    expect(joinAdjacentContent('前一块', '后一块')).toBe('前一块\n后一块');
+  });
+});
+
+describe('token 计数', () => {
+  it('使用分词器计数', () => {
+    expect(countTokens('')).toBe(0);
+    expect(countTokens('hello world')).toBe(2);
+  });
+
+  it('消息计数包含格式开销', () => {
+    const messages: ChatMessage[] = [{ role: 'user', content: 'hello world' }];
+    expect(countMessageTokens(messages)).toBe(countTokens('hello world') + 4);
+  });
+
+  it('truncateToTokens 截取不超过指定 token 数且不留下不完整字符', () => {
+    const text = '知识库检索增强生成'.repeat(20);
+    const truncated = truncateToTokens(text, 10);
+
+    expect(countTokens(truncated)).toBeLessThanOrEqual(10);
+    expect(text.startsWith(truncated)).toBe(true);
+    expect(truncated).not.toContain('�');
+    expect(truncateToTokens('短文本', 100)).toBe('短文本');
+  });
+});
+
+describe('buildChatContext', () => {
+  const messages: ChatMessage[] = [{ role: 'user', content: '什么是向量检索？' }];
+
+  it('预算充足时放入全部片段，引用编号与片段一一对应', () => {
+    const context = buildChatContext({
+      model: MODEL,
+      chunks: [chunk('c1', 'd1', 1, '向量检索基于嵌入相似度'), chunk('c9', 'd2', 9, '关键词检索基于倒排索引')],
+      messages,
+      maxTokens: 1000,
+      buildSystemPrompt: systemPrompt
+    });
+
+    expect(context.citations.map(citation => citation.index)).toEqual([1, 2]);
+    expect(context.usage.droppedChunks).toBe(0);
+    expect(context.messages[0].role).toBe('system');
+    expect(context.messages[0].content).toContain('[1] 文档《文档d1》');
+    expect(context.messages[context.messages.length - 1]).toEqual(messages[0]);
+  });
+
+  it('超出预算时截断最后一段并丢弃其余片段，提示词不超过输入预算', () => {
+    const inputBudget = 400;
+    const longText = '检索增强生成把检索到的文档片段放入提示词。'.repeat(40);
+    const context = buildChatContext({
+      model: MODEL,
+      chunks: [chunk('c1', 'd1', 1, longText), chunk('c5', 'd1', 5, longText), chunk('c9', 'd2', 9, longText)],
+      messages,
+      maxTokens: maxTokensFor(inputBudget),
+      buildSystemPrompt: systemPrompt
+    });
+
+    expect(context.passages).toHaveLength(1);
+    expect(context.passages[0].content.endsWith('……')).toBe(true);
+    expect(context.usage.droppedChunks).toBe(2);
+    expect(context.usage.promptTokens).toBeLessThanOrEqual(inputBudget);
+    expect(countMessageTokens(context.messages)).toBe(context.usage.promptTokens);
+  });
+
+  it('对话历史从最近的消息开始保留，当前问题始终保留', () => {
+    const inputBudget = 300;
+    const history: ChatMessage[] = Array.from({ length: 10 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `第${i}条历史消息：${'这是一段比较长的对话内容。'.repeat(5)}`
+    }));
+    const context = buildChatContext({
+      model: MODEL,
+      chunks: [],
+      messages: [...history, ...messages],
+      maxTokens: maxTokensFor(inputBudget),
+      buildSystemPrompt: systemPrompt
+    });
+
+    const kept = context.messages.slice(1, -1);
+    expect(context.usage.droppedMessages).toBeGreaterThan(0);
+    expect(kept.length + context.usage.droppedMessages).toBe(history.length);
+    expect(kept).toEqual(history.slice(history.length - kept.length));
+    expect(context.messages[context.messages.length - 1]).toEqual(messages[0]);
+    expect(context.usage.promptTokens).toBeLessThanOrEqual(inputBudget);
+  });
+});
\ No newline at end of file
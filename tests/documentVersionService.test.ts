@@ -0,0 +1,40 @@
+/// <reference types="jest" />
+import { diffVersionContent } from '../api/services/documentVersionService';
+
+describe('diffVersionContent', () => {
+  it('内容相同时只有未变化的片段', () => {
+    const content = '第一行\n第二行\n';
+    expect(diffVersionContent(content, content)).toEqual({
+      changes: [{ type: 'unchanged', value: content, count: 2 }],
+      stats: { added: 0, removed: 0, unchanged: 2 }
+    });
+  });
+
+  it('按行标记新增、删除与未变化的内容，顺序与原文一致', () => {
+    const diff = diffVersionContent('标题\n旧的条款\n结尾\n', '标题\n新的条款\n补充说明\n结尾\n');
+
+    expect(diff.changes).toEqual([
+      { type: 'unchanged', value: '标题\n', count: 1 },
+      { type: 'removed', value: '旧的条款\n', count: 1 },
+      { type: 'added', value: '新的条款\n补充说明\n', count: 2 },
+      { type: 'unchanged', value: '结尾\n', count: 1 }
+    ]);
+    expect(diff.stats).toEqual({ added: 2, removed: 1, unchanged: 2 });
+  });
+
+  it('旧版本为空时全部为新增', () => {
+    const diff = diffVersionContent('', '第一行\n第二行\n');
+
+    expect(diff.changes.map(change => change.type)).toEqual(['added']);
+    expect(diff.stats).toEqual({ added: 2, removed: 0, unchanged: 0 });
+  });
+
+  it('拼接旧版本的未变化与删除片段可还原旧内容，拼接新增与未变化片段可还原新内容', () => {
+    const from = '甲\n乙\n丙\n丁\n';
+    const to = '甲\n丙\n戊\n丁\n己\n';
+    const { changes } = diffVersionContent(from, to);
+
+    expect(changes.filter(change => change.type !== 'added').map(change => change.value).join('')).toBe(from);
+    expect(changes.filter(change => change.type !== 'removed').map(change => change.value).join('')).toBe(to);
+  });
+});
@@ -0,0 +1,90 @@
+/// <reference types="jest" />
+import {
+  computeContentHash,
+  groupDuplicateDocuments,
+  isDuplicateAction,
+  DuplicateCandidateDocument
+} from '../api/services/duplicateDetectionService';
+
+const document = (id: string, createdAt: string, contentHash: string | null = null): DuplicateCandidateDocument => ({
+  id,
+  title: `文档${id}`,
+  file_name: `${id}.pdf`,
+  created_at: createdAt,
+  content_hash: contentHash
+});
+
+const groupIds = (groups: ReturnType<typeof groupDuplicateDocuments>) =>
+  groups.map(group => ({ matchType: group.matchType, ids: group.documents.map(item => item.id) }));
+
+describe('computeContentHash', () => {
+  it('文本统一换行并去掉首尾空白后计算哈希', () => {
+    expect(computeContentHash('  第一行\r\n第二行\r第三行\n')).toBe(computeContentHash('第一行\n第二行\n第三行'));
+  });
+
+  it('内容不同时哈希不同', () => {
+    expect(computeContentHash('A')).not.toBe(computeContentHash('B'));
+  });
+
+  it('文件内容按原始字节计算', () => {
+    expect(computeContentHash(Buffer.from(' A '))).not.toBe(computeContentHash(' A '));
+  });
+});
+
+describe('isDuplicateAction', () => {
+  it('只接受 replace 与 keepBoth', () => {
+    expect(isDuplicateAction('replace')).toBe(true);
+    expect(isDuplicateAction('keepBoth')).toBe(true);
+    expect(isDuplicateAction('skip')).toBe(false);
+    expect(isDuplicateAction(undefined)).toBe(false);
+  });
+});
+
+describe('groupDuplicateDocuments', () => {
+  const documents = [
+    document('a', '2024-01-01T00:00:00Z', 'h1'),
+    document('b', '2024-01-02T00:00:00Z', 'h1'),
+    document('c', '2024-01-03T00:00:00Z', 'h2'),
+    document('d', '2024-01-04T00:00:00Z'),
+    document('e', '2024-01-05T00:00:00Z'),
+    document('f', '2024-01-06T00:00:00Z')
+  ];
+
+  it('内容哈希相同的文档为完全重复组', () => {
+    expect(groupIds(groupDuplicateDocuments(documents, []))).toEqual([{ matchType: 'exact', ids: ['a', 'b'] }]);
+  });
+
+  it('相似文档对按连通关系合并，组内按创建时间升序', () => {
+    const groups = groupDuplicateDocuments(documents, [
+      { document_id: 'f', other_document_id: 'e', match_ratio: 0.8 },
+      { document_id: 'e', other_document_id: 'c', match_ratio: 1 }
+    ]);
+
+    expect(groupIds(groups)).toEqual([
+      { matchType: 'exact', ids: ['a', 'b'] },
+      { matchType: 'near', ids: ['c', 'e', 'f'] }
+    ]);
+    expect(groups[1].matchRatio).toBe(1);
+  });
+
+  it('忽略同一完全重复组内的相似文档对和已不存在的文档', () => {
+    const groups = groupDuplicateDocuments(documents, [
+      { document_id: 'a', other_document_id: 'b', match_ratio: 1 },
+      { document_id: 'd', other_document_id: 'deleted', match_ratio: 1 }
+    ]);
+
+    expect(groupIds(groups)).toEqual([{ matchType: 'exact', ids: ['a', 'b'] }]);
+  });
+
+  it('完全重复组中的文档与其他文档高度相似时单独成组', () => {
+    const groups = groupDuplicateDocuments(documents, [
+      { document_id: 'd', other_document_id: 'b', match_ratio: 0.6 }
+    ]);
+
+    expect(groupIds(groups)).toEqual([
+      { matchType: 'exact', ids: ['a', 'b'] },
+      { matchType: 'near', ids: ['b', 'd'] }
+    ]);
+    expect(groups[1].matchRatio).toBe(0.6);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,204 @@
+/// <reference types="jest" />
+import { fuseSearchResults, getDefaultFusionStrategy, isFusionStrategy } from '../api/services/fusionService';
+
+/**
+ * 固定的向量搜索结果（按相似度降序）
+ */
+const vectorChunks = [
+  { id: 'A', content: '向量检索的基本原理', similarity: 0.82 },
+  { id: 'B', content: '混合检索结合关键词', similarity: 0.75 },
+  { id: 'C', content: '文档分块策略', similarity: 0.6 }
+];
+
+/**
+ * 固定的关键词搜索结果（按关键词分数降序）
+ */
+const keywordChunks = [
+  { id: 'B', content: '混合检索结合关键词', keyword_score: 6 },
+  { id: 'D', content: '向量数据库选型', keyword_score: 3 },
+  { id: 'A', content: '向量检索的基本原理', keyword_score: 1 }
+];
+
+const keywords = ['向量', '检索'];
+
+const ids = (chunks: Array<{ id: string }>) => chunks.map(chunk => chunk.id);
+
+describe('fuseSearchResults', () => {
+  const originalStrategy = process.env.FUSION_STRATEGY;
+
+  afterEach(() => {
+    if (originalStrategy === undefined) {
+      delete process.env.FUSION_STRATEGY;
+    } else {
+      process.env.FUSION_STRATEGY = originalStrategy;
+    }
+  });
+
+  describe('minmax', () => {
+    it('按加权 min-max 分数排序，最低相似度的向量结果被归一化为 0', () => {
+      const results = fuseSearchResults(vectorChunks, keywordChunks, keywords, 10, { strategy: 'minmax' });
+
+      expect(ids(results)).toEqual(['B', 'A', 'D', 'C']);
+      expect(results[0].hybrid_score).toBeCloseTo(0.9091, 4);
+      expect(results[1].hybrid_score).toBeCloseTo(0.7, 4);
+      expect(results[2].hybrid_score).toBeCloseTo(0.16, 4);
+      expect(results[3].hybrid_score).toBe(0);
+    });
+
+    it('单条关键词结果使用除以 5 的回退归一化', () => {
+      const results = fuseSearchResults(
+        [{ id: 'X', content: 'alpha', similarity: 0.9 }],
+        [{ id: 'Y', content: 'beta', keyword_score: 1 }],
+        [],
+        10,
+        { strategy: 'minmax' }
+      );
+
+      expect(ids(results)).toEqual(['X', 'Y']);
+      expect(results[0].hybrid_score).toBeCloseTo(0.54, 4);
+      expect(results[1].hybrid_score).toBeCloseTo(0.08, 4);
+    });
+
+    it('未指定策略且未配置环境变量时默认使用 minmax', () => {
+      delete process.env.FUSION_STRATEGY;
+      const results = fuseSearchResults(vectorChunks, keywordChunks, keywords, 10);
+
+      expect(results.every(chunk => chunk.fusion_strategy === 'minmax')).toBe(true);
+      expect(ids(results)).toEqual(['B', 'A', 'D', 'C']);
+    });
+  });
+
+  describe('rrf', () => {
+    it('按倒数排名之和排序，两路都命中的结果靠前', () => {
+      const results = fuseSearchResults(vectorChunks, keywordChunks, keywords, 10, { strategy: 'rrf' });
+
+      expect(ids(results)).toEqual(['B', 'A', 'C', 'D']);
+      // B: 0.6/62 + 0.4/61，除以理论最大值 1/61
+      expect(results[0].hybrid_score).toBeCloseTo((0.6 / 62 + 0.4 / 61) * 61, 6);
+      expect(results[0].vector_rank).toBe(2);
+      expect(results[0].keyword_rank).toBe(1);
+      expect(results[3].vector_rank).toBeNull();
+    });
+
+    it('只依赖排名，不受分数尺度影响', () => {
+      const scaledKeywordChunks = keywordChunks.map(chunk => ({ ...chunk, keyword_score: chunk.keyword_score * 100 }));
+      const results = fuseSearchResults(vectorChunks, scaledKeywordChunks, keywords, 10, { strategy: 'rrf' });
+
+      expect(ids(results)).toEqual(['B', 'A', 'C', 'D']);
+    });
+
+    it('提高关键词权重时关键词排名靠前的结果上升', () => {
+      const results = fuseSearchResults(vectorChunks, keywordChunks, keywords, 10, {
+        strategy: 'rrf',
+        vectorWeight: 0.2,
+        keywordWeight: 0.8
+      });
+
+      expect(ids(results)).toEqual(['B', 'A', 'D', 'C']);
+    });
+
+    it('较小的 k 放大排名差异', () => {
+      const results = fuseSearchResults(vectorChunks, keywordChunks, keywords, 10, { strategy: 'rrf', rrfK: 1 });
+
+      // A: 0.6/2 + 0.4/4 = 0.4，B: 0.6/3 + 0.4/2 = 0.4，分数相同时向量排名靠前者优先
+      expect(ids(results)).toEqual(['A', 'B', 'C', 'D']);
+    });
+  });
+
+  describe('convex', () => {
+    it('按余弦相似度与最大值归一化关键词分数的凸组合排序', () => {
+      const results = fuseSearchResults(vectorChunks, keywordChunks, keywords, 10, { strategy: 'convex' });
+
+      expect(ids(results)).toEqual(['B', 'A', 'C', 'D']);
+      expect(results[0].hybrid_score).toBeCloseTo(0.6 * 0.75 + 0.4 * 1, 6);
+      expect(results[1].hybrid_score).toBeCloseTo(0.6 * 0.82 + 0.4 * (1 / 6), 6);
+      expect(results[2].hybrid_score).toBeCloseTo(0.6 * 0.6, 6);
+      expect(results[3].hybrid_score).toBeCloseTo(0.4 * 0.5, 6);
+    });
+
+    it('权重会被归一化为和为 1', () => {
+      const normalized = fuseSearchResults(vectorChunks, keywordChunks, keywords, 10, {
+        strategy: 'convex',
+        vectorWeight: 3,
+        keywordWeight: 2
+      });
+      const defaults = fuseSearchResults(vectorChunks, keywordChunks, keywords, 10, { strategy: 'convex' });
+
+      expect(normalized.map(chunk => chunk.hybrid_score)).toEqual(defaults.map(chunk => chunk.hybrid_score));
+    });
+
+    it('只使用向量权重时按相似度排序', () => {
+      const results = fuseSearchResults(vectorChunks, keywordChunks, keywords, 10, {
+        strategy: 'convex',
+        vectorWeight: 1,
+        keywordWeight: 0
+      });
+
+      expect(ids(results)).toEqual(['A', 'B', 'C', 'D']);
+    });
+
+    it('单条结果不会被拉伸', () => {
+      const results = fuseSearchResults(
+        [{ id: 'X', content: 'alpha', similarity: 0.9 }],
+        [{ id: 'Y', content: 'beta', keyword_score: 1 }],
+        [],
+        10,
+        { strategy: 'convex' }
+      );
+
+      expect(ids(results)).toEqual(['X', 'Y']);
+      expect(results[0].hybrid_score).toBeCloseTo(0.54, 6);
+      expect(results[1].hybrid_score).toBeCloseTo(0.4, 6);
+    });
+  });
+
+  it('按 limit 截取结果并标记融合策略', () => {
+    const results = fuseSearchResults(vectorChunks, keywordChunks, keywords, 2, { strategy: 'rrf' });
+
+    expect(results).toHaveLength(2);
+    expect(results.every(chunk => chunk.fusion_strategy === 'rrf')).toBe(true);
+  });
+
+  it('同一文档块在两路结果中只出现一次并保留两路分数', () => {
+    const results = fuseSearchResults(vectorChunks, keywordChunks, keywords, 10, { strategy: 'convex' });
+    const chunkA = results.find(chunk => chunk.id === 'A')!;
+
+    expect(results.filter(chunk => chunk.id === 'A')).toHaveLength(1);
+    expect(chunkA.vector_score).toBe(0.82);
+    expect(chunkA.keyword_score).toBe(1);
+  });
+
+  it('两路结果都为空时返回空数组', () => {
+    expect(fuseSearchResults([], [], keywords, 5, { strategy: 'rrf' })).toEqual([]);
+    expect(fuseSearchResults([], [], keywords, 5, { strategy: 'convex' })).toEqual([]);
+    expect(fuseSearchResults([], [], keywords, 5, { strategy: 'minmax' })).toEqual([]);
+  });
+});
+
+describe('getDefaultFusionStrategy', () => {
+  const originalStrategy = process.env.FUSION_STRATEGY;
+
+  afterEach(() => {
+    if (originalStrategy === undefined) {
+      delete process.env.FUSION_STRATEGY;
+    } else {
+      process.env.FUSION_STRATEGY = originalStrategy;
+    }
+  });
+
+  it('读取 FUSION_STRATEGY 环境变量', () => {
+    process.env.FUSION_STRATEGY = 'rrf';
+    expect(getDefaultFusionStrategy()).toBe('rrf');
+  });
+
+  it('无效配置时回退为 minmax', () => {
+    process.env.FUSION_STRATEGY = 'unknown';
+    expect(getDefaultFusionStrategy()).toBe('minmax');
+  });
+
+  it('isFusionStrategy 只接受支持的策略', () => {
+    expect(isFusionStrategy('convex')).toBe(true);
+    expect(isFusionStrategy('weighted')).toBe(false);
+    expect(isFusionStrategy(undefined)).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+/// <reference types="jest" />
+import { LocalEmbeddingProvider } from '../api/lib/local-embedding';
+import { chunkPlainText, resolveChunkingConfig } from '../api/services/chunkingService';
+import {
+  generateEmbeddingsInBatches,
+  generateQueryEmbedding,
+  getEmbeddingSignature,
+  setEmbeddingProvider
+} from '../api/services/embeddingService';
+import { calculateCosineSimilarity } from '../api/services/similarityService';
+
+const DIMENSIONS = 256;
+
+const paragraphs = [
+  '向量检索把文本转换为嵌入向量，通过余弦相似度在向量空间中查找语义相近的文档块。嵌入模型的维度决定了向量的长度，查询向量和文档向量必须来自同一个模型才能比较。',
+  '关键词检索基于倒排索引统计词频，适合精确匹配产品型号、人名和专有名词。中文需要先分词，BM25 会综合考虑词频、逆文档频率和文档长度。',
+  '上传文档后，系统会解析文件内容，按分类的分块设置切分为文档块，再批量生成向量写入数据库。导入失败的文档可以在任务列表中重新处理。'
+];
+
+beforeAll(() => {
+  setEmbeddingProvider(new LocalEmbeddingProvider(DIMENSIONS));
+});
+
+afterAll(() => {
+  setEmbeddingProvider(null);
+});
+
+describe('本地嵌入提供方的离线导入与检索', () => {
+  it('向量签名使用本地模型和指定维度', () => {
+    expect(getEmbeddingSignature()).toMatchObject({ model: 'local-hashed-ngram', dimensions: DIMENSIONS });
+  });
+
+  it('分块、生成向量后按余弦相似度排序，相关文档块排在最前', async () => {
+    const chunks = chunkPlainText(paragraphs.join('\n\n'), '检索说明.txt', resolveChunkingConfig({
+      strategy: 'recursive',
+      chunkSize: 120,
+      chunkOverlap: 0
+    }));
+    expect(chunks).toHaveLength(paragraphs.length);
+
+    const { embeddings, failedIndexes } = await generateEmbeddingsInBatches(chunks.map(chunk => chunk.text));
+    expect(failedIndexes).toEqual([]);
+    embeddings.forEach(embedding => expect(embedding).toHaveLength(DIMENSIONS));
+
+    const rank = async (query: string) => {
+      const queryEmbedding = await generateQueryEmbedding(query);
+      return chunks
+        .map((chunk, i) => ({ text: chunk.text, similarity: calculateCosineSimilarity(queryEmbedding, embeddings[i]!) }))
+        .sort((a, b) => b.similarity - a.similarity);
+    };
+
+    const vectorRanking = await rank('嵌入向量的余弦相似度');
+    expect(vectorRanking[0].text).toContain('向量检索');
+    expect(vectorRanking[0].similarity).toBeGreaterThan(vectorRanking[1].similarity);
+
+    const keywordRanking = await rank('BM25 倒排索引');
+    expect(keywordRanking[0].text).toContain('关键词检索');
+  });
+
+  it('相同文本的向量一致', async () => {
+    const [first, second] = await Promise.all([generateQueryEmbedding('分块设置'), generateQueryEmbedding('分块设置')]);
+    expect(first).toEqual(second);
+  });
+});
@@ -0,0 +1,60 @@
+/// <reference types="jest" />
+import { extractKeywordsWithSegmenter, segmentWords, CHINESE_STOPWORDS } from '../api/lib/local-segmenter';
+
+describe('segmentWords', () => {
+  it('空文本没有词', () => {
+    expect(segmentWords('')).toEqual([]);
+    expect(segmentWords('   ')).toEqual([]);
+  });
+
+  it('中英文混合文本保留原始顺序，不包含标点和空白', () => {
+    const words = segmentWords('配置 Vector Search，与 BM25！');
+
+    expect(words).toEqual(expect.arrayContaining(['Vector', 'Search', 'BM25']));
+    expect(words.indexOf('Vector')).toBeLessThan(words.indexOf('BM25'));
+    words.forEach(word => expect(word).not.toMatch(/[\s，！]/));
+  });
+});
+
+describe('extractKeywordsWithSegmenter', () => {
+  it('过滤停用词、单个汉字和纯数字，高频词排在前面', () => {
+    const keywords = extractKeywordsWithSegmenter('向量检索和关键词检索的区别是什么 2024');
+
+    expect(keywords[0]).toBe('检索');
+    expect(keywords).toEqual(expect.arrayContaining(['向量', '区别']));
+    expect(keywords).not.toContain('2024');
+    keywords.forEach(keyword => {
+      expect(CHINESE_STOPWORDS.has(keyword)).toBe(false);
+      expect(keyword.length).toBeGreaterThanOrEqual(2);
+    });
+  });
+
+  it('英文转为小写并去重，过滤英文停用词', () => {
+    const keywords = extractKeywordsWithSegmenter('How to use the Embedding API with embedding models');
+
+    expect(keywords).toEqual(['embedding', 'models', 'api']);
+  });
+
+  it('按 topK 截取', () => {
+    expect(extractKeywordsWithSegmenter('alpha beta gamma delta', 2)).toEqual(['alpha', 'gamma']);
+  });
+});
+
+describe('不支持 Intl.Segmenter 时', () => {
+  const intl = Intl as unknown as { Segmenter?: unknown };
+  const originalSegmenter = intl.Segmenter;
+
+  afterEach(() => {
+    intl.Segmenter = originalSegmenter;
+  });
+
+  it('连续汉字拆为二元组，英文数字按单词切分', async () => {
+    delete intl.Segmenter;
+
+    // 分词器在模块内缓存，需要重新加载模块
+    await jest.isolateModulesAsync(async () => {
+      const { segmentWords: segmentWithoutIcu } = await import('../api/lib/local-segmenter');
+      expect(segmentWithoutIcu('向量检索 BM25 权')).toEqual(['向量', '量检', '检索', 'BM25', '权']);
+    });
+  });
+});
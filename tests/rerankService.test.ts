@@ -0,0 +1,93 @@
+/// <reference types="jest" />
+import { isRerankModel, rerankChunks, RerankableChunk } from '../api/services/rerankService';
+import { chatCompletion } from '../api/services/openrouterService';
+
+jest.mock('../api/services/openrouterService', () => ({
+  ...jest.requireActual('../api/services/openrouterService'),
+  chatCompletion: jest.fn()
+}));
+
+const mockedChatCompletion = chatCompletion as jest.MockedFunction<typeof chatCompletion>;
+
+const chunks: RerankableChunk[] = [
+  { id: 'c1', content: '第一段', hybrid_score: 0.9 },
+  { id: 'c2', content: '第二段', hybrid_score: 0.8 },
+  { id: 'c3', content: '第三段', hybrid_score: 0.7 }
+];
+
+describe('外部重排序接口', () => {
+  const originalFetch = global.fetch;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.RERANK_API_URL = 'https://rerank.example.com/v1/rerank';
+    process.env.RERANK_TIMEOUT_MS = '20';
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    process.env = { ...originalEnv };
+  });
+
+  it('按接口返回的分数排序', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ results: [{ index: 2, relevance_score: 0.95 }, { index: 0, relevance_score: 0.5 }] })
+    }) as unknown as typeof fetch;
+
+    const reranked = await rerankChunks('问题', chunks, { strategy: 'external', topN: 2 });
+
+    expect(reranked.map(chunk => chunk.id)).toEqual(['c3', 'c1']);
+    expect(reranked[0].rerank_strategy).toBe('external');
+  });
+
+  it('接口超时后回退为原始顺序', async () => {
+    global.fetch = jest.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+    })) as unknown as typeof fetch;
+
+    const reranked = await rerankChunks('问题', chunks, { strategy: 'external', topN: 2 });
+
+    expect(reranked.map(chunk => chunk.id)).toEqual(['c1', 'c2']);
+    expect(reranked[0]).not.toHaveProperty('rerank_score');
+  });
+});
+
+describe('LLM 重排序模型', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.RERANK_LLM_MODEL = 'openai/gpt-4o-mini';
+    mockedChatCompletion.mockReset();
+    mockedChatCompletion.mockResolvedValue({
+      choices: [{ message: { content: '[{"index": 1, "score": 9}, {"index": 0, "score": 2}]' } }]
+    } as Awaited<ReturnType<typeof chatCompletion>>);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('只接受可用模型列表中的模型或配置的默认模型', () => {
+    expect(isRerankModel('openai/gpt-4o-mini')).toBe(true);
+    expect(isRerankModel('anthropic/claude-3-opus')).toBe(true);
+    expect(isRerankModel('unknown/expensive-model')).toBe(false);
+    expect(isRerankModel(123)).toBe(false);
+
+    process.env.RERANK_LLM_MODEL = 'custom/reranker';
+    expect(isRerankModel('custom/reranker')).toBe(true);
+  });
+
+  it('使用调用方指定的可用模型', async () => {
+    const reranked = await rerankChunks('问题', chunks, { strategy: 'llm', topN: 2, model: 'openai/gpt-4o' });
+
+    expect(mockedChatCompletion.mock.calls[0][0].model).toBe('openai/gpt-4o');
+    expect(reranked.map(chunk => chunk.id)).toEqual(['c2', 'c1']);
+  });
+
+  it('不在允许列表中的模型改用默认模型', async () => {
+    await rerankChunks('问题', chunks, { strategy: 'llm', topN: 2, model: 'unknown/expensive-model' });
+
+    expect(mockedChatCompletion.mock.calls[0][0].model).toBe('openai/gpt-4o-mini');
+  });
+});
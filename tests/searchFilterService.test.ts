@@ -0,0 +1,73 @@
+/// <reference types="jest" />
+import { parseSearchFilters, toFilterParam } from '../api/services/searchFilterService';
+
+describe('parseSearchFilters', () => {
+  it('未传入时不过滤，非对象参数无效', () => {
+    expect(parseSearchFilters(undefined)).toEqual({});
+    expect(parseSearchFilters(null)).toEqual({});
+    expect(parseSearchFilters('documentIds')).toBeNull();
+    expect(parseSearchFilters([])).toBeNull();
+  });
+
+  it('列表条件去掉首尾空白并去重，标签可以是逗号分隔的字符串', () => {
+    expect(parseSearchFilters({
+      documentIds: [' d1 ', 'd1', 'd2'],
+      fileTypes: ['application/pdf'],
+      tags: '合同, 财务,合同'
+    })).toEqual({
+      documentIds: ['d1', 'd2'],
+      fileTypes: ['application/pdf'],
+      tags: ['合同', '财务']
+    });
+  });
+
+  it('列表中有空字符串、非字符串或超过数量上限时无效', () => {
+    expect(parseSearchFilters({ documentIds: ['d1', ' '] })).toBeNull();
+    expect(parseSearchFilters({ categoryIds: [1] })).toBeNull();
+    expect(parseSearchFilters({ excludeDocumentIds: 'd1' })).toBeNull();
+    expect(parseSearchFilters({ documentIds: Array.from({ length: 101 }, (_, i) => `d${i}`) })).toBeNull();
+  });
+
+  it('时间条件统一为 ISO 字符串，无法解析或范围颠倒时无效', () => {
+    expect(parseSearchFilters({ createdAfter: '2024-01-01T08:00:00+08:00' })).toEqual({ createdAfter: '2024-01-01T00:00:00.000Z' });
+    expect(parseSearchFilters({ createdAfter: 'yesterday' })).toBeNull();
+    expect(parseSearchFilters({ createdAfter: '2024-02-01', createdBefore: '2024-01-01' })).toBeNull();
+  });
+
+  it('页码为正整数，范围颠倒时无效', () => {
+    expect(parseSearchFilters({ pageFrom: 2, pageTo: 5 })).toEqual({ pageFrom: 2, pageTo: 5 });
+    expect(parseSearchFilters({ pageFrom: 0 })).toBeNull();
+    expect(parseSearchFilters({ pageFrom: 1.5 })).toBeNull();
+    expect(parseSearchFilters({ pageFrom: '2' })).toBeNull();
+    expect(parseSearchFilters({ pageFrom: 5, pageTo: 2 })).toBeNull();
+  });
+
+  it('忽略未知的条件', () => {
+    expect(parseSearchFilters({ unknown: true, pageTo: 3 })).toEqual({ pageTo: 3 });
+  });
+});
+
+describe('toFilterParam', () => {
+  it('转换为下划线命名并省略空条件', () => {
+    expect(toFilterParam({
+      documentIds: ['d1'],
+      excludeDocumentIds: [],
+      categoryIds: ['c1'],
+      tags: ['合同'],
+      createdBefore: '2024-01-01T00:00:00.000Z',
+      pageFrom: 3
+    })).toEqual({
+      document_ids: ['d1'],
+      category_ids: ['c1'],
+      tags: ['合同'],
+      created_before: '2024-01-01T00:00:00.000Z',
+      page_from: 3
+    });
+  });
+
+  it('没有任何过滤条件时返回 null', () => {
+    expect(toFilterParam(undefined)).toBeNull();
+    expect(toFilterParam({})).toBeNull();
+    expect(toFilterParam({ fileTypes: [] })).toBeNull();
+  });
+});
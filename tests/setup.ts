@@ -7,6 +7,9 @@ process.env.OPENROUTER_API_KEY = 'test-api-key';
 process.env.OPENROUTER_URL = 'https://openrouter.ai/api/v1';
 process.env.SITE_URL = 'http://localhost:3000';
 process.env.SITE_NAME = 'Hi-RAG Test';
+process.env.SUPABASE_URL = 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-role-key';
+process.env.SUPABASE_ANON_KEY = 'test-anon-key';
 
 // 设置全局测试超时时间
 jest.setTimeout(30000);